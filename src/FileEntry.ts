@@ -9,23 +9,49 @@ import once from 'call-once-fn';
 import { type FileAttributes, FileEntry, type Lock, type NoParamCallback, waitForAccess } from 'extract-base-iterator';
 import fs from 'graceful-fs';
 import oo from 'on-one';
-import type { ExtractOptions } from './types.ts';
+import onAbort from './lib/onAbort.ts';
+import { createAbortError, isAbortError } from './sevenz/constants.ts';
+import type { ProgressTracker } from './sevenz/Progress.ts';
+import type { EntryMetadata, ExtractOptions } from './types.ts';
 
 export default class SevenZipFileEntry extends FileEntry {
   private lock: Lock;
   private stream: NodeJS.ReadableStream;
+  private progress: ProgressTracker | null;
 
   /**
    * Whether this entry's folder supports streaming decompression.
    */
   readonly _canStream: boolean;
 
-  constructor(attributes: FileAttributes, stream: NodeJS.ReadableStream, lock: Lock, canStream: boolean) {
+  /** Coder chain in 7-Zip notation (e.g. "BCJ LZMA2:24") */
+  readonly method?: string;
+  /** True when the data is AES encrypted */
+  readonly encrypted: boolean;
+  /** CRC32 of the data, when stored in the archive */
+  readonly crc?: number;
+  /** Folder (solid block) holding the data */
+  readonly solidBlockIndex?: number;
+  /** Packed size - only set when the entry is alone in its folder */
+  readonly packedSize?: number;
+  /** Bytes written to disk by create */
+  bytesWritten = 0;
+
+  constructor(attributes: FileAttributes, stream: NodeJS.ReadableStream, lock: Lock, canStream: boolean, metadata?: EntryMetadata, progress?: ProgressTracker | null) {
     super(attributes);
     this.stream = stream;
     this.lock = lock;
     this.lock.retain();
     this._canStream = canStream;
+    this.progress = progress || null;
+    this.encrypted = false;
+    if (metadata) {
+      this.method = metadata.method;
+      this.encrypted = metadata.encrypted;
+      this.crc = metadata.crc;
+      this.solidBlockIndex = metadata.solidBlockIndex;
+      this.packedSize = metadata.packedSize;
+    }
   }
 
   create(dest: string, callback: NoParamCallback): void;
@@ -47,22 +73,46 @@ export default class SevenZipFileEntry extends FileEntry {
     return new Promise((resolve, reject) => this.create(dest, options, (err?: Error, done?: boolean) => (err ? reject(err) : resolve(done))));
   }
 
-  _writeFile(fullPath: string, _options: ExtractOptions, callback: NoParamCallback): void {
+  _writeFile(fullPath: string, options: ExtractOptions, callback: NoParamCallback): void {
     if (!this.stream) {
       callback(new Error('7z FileEntry missing stream. Check for calling create multiple times'));
       return;
     }
+    const signal = options.signal;
+    if (signal && signal.aborted) {
+      this.destroy();
+      callback(createAbortError());
+      return;
+    }
 
     const stream = this.stream;
     this.stream = null; // Prevent reuse
+    const progress = this.progress;
+    let writeStream: fs.WriteStream | null = null;
 
     // Use once since errors can come from either stream
     const cb = once((err?: Error) => {
-      err ? callback(err) : waitForAccess(fullPath, callback);
+      unsubscribe();
+      // Aborted (signal option or the iterator's signal tearing down the folder) - don't leave a partial file
+      if (isAbortError(err) && writeStream) return removePartialFile(writeStream, fullPath, () => callback(err));
+      if (err) return callback(err);
+      if (progress) progress.entryCompleted(this.path);
+      waitForAccess(fullPath, callback);
+    });
+
+    const unsubscribe = onAbort(signal, () => {
+      const s = stream as NodeJS.ReadableStream & { destroy?: (err?: Error) => void };
+      if (typeof s.destroy === 'function') s.destroy(createAbortError());
+      cb(createAbortError());
+    });
+
+    stream.on('data', (chunk: Buffer) => {
+      this.bytesWritten += chunk.length;
+      if (progress) progress.written(chunk.length);
     });
 
     try {
-      const writeStream = fs.createWriteStream(fullPath);
+      writeStream = fs.createWriteStream(fullPath);
 
       // Listen for errors on source stream (errors don't propagate through pipe)
       stream.on('error', (streamErr: Error) => {
@@ -73,7 +123,7 @@ export default class SevenZipFileEntry extends FileEntry {
         // error then fires with no handler, causing an uncaught exception.
         // Adding a no-op error handler ensures there's always a listener for any error.
         const ws = writeStream as fs.WriteStream & { destroy?: () => void };
-        writeStream.on('error', () => {});
+        ws.on('error', () => {});
         if (typeof ws.destroy === 'function') ws.destroy();
         cb(streamErr);
       });
@@ -103,3 +153,13 @@ export default class SevenZipFileEntry extends FileEntry {
     }
   }
 }
+
+/**
+ * Close an aborted write stream, then remove its file (the open may still be pending)
+ */
+function removePartialFile(writeStream: fs.WriteStream, fullPath: string, callback: () => void): void {
+  const ws = writeStream as fs.WriteStream & { destroy?: () => void };
+  ws.on('error', () => {});
+  ws.once('close', () => fs.unlink(fullPath, () => callback()));
+  if (typeof ws.destroy === 'function') ws.destroy();
+}
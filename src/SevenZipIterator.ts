@@ -1,17 +1,22 @@
-import BaseIterator, { Lock } from 'extract-base-iterator';
+import BaseIterator, { bufferFrom, Lock } from 'extract-base-iterator';
 import { rmSync } from 'fs-remove-compat';
 import fs from 'graceful-fs';
+import oo from 'on-one';
 import path from 'path';
 import Queue from 'queue-cb';
 import shortHash from 'short-hash';
 import tempSuffix from 'temp-suffix';
 import { tmpdir } from './compat.ts';
+import type FileEntry from './FileEntry.ts';
+import createEntryFilter from './lib/entryFilter.ts';
+import onAbort from './lib/onAbort.ts';
+import type { PathPolicy } from './lib/sanitizePath.ts';
 import streamToSource, { type SourceResult } from './lib/streamToSource.ts';
 import nextEntry from './nextEntry.ts';
-import { setPassword } from './sevenz/codecs/index.ts';
-import { type ArchiveSource, FileSource, type SevenZipEntry, SevenZipParser } from './sevenz/SevenZipParser.ts';
+import { createAbortError, createCodedError, ErrorCode } from './sevenz/constants.ts';
+import { type ArchiveInfo, type ArchiveSource, type AsyncArchiveSource, BufferSource, FileSource, MultiVolumeSource, openVolumes, type SevenZipEntry, SevenZipParser, type VerifyCallback, type VerifyReport, type Volume } from './sevenz/SevenZipParser.ts';
 
-import type { Entry, ExtractOptions } from './types.ts';
+import type { ArchiveInfoCallback, ArchiveInput, Entry, EntryStreamCallback, ExtractAllOptions, ExtractOptions, ExtractSummary, ExtractSummaryCallback } from './types.ts';
 
 /**
  * Internal iterator interface for SevenZipParser entries
@@ -29,10 +34,25 @@ class EntryIterator implements SevenZipFileIterator {
   private parser: SevenZipParser;
   private entries: SevenZipEntry[];
   private index = 0;
+  /** Entries dropped by the include / exclude / filter options */
+  skipped = 0;
 
-  constructor(parser: SevenZipParser) {
+  constructor(parser: SevenZipParser, select: ((entry: SevenZipEntry) => boolean) | null) {
     this.parser = parser;
     this.entries = parser.getEntries();
+    if (select) {
+      // Drop unselected entries up front - their streams are never created, folders with
+      // nothing selected are never decoded, and solid folder caches are released on time
+      const selected: SevenZipEntry[] = [];
+      for (let i = 0; i < this.entries.length; i++) {
+        if (select(this.entries[i])) selected.push(this.entries[i]);
+        else {
+          parser.skipEntry(this.entries[i]);
+          this.skipped++;
+        }
+      }
+      this.entries = selected;
+    }
   }
 
   next(): SevenZipEntry | null {
@@ -42,32 +62,101 @@ class EntryIterator implements SevenZipFileIterator {
     return this.entries[this.index++];
   }
 
+  /**
+   * Reorder for extraction: directories, then files in streaming order, then links.
+   * Returns false once iteration has started.
+   */
+  sortForExtraction(): boolean {
+    if (this.index > 0) return false;
+    const rank = (entry: SevenZipEntry): number => (entry.type === 'directory' ? 0 : entry.type === 'link' ? 2 : 1);
+    const position: { [key: string]: number } = {};
+    for (let i = 0; i < this.entries.length; i++) position[this.entries[i].path] = i;
+    this.entries.sort((a, b) => rank(a) - rank(b) || compareStreamingOrder(a, b) || position[a.path] - position[b.path]);
+    return true;
+  }
+
   getParser(): SevenZipParser {
     return this.parser;
   }
 }
 
+type ParserCallback = (error: Error | null, parser?: SevenZipParser) => void;
+
+/**
+ * View in-memory archive bytes as a Buffer - without copying where Buffer.from takes an ArrayBuffer
+ */
+function toBuffer(data: Buffer | Uint8Array | ArrayBuffer): Buffer {
+  if (Buffer.isBuffer(data)) return data;
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  if (typeof Buffer.from === 'function' && Buffer.from !== Uint8Array.from) return Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return bufferFrom(bytes);
+}
+
+function isBytes(input: ArchiveInput | null): input is Buffer | Uint8Array | ArrayBuffer {
+  if (!input || typeof input === 'string') return false;
+  return Buffer.isBuffer(input) || (typeof Uint8Array !== 'undefined' && input instanceof Uint8Array) || (typeof ArrayBuffer !== 'undefined' && input instanceof ArrayBuffer);
+}
+
+/**
+ * Sort by folder, then by stream within the folder (the order data is decoded)
+ */
+function compareStreamingOrder(a: SevenZipEntry, b: SevenZipEntry): number {
+  if (a._folderIndex !== b._folderIndex) {
+    return a._folderIndex - b._folderIndex;
+  }
+  return a._streamIndexInFolder - b._streamIndexInFolder;
+}
+
 export default class SevenZipIterator extends BaseIterator<Entry> {
   lock: Lock | null;
   /** @internal - Do not use directly */
   _iterator: unknown;
+  /** @internal - Do not use directly */
+  _parser: SevenZipParser | null = null;
+  /** @internal - Do not use directly */
+  _pathPolicy: PathPolicy;
+  private parseError: Error | null = null;
+  private parserWaiters: ParserCallback[] | null = [];
 
-  constructor(source: string | NodeJS.ReadableStream, options: ExtractOptions = {}) {
+  constructor(source: ArchiveInput | null, options: ExtractOptions = {}) {
     super(options);
+    this._pathPolicy = options.pathPolicy || 'reject';
     this.lock = new Lock();
     this.lock.onDestroy = (err) => BaseIterator.prototype.end.call(this, err);
     const queue = new Queue(1);
     let cancelled = false;
-    let archiveSource: ArchiveSource | null = null;
+    let archiveSource: ArchiveSource | AsyncArchiveSource | null = null;
     const setup = (): void => {
       cancelled = true;
     };
     this.processing.push(setup);
 
-    // Set password (or clear if not provided)
-    setPassword(options.password || null);
+    if (options.source) {
+      // Caller-provided source - the caller closes it
+      archiveSource = options.source;
+    } else if (isBytes(source)) {
+      // In-memory archive - read it in place
+      archiveSource = new BufferSource(toBuffer(source));
+    } else if (typeof source === 'string' && /\.001$/.test(source)) {
+      // First volume of a split archive - open every volume
+      queue.defer((cb: (err?: Error) => void) => {
+        openVolumes(source, (err, volumes) => {
+          const volumeSource = err ? null : new MultiVolumeSource(volumes as Volume[]);
+          if (this.done || cancelled) {
+            if (volumeSource) volumeSource.close();
+            return;
+          }
+          if (!volumeSource) return cb(err as Error);
 
-    if (typeof source === 'string') {
+          archiveSource = volumeSource;
+          // Register cleanup for volume file descriptors
+          this.lock.registerCleanup(() => {
+            volumeSource.close();
+          });
+          cb();
+        });
+      });
+    } else if (typeof source === 'string') {
       // File path input - use FileSource directly
       queue.defer((cb: (err?: Error) => void) => {
         fs.stat(source, (statErr, stats) => {
@@ -87,7 +176,7 @@ export default class SevenZipIterator extends BaseIterator<Entry> {
           });
         });
       });
-    } else {
+    } else if (source) {
       // Stream input - write to temp file for random access
       // Register cleanup for source stream
       const stream = source as NodeJS.ReadableStream;
@@ -129,14 +218,28 @@ export default class SevenZipIterator extends BaseIterator<Entry> {
       if (this.done || cancelled) return;
       if (!archiveSource) return cb(new Error('No archive source'));
 
-      const parser = new SevenZipParser(archiveSource);
+      const parser = new SevenZipParser(archiveSource, {
+        password: options.password,
+        passwordProvider: options.passwordProvider,
+        passwordRetries: options.passwordRetries,
+        onProgress: options.onProgress,
+        signal: options.signal,
+        cacheMaxBytes: options.cacheMaxBytes,
+        maxEntries: options.maxEntries,
+        maxTotalUnpackedSize: options.maxTotalUnpackedSize,
+        maxFolderSize: options.maxFolderSize,
+        maxCompressionRatio: options.maxCompressionRatio,
+        maxHeaderSize: options.maxHeaderSize,
+        archivePath: typeof source === 'string' ? source : undefined,
+      });
       parser.parse((parseErr) => {
         if (parseErr) {
           cb(parseErr);
           return;
         }
         try {
-          this._iterator = new EntryIterator(parser);
+          this._iterator = new EntryIterator(parser, createEntryFilter(options));
+          this._parser = parser;
           cb();
         } catch (err) {
           cb(err as Error);
@@ -144,9 +247,18 @@ export default class SevenZipIterator extends BaseIterator<Entry> {
       });
     });
 
+    // Abort ends the iterator; the parser tears down any folder streams still feeding entries
+    if (options.signal) {
+      const unsubscribe = onAbort(options.signal, () => {
+        if (!this.done) this.end(createAbortError());
+      });
+      this.lock.registerCleanup(unsubscribe);
+    }
+
     // start processing
     queue.await((err?: Error) => {
       this.processing.remove(setup);
+      if (this.parserWaiters) this.parserReady(err);
       if (this.done || cancelled) return;
       err ? this.end(err) : this.push(nextEntry);
     });
@@ -161,6 +273,152 @@ export default class SevenZipIterator extends BaseIterator<Entry> {
     }
     // Don't call base end here - Lock.__destroy() handles it
     this._iterator = null;
+    if (this.parserWaiters) this.parserReady(err);
+  }
+
+  /**
+   * Get archive-level metadata (folders, coder chains, sizes, header flags).
+   * Waits for the archive to be parsed.
+   */
+  info(callback?: ArchiveInfoCallback): Promise<ArchiveInfo> | void {
+    if (typeof callback === 'function') {
+      this.withParser((err, parser) => {
+        if (err) return callback(err);
+        let info: ArchiveInfo;
+        try {
+          info = (parser as SevenZipParser).getArchiveInfo();
+        } catch (infoErr) {
+          return callback(infoErr as Error);
+        }
+        callback(null, info);
+      });
+      return;
+    }
+    return new Promise<ArchiveInfo>((resolve, reject) => this.info((err, info) => (err ? reject(err) : resolve(info as ArchiveInfo))));
+  }
+
+  /**
+   * Extract every entry to dest: directories first, files in streaming order with
+   * options.concurrency (default 1), then links. Entries that fail are recorded in the
+   * summary's errors and extraction continues. Call instead of iterating.
+   */
+  extract(dest: string, callback: ExtractSummaryCallback): void;
+  extract(dest: string, options: ExtractAllOptions, callback: ExtractSummaryCallback): void;
+  extract(dest: string, options?: ExtractAllOptions): Promise<ExtractSummary>;
+  extract(dest: string, options?: ExtractAllOptions | ExtractSummaryCallback, callback?: ExtractSummaryCallback): Promise<ExtractSummary> | void {
+    callback = typeof options === 'function' ? options : callback;
+    options = typeof options === 'function' ? {} : ((options || {}) as ExtractAllOptions);
+
+    if (typeof callback === 'function') return this.extractInternal(dest, options, callback);
+    return new Promise<ExtractSummary>((resolve, reject) => this.extractInternal(dest, options as ExtractAllOptions, (err, summary) => (err ? reject(err) : resolve(summary as ExtractSummary))));
+  }
+
+  private extractInternal(dest: string, options: ExtractAllOptions, callback: ExtractSummaryCallback): void {
+    this.withParser((err) => {
+      if (err) return callback(err);
+      const iterator = this._iterator as EntryIterator | null;
+      if (!iterator || !iterator.sortForExtraction()) return callback(new Error('extract() must be called before iterating'));
+
+      const summary: ExtractSummary = { files: 0, directories: 0, links: 0, bytes: 0, skipped: iterator.skipped, errors: [] };
+      const links: Entry[] = [];
+      const create = (entry: Entry, cb: () => void): void => {
+        entry.create(dest, options, (createErr?: Error) => {
+          if (createErr) summary.errors.push({ path: entry.path, error: createErr });
+          else if (entry.type === 'directory') summary.directories++;
+          else if (entry.type === 'file') {
+            summary.files++;
+            summary.bytes += (entry as FileEntry).bytesWritten;
+          } else summary.links++;
+          cb();
+        });
+      };
+
+      this.forEach(
+        (entry, cb) => {
+          // create links after directories and files
+          if (entry.type === 'link') links.unshift(entry);
+          else if (entry.type === 'symlink') links.push(entry);
+          else return create(entry, cb);
+          cb();
+        },
+        { callbacks: true, concurrency: options.concurrency || 1 },
+        (forEachErr) => {
+          if (forEachErr) return callback(forEachErr);
+          const queue = new Queue(1);
+          for (let i = 0; i < links.length; i++) queue.defer((cb: () => void) => create(links[i], cb));
+          queue.await(() => callback(null, summary));
+        }
+      );
+    });
+  }
+
+  /**
+   * Open a single entry by path without iterating (random access). Only the entry's
+   * folder is decoded. Fails with ENTRY_NOT_FOUND for missing paths and directories.
+   */
+  openEntry(entryPath: string, callback?: EntryStreamCallback): Promise<NodeJS.ReadableStream> | void {
+    if (typeof callback === 'function') {
+      this.withParser((err, parser) => {
+        if (err) return callback(err);
+        const lock = this.lock;
+        if (!lock) return callback(new Error('Archive is closed - call openEntry() before the iterator ends'));
+        const entry = (parser as SevenZipParser).findEntry(entryPath);
+        if (!entry || entry.type === 'directory') return callback(createCodedError(`Entry not found: ${entryPath}`, ErrorCode.ENTRY_NOT_FOUND));
+
+        let stream: NodeJS.ReadableStream;
+        try {
+          stream = (parser as SevenZipParser).openEntryStream(entry);
+        } catch (openErr) {
+          return callback(openErr as Error);
+        }
+        // Keep the source open until the stream is done
+        lock.retain();
+        oo(stream, ['end', 'error', 'close'], () => lock.release());
+        callback(null, stream);
+      });
+      return;
+    }
+    return new Promise<NodeJS.ReadableStream>((resolve, reject) => this.openEntry(entryPath, (err, stream) => (err ? reject(err) : resolve(stream as NodeJS.ReadableStream))));
+  }
+
+  /**
+   * Test archive integrity (like `7z t`) without writing files: every folder is decoded
+   * once and all stored CRCs are checked. Call before the iterator ends.
+   */
+  test(callback?: VerifyCallback): Promise<VerifyReport> | void {
+    if (typeof callback === 'function') {
+      this.withParser((err, parser) => {
+        if (err) return callback(err);
+        const lock = this.lock;
+        if (!lock) return callback(new Error('Archive is closed - call test() before the iterator ends'));
+        // Keep the source open while verifying
+        lock.retain();
+        (parser as SevenZipParser).verify((verifyErr, report) => {
+          lock.release();
+          callback(verifyErr, report);
+        });
+      });
+      return;
+    }
+    return new Promise<VerifyReport>((resolve, reject) => this.test((err, report) => (err ? reject(err) : resolve(report as VerifyReport))));
+  }
+
+  /**
+   * Call back with the parser once the archive has been parsed (or failed to parse)
+   */
+  private withParser(callback: ParserCallback): void {
+    if (this.parserWaiters) {
+      this.parserWaiters.push(callback);
+      return;
+    }
+    callback(this.parseError, this._parser || undefined);
+  }
+
+  private parserReady(err?: Error): void {
+    const waiters = this.parserWaiters || [];
+    this.parseError = this._parser ? null : err || new Error('Iterator ended before the archive was parsed');
+    this.parserWaiters = null;
+    for (let i = 0; i < waiters.length; i++) waiters[i](this.parseError, this._parser || undefined);
   }
 
   /**
@@ -216,14 +474,7 @@ export default class SevenZipIterator extends BaseIterator<Entry> {
       sorted.push(entries[i]);
     }
 
-    sorted.sort((a, b) => {
-      // First by folder index
-      if (a._folderIndex !== b._folderIndex) {
-        return a._folderIndex - b._folderIndex;
-      }
-      // Then by stream index within folder
-      return a._streamIndexInFolder - b._streamIndexInFolder;
-    });
+    sorted.sort(compareStreamingOrder);
 
     return sorted;
   }
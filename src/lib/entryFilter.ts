@@ -0,0 +1,87 @@
+// Entry selection for include / exclude globs and the filter predicate
+// Globs: * and ? stay within a path segment, ** spans segments, [abc] / [!abc] classes, {a,b} alternatives.
+// Patterns without a slash match the basename at any depth (e.g. '*.json').
+
+import type { SevenZipEntry } from '../sevenz/SevenZipParser.ts';
+
+export interface EntryFilterOptions {
+  include?: string | string[];
+  exclude?: string | string[];
+  filter?: (entry: SevenZipEntry) => boolean;
+}
+
+interface CompiledGlob {
+  regex: RegExp;
+  matchBase: boolean;
+}
+
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let inBraces = false;
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === '*') {
+      if (glob[i + 1] === '*') {
+        i++;
+        if (glob[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else source += '.*';
+      } else source += '[^/]*';
+    } else if (c === '?') source += '[^/]';
+    else if (c === '[') {
+      const close = glob.indexOf(']', i + 2);
+      if (close < 0) source += '\\[';
+      else {
+        let body = glob.slice(i + 1, close);
+        if (body[0] === '!') body = `^${body.slice(1)}`;
+        source += `[${body.replace(/\\/g, '\\\\')}]`;
+        i = close;
+      }
+    } else if (c === '{') {
+      inBraces = true;
+      source += '(?:';
+    } else if (c === '}' && inBraces) {
+      inBraces = false;
+      source += ')';
+    } else if (c === ',' && inBraces) source += '|';
+    else source += c.replace(/[.+^$()|\\{}]/g, '\\$&');
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function compileGlobs(patterns: string | string[] | undefined): CompiledGlob[] {
+  if (patterns === undefined) return [];
+  const list = typeof patterns === 'string' ? [patterns] : patterns;
+  const compiled: CompiledGlob[] = [];
+  for (let i = 0; i < list.length; i++) {
+    const pattern = list[i].replace(/\\/g, '/').replace(/^(\.?\/)+/, '');
+    compiled.push({ regex: globToRegExp(pattern), matchBase: pattern.indexOf('/') < 0 });
+  }
+  return compiled;
+}
+
+function matchesAny(globs: CompiledGlob[], entryPath: string, basename: string): boolean {
+  for (let i = 0; i < globs.length; i++) {
+    if (globs[i].regex.test(globs[i].matchBase ? basename : entryPath)) return true;
+  }
+  return false;
+}
+
+/**
+ * Build the entry predicate for the include / exclude / filter options, or null when nothing is filtered
+ */
+export default function createEntryFilter(options: EntryFilterOptions): ((entry: SevenZipEntry) => boolean) | null {
+  const include = compileGlobs(options.include);
+  const exclude = compileGlobs(options.exclude);
+  const filter = options.filter;
+  if (!include.length && !exclude.length && !filter) return null;
+
+  return (entry: SevenZipEntry): boolean => {
+    const entryPath = entry.path.split(/[\\/]/).filter(Boolean).join('/');
+    const basename = entryPath.slice(entryPath.lastIndexOf('/') + 1);
+    if (include.length && !matchesAny(include, entryPath, basename)) return false;
+    if (exclude.length && matchesAny(exclude, entryPath, basename)) return false;
+    return filter ? !!filter(entry) : true;
+  };
+}
@@ -0,0 +1,8 @@
+// Subscribe to an AbortSignal - returns the unsubscribe function
+// Node 0.8 has no AbortSignal; callers pass one in, so only its addEventListener / removeEventListener are used
+
+export default function onAbort(signal: AbortSignal | null | undefined, listener: () => void): () => void {
+  if (!signal) return () => {};
+  signal.addEventListener('abort', listener);
+  return () => signal.removeEventListener('abort', listener);
+}
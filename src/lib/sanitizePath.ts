@@ -0,0 +1,70 @@
+// Entry path and symlink target sanitization
+// Both separators split ('\' from Windows-created archives), '.' and empty segments are dropped.
+// Absolute paths, drive letters and '..' that climbs above the destination are unsafe:
+//   'reject' (default) throws UNSAFE_PATH, 'strip' removes the unsafe parts, 'allow' passes them through.
+
+import path from 'path';
+import { createCodedError, ErrorCode } from '../sevenz/constants.ts';
+
+export type PathPolicy = 'reject' | 'strip' | 'allow';
+
+const DRIVE_REGEX = /^[a-zA-Z]:/;
+
+function isAbsolutePath(parts: string[]): boolean {
+  return (parts.length > 1 && parts[0] === '') || DRIVE_REGEX.test(parts[0]);
+}
+
+/**
+ * Resolve a path onto base segments, applying the policy to absolute paths and escaping '..'
+ */
+function resolveSegments(target: string, base: string[], policy: PathPolicy, description: string): string[] {
+  const parts = target.split(/[\\/]/);
+  let segments = base.slice();
+  if (isAbsolutePath(parts)) {
+    if (policy === 'reject') throw createCodedError(`Unsafe ${description} (absolute): ${target}`, ErrorCode.UNSAFE_PATH);
+    parts[0] = parts[0].replace(DRIVE_REGEX, '');
+    segments = [];
+  }
+
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (segments.length) segments.pop();
+      else if (policy === 'reject') throw createCodedError(`Unsafe ${description} (escapes destination): ${target}`, ErrorCode.UNSAFE_PATH);
+      continue;
+    }
+    segments.push(part);
+  }
+  return segments;
+}
+
+/**
+ * Sanitize an entry path - returns it relative to the destination with the platform separator,
+ * or '' when 'strip' leaves nothing (the entry is skipped)
+ */
+export function sanitizeEntryPath(entryPath: string, policy: PathPolicy): string {
+  if (policy === 'allow') return entryPath.split(/[\\/]/).filter(Boolean).join(path.sep);
+  const segments = resolveSegments(entryPath, [], policy, 'entry path');
+  if (!segments.length && policy === 'reject') throw createCodedError(`Unsafe entry path (empty): ${entryPath}`, ErrorCode.UNSAFE_PATH);
+  return segments.join(path.sep);
+}
+
+/**
+ * Sanitize a symlink target against its (sanitized) entry path - the link must resolve inside the destination.
+ * 'strip' rewrites an escaping target to the clamped location, relative to the link.
+ */
+export function sanitizeLinkpath(linkpath: string, entryPath: string, policy: PathPolicy): string {
+  if (policy === 'allow') return linkpath;
+  const dir = entryPath.split(/[\\/]/).filter(Boolean);
+  dir.pop();
+  const segments = resolveSegments(linkpath, dir, policy, 'symlink target');
+
+  // Relative path from the link's directory to the resolved target
+  let common = 0;
+  while (common < dir.length && common < segments.length && dir[common] === segments[common]) common++;
+  const relative: string[] = [];
+  for (let i = common; i < dir.length; i++) relative.push('..');
+  for (let i = common; i < segments.length; i++) relative.push(segments[i]);
+  return relative.length ? relative.join(path.sep) : '.';
+}
@@ -1,7 +1,7 @@
 import once from 'call-once-fn';
 import { type DirectoryAttributes, DirectoryEntry, type FileAttributes, type LinkAttributes, SymbolicLinkEntry } from 'extract-base-iterator';
-import path from 'path';
 import FileEntry from './FileEntry.ts';
+import { sanitizeEntryPath, sanitizeLinkpath } from './lib/sanitizePath.ts';
 import type SevenZipIterator from './SevenZipIterator.ts';
 import type { SevenZipEntry, SevenZipParser } from './sevenz/SevenZipParser.ts';
 import type { Entry, EntryCallback } from './types.ts';
@@ -25,6 +25,15 @@ type EntryAttributesBuilder = {
   size?: number;
 };
 
+/**
+ * Fail the whole iteration for an unsafe path ('reject' policy) - an entry error alone would be
+ * skipped by the iterator's default error option
+ */
+function rejectArchive(iterator: SevenZipIterator, callback: EntryCallback, err: Error): void {
+  callback(err);
+  iterator.end(err);
+}
+
 export default function nextEntry<_T>(iterator: SevenZipIterator, callback: EntryCallback): void {
   const internalIter = iterator._iterator as InternalIterator | null;
   if (!internalIter) {
@@ -60,8 +69,20 @@ export default function nextEntry<_T>(iterator: SevenZipIterator, callback: Entr
   // Build attributes from 7z entry
   // mtime must be timestamp (number) for FileAttributes compatibility
   const mtimeDate = entry.mtime || new Date();
+  let entryPath: string;
+  try {
+    entryPath = sanitizeEntryPath(entry.path, iterator._pathPolicy);
+  } catch (err) {
+    return rejectArchive(iterator, callback, err as Error);
+  }
+  // Skip entries 'strip' reduced to nothing (e.g. '..' or '/')
+  if (!entryPath) {
+    if (iterator._parser) iterator._parser.skipEntry(entry);
+    iterator.push(nextEntry);
+    return callback(null, null);
+  }
   const attributes: EntryAttributesBuilder = {
-    path: entry.path.split(path.sep).filter(Boolean).join(path.sep),
+    path: entryPath,
     basename: entry.name,
     mtime: mtimeDate.getTime(),
     mode: entry.mode !== undefined ? entry.mode : defaultMode,
@@ -84,7 +105,12 @@ export default function nextEntry<_T>(iterator: SevenZipIterator, callback: Entr
         chunks.push(chunk);
       });
       stream.on('end', () => {
-        const linkpath = Buffer.concat(chunks).toString('utf8');
+        let linkpath: string;
+        try {
+          linkpath = sanitizeLinkpath(Buffer.concat(chunks).toString('utf8'), attributes.path, iterator._pathPolicy);
+        } catch (err) {
+          return rejectArchive(iterator, callback, err as Error);
+        }
 
         const linkAttributes: LinkAttributes = {
           path: attributes.path,
@@ -107,7 +133,7 @@ export default function nextEntry<_T>(iterator: SevenZipIterator, callback: Entr
       const parser = internalIter.getParser();
 
       const stream = parser.getEntryStream(entry);
-      return nextCallback(null, new FileEntry(attributes as FileAttributes, stream, iterator.lock, entry._canStream));
+      return nextCallback(null, new FileEntry(attributes as FileAttributes, stream, iterator.lock, entry._canStream, entry, parser.getProgressTracker()));
     }
   }
 
@@ -1,13 +1,23 @@
 /**
  * ArchiveSource - Abstraction for reading 7z archive data
  *
- * Provides a common interface for reading archive data from either
- * a file descriptor or an in-memory buffer.
+ * Provides a common interface for reading archive data from a file
+ * descriptor, an in-memory buffer, or a set of split volume files,
+ * plus an offset view for archives embedded after a stub (SFX).
+ *
+ * The parser reads through AsyncArchiveSource so parsing never blocks the
+ * event loop; the built-in sources implement both interfaces and
+ * toAsyncSource adapts custom synchronous sources.
  */
 
 import { allocBuffer, type BufferLike, BufferList, canAllocateBufferSize, Readable } from 'extract-base-iterator';
 import fs from 'fs';
 import type Stream from 'stream';
+import { defer } from '../lib/defer.ts';
+import { createCodedError, ErrorCode } from './constants.ts';
+
+// Largest single read buffer when a read is too big to allocate at once
+const MAX_READ_CHUNK_SIZE = 256 * 1024 * 1024;
 
 // Helper to create a Readable stream compatible with Node 0.8
 function createReadableStream(readFn: (stream: Stream.Readable) => void): Stream.Readable {
@@ -18,6 +28,11 @@ function createReadableStream(readFn: (stream: Stream.Readable) => void): Stream
   return stream;
 }
 
+/**
+ * Read callback - data is short only at the end of the source
+ */
+export type ReadCallback = (error: Error | null, data?: BufferLike) => void;
+
 /**
  * Archive source abstraction - allows reading from file descriptor or buffer
  */
@@ -32,12 +47,87 @@ export interface ArchiveSource {
   createReadStream(offset: number, length: number): Stream.Readable;
 }
 
+/**
+ * Archive source with non-blocking reads - used by the parser for headers and packed data
+ */
+export interface AsyncArchiveSource {
+  readAsync(position: number, length: number, callback: ReadCallback): void;
+  getSize(): number;
+  close(): void;
+  /**
+   * Create a readable stream for a portion of the archive.
+   * Used for streaming decompression.
+   */
+  createReadStream(offset: number, length: number): Stream.Readable;
+}
+
+/**
+ * Use a source for non-blocking reads. Sources without readAsync are wrapped:
+ * each read still runs synchronously, but after yielding to pending I/O.
+ */
+export function toAsyncSource(source: ArchiveSource | AsyncArchiveSource): AsyncArchiveSource {
+  if (typeof (source as AsyncArchiveSource).readAsync === 'function') return source as AsyncArchiveSource;
+  const syncSource = source as ArchiveSource;
+  return {
+    readAsync: (position: number, length: number, callback: ReadCallback): void => {
+      defer(() => {
+        let data: BufferLike;
+        try {
+          data = syncSource.read(position, length);
+        } catch (err) {
+          callback(err as Error);
+          return;
+        }
+        callback(null, data);
+      });
+    },
+    getSize: () => syncSource.getSize(),
+    close: () => syncSource.close(),
+    createReadStream: (offset: number, length: number) => syncSource.createReadStream(offset, length),
+  };
+}
+
+/**
+ * Join read chunks - large reads stay as a BufferList to avoid large contiguous allocation
+ */
+function joinChunks(chunks: Buffer[], total: number): BufferLike {
+  if (chunks.length === 0) return allocBuffer(0);
+  if (chunks.length === 1) return chunks[0];
+  if (canAllocateBufferSize(total)) return Buffer.concat(chunks, total);
+
+  const result = new BufferList();
+  for (let i = 0; i < chunks.length; i++) result.append(chunks[i]);
+  return result;
+}
+
+/**
+ * Read a file range with async fs.read(), appending to chunks until length bytes or end of file
+ */
+function readFileChunks(fd: number, position: number, length: number, chunks: Buffer[], callback: (error: Error | null, bytesRead?: number) => void): void {
+  const chunkSize = canAllocateBufferSize(length) ? length : MAX_READ_CHUNK_SIZE;
+  let total = 0;
+
+  const next = (): void => {
+    if (total >= length) return callback(null, total);
+    const buffer = allocBuffer(Math.min(chunkSize, length - total));
+    fs.read(fd, buffer, 0, buffer.length, position + total, (err, n) => {
+      if (err) return callback(err);
+      if (n === 0) return callback(null, total);
+      chunks.push(n < buffer.length ? buffer.slice(0, n) : buffer);
+      total += n;
+      next();
+    });
+  };
+
+  next();
+}
+
 /**
  * Buffer-based archive source
  *
  * Used when the entire archive is already in memory.
  */
-export class BufferSource implements ArchiveSource {
+export class BufferSource implements ArchiveSource, AsyncArchiveSource {
   private buffer: Buffer;
 
   constructor(buffer: Buffer) {
@@ -48,6 +138,10 @@ export class BufferSource implements ArchiveSource {
     return this.buffer.slice(position, position + length);
   }
 
+  readAsync(position: number, length: number, callback: ReadCallback): void {
+    defer(() => callback(null, this.read(position, length)));
+  }
+
   getSize(): number {
     return this.buffer.length;
   }
@@ -86,7 +180,7 @@ export class BufferSource implements ArchiveSource {
  * Used for reading directly from a file on disk.
  * More memory efficient for large archives.
  */
-export class FileSource implements ArchiveSource {
+export class FileSource implements ArchiveSource, AsyncArchiveSource {
   private fd: number;
   private size: number;
 
@@ -111,7 +205,7 @@ export class FileSource implements ArchiveSource {
     while (totalBytesRead < length) {
       const remaining = length - totalBytesRead;
       // Use safe chunk size that works on all Node versions
-      const chunkSize = Math.min(remaining, canAllocateBufferSize(remaining) ? remaining : 256 * 1024 * 1024);
+      const chunkSize = Math.min(remaining, canAllocateBufferSize(remaining) ? remaining : MAX_READ_CHUNK_SIZE);
       const chunk = this.readChunk(currentPos, chunkSize);
 
       result.append(chunk);
@@ -127,6 +221,17 @@ export class FileSource implements ArchiveSource {
     return result;
   }
 
+  /**
+   * Read with async fs.read() so the event loop is not blocked
+   */
+  readAsync(position: number, length: number, callback: ReadCallback): void {
+    const chunks: Buffer[] = [];
+    readFileChunks(this.fd, position, length, chunks, (err, bytesRead) => {
+      if (err) return callback(err);
+      callback(null, joinChunks(chunks, bytesRead as number));
+    });
+  }
+
   private readChunk(position: number, length: number): Buffer {
     const buf = allocBuffer(length);
     const bytesRead = fs.readSync(this.fd, buf, 0, length, position);
@@ -199,3 +304,274 @@ export class FileSource implements ArchiveSource {
     return stream;
   }
 }
+
+/**
+ * One volume of a split archive
+ */
+export interface Volume {
+  path: string;
+  fd: number;
+  size: number;
+}
+
+type VolumesCallback = (error: Error | null, volumes?: Volume[]) => void;
+
+/**
+ * Name of the volume after this one (archive.7z.002 -> archive.7z.003), keeping the digit width
+ */
+export function nextVolumePath(volumePath: string): string {
+  const match = /^(.*\.)(\d+)$/.exec(volumePath);
+  if (!match) return `${volumePath}.001`;
+  let next = String(parseInt(match[2], 10) + 1);
+  while (next.length < match[2].length) next = `0${next}`;
+  return match[1] + next;
+}
+
+/**
+ * Open every volume of a split archive starting from its first volume (archive.7z.001).
+ * Volumes are discovered by number until the next one does not exist.
+ */
+export function openVolumes(firstVolumePath: string, callback: VolumesCallback): void {
+  const volumes: Volume[] = [];
+
+  const fail = (err: Error): void => {
+    for (let i = 0; i < volumes.length; i++) {
+      try {
+        fs.closeSync(volumes[i].fd);
+      } catch (_e) {
+        // Ignore close errors
+      }
+    }
+    callback(err);
+  };
+
+  const openNext = (volumePath: string): void => {
+    fs.stat(volumePath, (statErr, stats) => {
+      if (statErr) {
+        if (volumes.length && (statErr as NodeJS.ErrnoException).code === 'ENOENT') return callback(null, volumes);
+        return fail(statErr);
+      }
+      fs.open(volumePath, 'r', (openErr, fd) => {
+        if (openErr) return fail(openErr);
+        volumes.push({ path: volumePath, fd: fd, size: stats.size });
+        openNext(nextVolumePath(volumePath));
+      });
+    });
+  };
+
+  openNext(firstVolumePath);
+}
+
+/**
+ * Multi-volume archive source
+ *
+ * Maps logical archive offsets across an ordered list of volume files
+ * (archive.7z.001, archive.7z.002, ...). Reads starting past the last volume
+ * fail with TRUNCATED_ARCHIVE naming the volume that is missing.
+ */
+export class MultiVolumeSource implements ArchiveSource, AsyncArchiveSource {
+  private volumes: Volume[];
+  private starts: number[] = [];
+  private size = 0;
+
+  constructor(volumes: Volume[]) {
+    this.volumes = volumes;
+    for (let i = 0; i < volumes.length; i++) {
+      this.starts.push(this.size);
+      this.size += volumes[i].size;
+    }
+  }
+
+  read(position: number, length: number): BufferLike {
+    // Short reads at the end match the other sources; reads that start past it need a missing volume
+    if (length > 0 && position >= this.size) throw this.missingVolumeError();
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    let index = this.volumeIndex(position);
+    let volumeOffset = position - this.starts[index];
+    while (total < length && index < this.volumes.length) {
+      const volume = this.volumes[index];
+      const toRead = Math.min(length - total, volume.size - volumeOffset);
+      if (toRead > 0) {
+        const chunk = this.readChunk(volume, volumeOffset, toRead);
+        chunks.push(chunk);
+        total += chunk.length;
+        if (chunk.length < toRead) break;
+      }
+      index++;
+      volumeOffset = 0;
+    }
+
+    return joinChunks(chunks, total);
+  }
+
+  /**
+   * Read with async fs.read(), crossing volume boundaries
+   */
+  readAsync(position: number, length: number, callback: ReadCallback): void {
+    if (length > 0 && position >= this.size) {
+      const err = this.missingVolumeError();
+      defer(() => callback(err));
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let total = 0;
+    let index = this.volumeIndex(position);
+    let volumeOffset = position - this.starts[index];
+
+    const next = (): void => {
+      if (total >= length || index >= this.volumes.length) return callback(null, joinChunks(chunks, total));
+      const volume = this.volumes[index];
+      const toRead = Math.min(length - total, volume.size - volumeOffset);
+      index++;
+      const offset = volumeOffset;
+      volumeOffset = 0;
+      if (toRead <= 0) return next();
+
+      readFileChunks(volume.fd, offset, toRead, chunks, (err, bytesRead) => {
+        if (err) return callback(err);
+        total += bytesRead as number;
+        if ((bytesRead as number) < toRead) return callback(null, joinChunks(chunks, total));
+        next();
+      });
+    };
+
+    next();
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  close(): void {
+    for (let i = 0; i < this.volumes.length; i++) {
+      try {
+        fs.closeSync(this.volumes[i].fd);
+      } catch (_e) {
+        // Ignore close errors
+      }
+    }
+  }
+
+  /**
+   * Create a readable stream for a portion of the archive, crossing volume boundaries.
+   * Uses async fs.read() to avoid blocking the event loop.
+   */
+  createReadStream(offset: number, length: number): Stream.Readable {
+    let bytesRead = 0;
+    let reading = false;
+    let finished = false;
+    const chunkSize = 65536; // 64KB chunks
+
+    return createReadableStream((s) => {
+      if (reading || finished) return; // Prevent re-entrant reads
+
+      if (bytesRead >= length) {
+        finished = true;
+        s.push(null);
+        return;
+      }
+
+      const position = offset + bytesRead;
+      if (position >= this.size) {
+        // Emit error for Node 0.8 compatibility (no destroy method)
+        s.emit('error', this.missingVolumeError());
+        finished = true;
+        s.push(null);
+        return;
+      }
+
+      const index = this.volumeIndex(position);
+      const volume = this.volumes[index];
+      const volumeOffset = position - this.starts[index];
+      const toRead = Math.min(chunkSize, length - bytesRead, volume.size - volumeOffset);
+
+      reading = true;
+      const buffer = allocBuffer(toRead);
+      fs.read(volume.fd, buffer, 0, toRead, volumeOffset, (err, n) => {
+        reading = false;
+
+        if (err || n === 0) {
+          s.emit('error', err || createCodedError(`Unexpected end of volume ${volume.path}`, ErrorCode.TRUNCATED_ARCHIVE));
+          finished = true;
+          s.push(null);
+          return;
+        }
+
+        bytesRead += n;
+        s.push(buffer.slice(0, n));
+      });
+    });
+  }
+
+  private readChunk(volume: Volume, position: number, length: number): Buffer {
+    const buf = allocBuffer(length);
+    const bytesRead = fs.readSync(volume.fd, buf, 0, length, position);
+    return bytesRead < length ? buf.slice(0, bytesRead) : buf;
+  }
+
+  /**
+   * Index of the volume containing a logical position (binary search over volume starts)
+   */
+  private volumeIndex(position: number): number {
+    let low = 0;
+    let high = this.volumes.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >>> 1;
+      if (this.starts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low;
+  }
+
+  private missingVolumeError(): Error {
+    const last = this.volumes[this.volumes.length - 1];
+    const missing = last ? nextVolumePath(last.path) : 'first volume';
+    return createCodedError(`Archive is truncated - missing volume ${missing}`, ErrorCode.TRUNCATED_ARCHIVE);
+  }
+}
+
+/**
+ * Offset view of another source
+ *
+ * Used for self-extracting archives, where the 7z data starts after an
+ * executable stub. Position 0 maps to `offset` in the wrapped source.
+ * read() throws UNSUPPORTED_FEATURE when the wrapped source only reads asynchronously.
+ */
+export class OffsetSource implements ArchiveSource, AsyncArchiveSource {
+  private source: ArchiveSource | AsyncArchiveSource;
+  private asyncSource: AsyncArchiveSource;
+  private offset: number;
+
+  constructor(source: ArchiveSource | AsyncArchiveSource, offset: number) {
+    this.source = source;
+    this.asyncSource = toAsyncSource(source);
+    this.offset = offset;
+  }
+
+  read(position: number, length: number): BufferLike {
+    const source = this.source as ArchiveSource;
+    if (typeof source.read !== 'function') {
+      throw createCodedError('OffsetSource.read() needs a source with synchronous reads - use readAsync()', ErrorCode.UNSUPPORTED_FEATURE);
+    }
+    return source.read(this.offset + position, length);
+  }
+
+  readAsync(position: number, length: number, callback: ReadCallback): void {
+    this.asyncSource.readAsync(this.offset + position, length, callback);
+  }
+
+  getSize(): number {
+    return Math.max(this.source.getSize() - this.offset, 0);
+  }
+
+  close(): void {
+    this.source.close();
+  }
+
+  createReadStream(offset: number, length: number): Stream.Readable {
+    return this.source.createReadStream(this.offset + offset, length);
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * FolderCache - decompressed solid folders kept for their remaining entries
+ *
+ * Least recently used folders are evicted once the cached bytes would pass
+ * maxBytes; an evicted folder is decoded again when another of its entries is
+ * read. Folders larger than maxBytes are never cached.
+ */
+
+export interface CacheStats {
+  /** Reads served from the cache */
+  hits: number;
+  /** Reads that started a new decode of the folder (reads joining a pending decode are not counted) */
+  misses: number;
+  /** Folders dropped to stay within cacheMaxBytes */
+  evictions: number;
+  /** Bytes currently cached */
+  bytes: number;
+  /** Folders currently cached */
+  folders: number;
+  /** The cacheMaxBytes option (Infinity when unlimited) */
+  maxBytes: number;
+}
+
+export class FolderCache {
+  private maxBytes: number;
+  private buffers: { [key: number]: Buffer } = {};
+  // Folder indexes from least to most recently used
+  private order: number[] = [];
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(maxBytes: number) {
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Get a cached folder, counting a hit - misses are counted by the caller with miss()
+   */
+  get(folderIndex: number): Buffer | undefined {
+    const data = this.buffers[folderIndex];
+    if (!data) return undefined;
+    this.hits++;
+    this.touch(folderIndex);
+    return data;
+  }
+
+  /**
+   * Count a read that starts decoding a folder
+   */
+  miss(): void {
+    this.misses++;
+  }
+
+  set(folderIndex: number, data: Buffer): void {
+    this.delete(folderIndex);
+    if (data.length > this.maxBytes) return;
+    while (this.order.length && this.bytes + data.length > this.maxBytes) {
+      this.delete(this.order[0]);
+      this.evictions++;
+    }
+    this.buffers[folderIndex] = data;
+    this.order.push(folderIndex);
+    this.bytes += data.length;
+  }
+
+  /**
+   * Release a folder (its entries have all been read)
+   */
+  delete(folderIndex: number): void {
+    const data = this.buffers[folderIndex];
+    if (!data) return;
+    delete this.buffers[folderIndex];
+    this.order.splice(this.order.indexOf(folderIndex), 1);
+    this.bytes -= data.length;
+  }
+
+  getStats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, evictions: this.evictions, bytes: this.bytes, folders: this.order.length, maxBytes: this.maxBytes };
+  }
+
+  private touch(folderIndex: number): void {
+    this.order.splice(this.order.indexOf(folderIndex), 1);
+    this.order.push(folderIndex);
+  }
+}
@@ -197,6 +197,14 @@ export class FolderStreamSplitter {
     }
   }
 
+  /**
+   * Fail the folder - pending and later-requested file streams get the error
+   */
+  destroy(err: Error): void {
+    if (this.finished || this.error) return;
+    this.emitError(err);
+  }
+
   /**
    * Emit error to all pending file streams
    */
@@ -221,6 +229,8 @@ export class FolderStreamSplitter {
       throw new Error(`Invalid file index: ${fileIndex}`);
     }
 
+    if (this.error) throw this.error;
+
     // Check if file already completed
     if (fileIndex < this.currentFileIndex) {
       throw new Error(`File ${fileIndex} already completed - streams must be accessed in order`);
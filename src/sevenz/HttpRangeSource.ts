@@ -0,0 +1,367 @@
+/**
+ * HttpRangeSource - read a remote archive with HTTP Range requests
+ *
+ * Reads are served from a cache of fixed-size blocks. Missing blocks are
+ * fetched with one request per contiguous run, extended by a few readahead
+ * blocks, so parsing only downloads the signature header, the end header and
+ * the pack streams of the folders that are decoded. Streams over uncached
+ * ranges are piped straight from a ranged response without caching.
+ */
+
+import once from 'call-once-fn';
+import { allocBuffer, type BufferLike, PassThrough } from 'extract-base-iterator';
+import http from 'http';
+import https from 'https';
+import type Stream from 'stream';
+import url from 'url';
+import { defer } from '../lib/defer.ts';
+import type { AsyncArchiveSource, ReadCallback } from './ArchiveSource.ts';
+import { createCodedError, ErrorCode } from './constants.ts';
+
+const DEFAULT_BLOCK_SIZE = 65536;
+const DEFAULT_READAHEAD_BLOCKS = 4;
+const DEFAULT_MAX_CACHED_BLOCKS = 64;
+
+export interface HttpRangeSourceOptions {
+  /** Bytes per cached block (default 64KB) */
+  blockSize?: number;
+  /** Blocks fetched past the end of each read that misses the cache (default 4) */
+  readaheadBlocks?: number;
+  /** Blocks kept in the cache, least recently used evicted first (default 64) */
+  maxCachedBlocks?: number;
+  /** Extra request headers, e.g. Authorization */
+  headers?: { [name: string]: string };
+  /** Agent for the requests, e.g. one with keepAlive */
+  agent?: http.Agent;
+}
+
+type HttpRangeSourceCallback = (error: Error | null, source?: HttpRangeSource) => void;
+type ResponseCallback = (error: Error | null, response?: http.IncomingMessage) => void;
+type BodyCallback = (error: Error | null, body?: Buffer) => void;
+type BlockCallback = (error: Error | null, block?: Buffer) => void;
+
+function closedError(): Error {
+  return createCodedError('HttpRangeSource is closed', ErrorCode.HTTP_ERROR);
+}
+
+/**
+ * Request bytes start..end (inclusive); anything but 206 Partial Content is an error
+ */
+function sendRangeRequest(target: string, options: HttpRangeSourceOptions, start: number, end: number, callback: ResponseCallback): http.ClientRequest {
+  const cb = once(callback);
+  const parsed = url.parse(target);
+  const headers: { [name: string]: string } = {};
+  const extra = options.headers || {};
+  for (const name in extra) headers[name] = extra[name];
+  headers.Range = `bytes=${start}-${end}`;
+
+  const request = (parsed.protocol === 'https:' ? https : http).request({
+    protocol: parsed.protocol,
+    hostname: parsed.hostname,
+    port: parsed.port,
+    path: parsed.path,
+    auth: parsed.auth,
+    method: 'GET',
+    headers: headers,
+    agent: options.agent,
+  } as http.RequestOptions);
+  request.on('response', (response: http.IncomingMessage) => {
+    if (response.statusCode === 206) return cb(null, response);
+    response.resume();
+    const message = response.statusCode === 200 ? `Server does not support range requests: ${target}` : `HTTP ${response.statusCode} reading ${target}`;
+    cb(createCodedError(message, ErrorCode.HTTP_ERROR));
+  });
+  request.on('error', cb);
+  // An aborted request closes without an error
+  request.on('close', () => cb(createCodedError(`HTTP request closed before a response: ${target}`, ErrorCode.HTTP_ERROR)));
+  request.end();
+  return request;
+}
+
+/**
+ * Collect a ranged response, failing if it ends before `length` bytes
+ */
+function readBody(response: http.IncomingMessage, length: number, callback: BodyCallback): void {
+  const cb = once(callback);
+  const chunks: Buffer[] = [];
+  let received = 0;
+  response.on('data', (chunk: Buffer) => {
+    chunks.push(chunk);
+    received += chunk.length;
+  });
+  response.on('error', cb);
+  response.on('end', () => {
+    if (received < length) return cb(createCodedError('HTTP response ended early', ErrorCode.TRUNCATED_ARCHIVE));
+    const body = Buffer.concat(chunks, received);
+    cb(null, received > length ? body.slice(0, length) : body);
+  });
+  response.on('close', () => cb(createCodedError('HTTP response ended early', ErrorCode.TRUNCATED_ARCHIVE)));
+}
+
+/**
+ * Open a remote archive - the first request reads the archive size from
+ * Content-Range and fills the cache with the start of the archive
+ */
+export function openHttpRangeSource(target: string, options: HttpRangeSourceOptions, callback: HttpRangeSourceCallback): void {
+  const blockSize = options.blockSize || DEFAULT_BLOCK_SIZE;
+  const readahead = typeof options.readaheadBlocks === 'number' ? options.readaheadBlocks : DEFAULT_READAHEAD_BLOCKS;
+
+  sendRangeRequest(target, options, 0, blockSize * (1 + readahead) - 1, (err, response) => {
+    if (err) return callback(err);
+    const res = response as http.IncomingMessage;
+    const match = /\/(\d+)\s*$/.exec(String(res.headers['content-range'] || ''));
+    if (!match) {
+      res.resume();
+      return callback(createCodedError(`Missing archive size in Content-Range: ${target}`, ErrorCode.HTTP_ERROR));
+    }
+    const size = parseInt(match[1], 10);
+    readBody(res, Math.min(size, blockSize * (1 + readahead)), (bodyErr, body) => {
+      if (bodyErr) return callback(bodyErr);
+      callback(null, new HttpRangeSource(target, size, options, body));
+    });
+  });
+}
+
+/**
+ * Remote archive source using HTTP Range requests
+ */
+export class HttpRangeSource implements AsyncArchiveSource {
+  private target: string;
+  private size: number;
+  private options: HttpRangeSourceOptions;
+  private blockSize: number;
+  private readahead: number;
+  private maxCachedBlocks: number;
+  private blocks: { [index: number]: Buffer } = {};
+  // Cached block indexes from least to most recently used
+  private order: number[] = [];
+  // Callbacks waiting on blocks being fetched
+  private inflight: { [index: number]: BlockCallback[] } = {};
+  private requests: http.ClientRequest[] = [];
+  private closed = false;
+
+  /**
+   * @param initialData - bytes already fetched from the start of the archive
+   */
+  constructor(target: string, size: number, options: HttpRangeSourceOptions = {}, initialData?: Buffer) {
+    this.target = target;
+    this.size = size;
+    this.options = options;
+    this.blockSize = options.blockSize || DEFAULT_BLOCK_SIZE;
+    this.readahead = typeof options.readaheadBlocks === 'number' ? options.readaheadBlocks : DEFAULT_READAHEAD_BLOCKS;
+    this.maxCachedBlocks = typeof options.maxCachedBlocks === 'number' ? options.maxCachedBlocks : DEFAULT_MAX_CACHED_BLOCKS;
+
+    if (initialData) {
+      // Only whole blocks (or the archive's last block) are cached
+      for (let offset = 0; offset < initialData.length; offset += this.blockSize) {
+        const block = initialData.slice(offset, offset + this.blockSize);
+        if (block.length === this.blockSize || offset + block.length === size) this.setBlock(offset / this.blockSize, block);
+      }
+    }
+  }
+
+  readAsync(position: number, length: number, callback: ReadCallback): void {
+    if (this.closed) {
+      defer(() => callback(closedError()));
+      return;
+    }
+    const end = Math.min(position + length, this.size);
+    if (end <= position) {
+      defer(() => callback(null, allocBuffer(0)));
+      return;
+    }
+
+    const first = Math.floor(position / this.blockSize);
+    const last = Math.floor((end - 1) / this.blockSize);
+    const blocks: Buffer[] = [];
+    const missing: number[] = [];
+    for (let i = first; i <= last; i++) {
+      const block = this.getBlock(i);
+      if (block) blocks[i - first] = block;
+      else missing.push(i);
+    }
+
+    const assemble = (): BufferLike => {
+      const data = blocks.length === 1 ? blocks[0] : Buffer.concat(blocks);
+      const offset = position - first * this.blockSize;
+      return data.slice(offset, offset + end - position);
+    };
+    if (!missing.length) {
+      defer(() => callback(null, assemble()));
+      return;
+    }
+
+    // Fetch each run of blocks that is neither cached nor already requested
+    for (let m = 0; m < missing.length; ) {
+      if (this.inflight[missing[m]]) {
+        m++;
+        continue;
+      }
+      let runEnd = m;
+      while (runEnd + 1 < missing.length && missing[runEnd + 1] === missing[runEnd] + 1 && !this.inflight[missing[runEnd + 1]]) runEnd++;
+      this.fetchBlocks(missing[m], missing[runEnd], missing[runEnd] === last);
+      m = runEnd + 1;
+    }
+
+    const cb = once(callback);
+    let pending = missing.length;
+    for (let m = 0; m < missing.length; m++) {
+      const index = missing[m];
+      this.inflight[index].push((err, block) => {
+        if (err) return cb(err);
+        blocks[index - first] = block as Buffer;
+        if (--pending === 0) cb(null, assemble());
+      });
+    }
+  }
+
+  getSize(): number {
+    return this.size;
+  }
+
+  /**
+   * Abort requests in progress, fail the reads waiting on them and drop the cache
+   */
+  close(): void {
+    this.closed = true;
+    const requests = this.requests;
+    const inflight = this.inflight;
+    this.requests = [];
+    this.inflight = {};
+    this.blocks = {};
+    this.order = [];
+    for (let i = 0; i < requests.length; i++) requests[i].abort();
+    for (const index in inflight) {
+      const waiters = inflight[index];
+      for (let w = 0; w < waiters.length; w++) waiters[w](closedError());
+    }
+  }
+
+  /**
+   * Create a readable stream for a portion of the archive - served from the
+   * cache when every block is cached, otherwise streamed from one ranged request
+   */
+  createReadStream(offset: number, length: number): Stream.Readable {
+    const output = new PassThrough();
+    const end = Math.min(offset + length, this.size);
+    if (end <= offset) {
+      output.end();
+      return output as Stream.Readable;
+    }
+
+    let cached = true;
+    for (let i = Math.floor(offset / this.blockSize); i <= Math.floor((end - 1) / this.blockSize); i++) {
+      if (!this.blocks[i]) cached = false;
+    }
+    if (cached) {
+      this.readAsync(offset, end - offset, (err, data) => {
+        if (err) return output.emit('error', err);
+        output.end(data as Buffer);
+      });
+      return output as Stream.Readable;
+    }
+
+    let finished = false;
+    const request = this.send(offset, end - 1, (err, response) => {
+      if (finished) return;
+      if (err) {
+        finished = true;
+        return output.emit('error', this.closed ? closedError() : err);
+      }
+      const res = response as http.IncomingMessage;
+      let received = 0;
+      res.on('data', (chunk: Buffer) => {
+        received += chunk.length;
+        if (!output.write(chunk)) {
+          res.pause();
+          output.once('drain', () => res.resume());
+        }
+      });
+      res.on('error', (resErr: Error) => output.emit('error', resErr));
+      res.on('end', () => {
+        if (finished) return;
+        finished = true;
+        if (received < end - offset) return output.emit('error', createCodedError('HTTP response ended early', ErrorCode.TRUNCATED_ARCHIVE));
+        output.end();
+      });
+      res.on('close', () => {
+        if (finished) return;
+        finished = true;
+        output.emit('error', this.closed ? closedError() : createCodedError('HTTP response ended early', ErrorCode.TRUNCATED_ARCHIVE));
+      });
+    });
+    output.on('close', () => {
+      if (finished) return;
+      finished = true;
+      request.abort();
+    });
+    return output as Stream.Readable;
+  }
+
+  private send(start: number, end: number, callback: ResponseCallback): http.ClientRequest {
+    const request = sendRangeRequest(this.target, this.options, start, end, (err, response) => {
+      if (err) {
+        this.untrack(request);
+        return callback(err);
+      }
+      (response as http.IncomingMessage).on('end', () => this.untrack(request));
+      callback(null, response);
+    });
+    this.requests.push(request);
+    return request;
+  }
+
+  private untrack(request: http.ClientRequest): void {
+    const index = this.requests.indexOf(request);
+    if (index >= 0) this.requests.splice(index, 1);
+  }
+
+  /**
+   * Fetch blocks first..last with one request. A run that ends the read is
+   * extended by the readahead blocks; runs larger than the cache bypass it.
+   */
+  private fetchBlocks(first: number, last: number, extend: boolean): void {
+    const cache = last - first + 1 <= this.maxCachedBlocks;
+    const numBlocks = Math.ceil(this.size / this.blockSize);
+    if (cache && extend) {
+      const limit = Math.min(last + this.readahead, numBlocks - 1, first + this.maxCachedBlocks - 1);
+      while (last < limit && !this.blocks[last + 1] && !this.inflight[last + 1]) last++;
+    }
+
+    for (let i = first; i <= last; i++) this.inflight[i] = [];
+    const start = first * this.blockSize;
+    const end = Math.min((last + 1) * this.blockSize, this.size);
+    const settle = (err: Error | null, body?: Buffer): void => {
+      // close() has already failed the waiters
+      if (this.closed) return;
+      for (let i = first; i <= last; i++) {
+        const waiters = this.inflight[i];
+        delete this.inflight[i];
+        const block = body ? body.slice((i - first) * this.blockSize, (i - first + 1) * this.blockSize) : undefined;
+        if (block && cache && !this.closed) this.setBlock(i, block);
+        for (let w = 0; w < waiters.length; w++) waiters[w](err, block);
+      }
+    };
+
+    this.send(start, end - 1, (err, response) => {
+      if (err) return settle(err);
+      readBody(response as http.IncomingMessage, end - start, (bodyErr, body) => settle(bodyErr, body));
+    });
+  }
+
+  private getBlock(index: number): Buffer | undefined {
+    const block = this.blocks[index];
+    if (block) {
+      this.order.splice(this.order.indexOf(index), 1);
+      this.order.push(index);
+    }
+    return block;
+  }
+
+  private setBlock(index: number, block: Buffer): void {
+    if (this.blocks[index] || this.maxCachedBlocks <= 0) return;
+    while (this.order.length >= this.maxCachedBlocks) delete this.blocks[this.order.shift() as number];
+    this.blocks[index] = block;
+    this.order.push(index);
+  }
+}
@@ -15,7 +15,7 @@
 // NOTE: Returns JavaScript number which is accurate up to 2^53 - 1 (~9 PB).
 // This covers all practical file sizes.
 
-import { readUInt64LE } from 'extract-base-iterator';
+import { allocBuffer, readUInt64LE, writeUInt64LE } from 'extract-base-iterator';
 
 export interface NumberReadResult {
   value: number;
@@ -126,6 +126,33 @@ export function encodedSize(value: number): number {
   return 9; // 64 bits
 }
 
+/**
+ * Write a number using 7z's variable-length uint64 encoding (inverse of readNumber)
+ * The first byte carries one leading 1 bit per extra byte, followed by the
+ * high bits of the value; extra bytes hold the low part in little-endian order.
+ * @param value - The number to encode
+ * @returns Buffer containing the encoded number
+ */
+export function writeNumber(value: number): Buffer {
+  const size = encodedSize(value);
+  const buf = allocBuffer(size);
+
+  if (size === 9) {
+    buf[0] = 0xff;
+    writeUInt64LE(buf, value, 1);
+    return buf;
+  }
+
+  const extraBytes = size - 1;
+  let high = value;
+  for (let i = 0; i < extraBytes; i++) {
+    buf[1 + i] = high % 256;
+    high = Math.floor(high / 256);
+  }
+  buf[0] = ((0xff00 >>> extraBytes) & 0xff) | high;
+  return buf;
+}
+
 /**
  * Read a boolean encoded as a single byte
  * @param buf - Buffer to read from
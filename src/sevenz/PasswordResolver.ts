@@ -0,0 +1,217 @@
+/**
+ * PasswordResolver - password state for one archive
+ *
+ * Holds the static password and/or a password provider, and remembers which
+ * password opened each folder. Provider calls are serialized so concurrent
+ * folder decodes never prompt at the same time, and passwords that opened one
+ * folder are tried on the next before asking again.
+ */
+
+import once from 'call-once-fn';
+import type { CodecOptions } from './codecs/index.ts';
+import { type CodedError, createCodedError, ErrorCode } from './constants.ts';
+
+/** Folder index used when the archive header itself is encrypted */
+export const HEADER_FOLDER_INDEX = -1;
+
+const DEFAULT_PASSWORD_RETRIES = 3;
+
+/**
+ * Context passed to a password provider
+ */
+export interface PasswordContext {
+  /** Archive path, when the archive was opened from a file path */
+  archivePath?: string;
+  /** Folder being decrypted, or -1 for an encrypted archive header */
+  folderIndex: number;
+  /** Attempt number for this folder, starting at 1 */
+  attempt: number;
+}
+
+export type PasswordCallback = (error?: Error | null, password?: string | null) => void;
+
+/**
+ * Supplies a password on demand. Return a Promise, a string or null - or declare the
+ * callback parameter and call it. No password (null, undefined or '') stops with ENCRYPTED_ARCHIVE.
+ */
+export type PasswordProvider = (context: PasswordContext, callback: PasswordCallback) => Promise<string | null | undefined> | string | null | undefined | void;
+
+export interface PasswordOptions {
+  /** Password for encrypted archives */
+  password?: string;
+  /** Called when an encrypted folder (or header) needs a password */
+  passwordProvider?: PasswordProvider;
+  /** Provider attempts per folder before failing with WRONG_PASSWORD (default: 3) */
+  passwordRetries?: number;
+  /** Archive path reported to the password provider */
+  archivePath?: string;
+}
+
+/**
+ * Checks a candidate password - reject it with a WRONG_PASSWORD error
+ */
+export type PasswordCheck = (options: CodecOptions, callback: (error: Error | null) => void) => void;
+type ResolveCallback = (error: Error | null, options?: CodecOptions) => void;
+
+export class PasswordResolver {
+  private provider: PasswordProvider | null;
+  private retries: number;
+  private archivePath: string | undefined;
+  private defaultOptions: CodecOptions;
+  // One CodecOptions per password - derived keys are only valid for their password
+  private codecOptions: CodecOptions[] = [];
+  // Passwords that opened a folder, static password first
+  private known: string[] = [];
+  private folderOptions: { [key: number]: CodecOptions } = {};
+  private attempts: { [key: number]: number } = {};
+  private rejected: { [key: number]: string[] } = {};
+  private waiters: (() => void)[] | null = null;
+
+  constructor(options: PasswordOptions = {}) {
+    this.provider = options.passwordProvider || null;
+    this.retries = options.passwordRetries !== undefined ? options.passwordRetries : DEFAULT_PASSWORD_RETRIES;
+    this.archivePath = options.archivePath;
+    this.defaultOptions = this.optionsFor(options.password || null);
+    if (options.password) this.known.push(options.password);
+  }
+
+  /**
+   * True when encrypted data can be attempted (static password or provider)
+   */
+  canDecrypt(): boolean {
+    return !!this.defaultOptions.password || !!this.provider;
+  }
+
+  hasProvider(): boolean {
+    return !!this.provider;
+  }
+
+  /**
+   * Codec options for a folder: the password that opened it, else the static password
+   */
+  getOptions(folderIndex: number): CodecOptions {
+    return this.folderOptions[folderIndex] || this.defaultOptions;
+  }
+
+  /**
+   * Forget a folder's password after a full decode proved it wrong
+   */
+  reject(folderIndex: number): void {
+    const options = this.folderOptions[folderIndex];
+    if (options && options.password) {
+      if (!this.rejected[folderIndex]) this.rejected[folderIndex] = [];
+      this.rejected[folderIndex].push(options.password);
+    }
+    delete this.folderOptions[folderIndex];
+  }
+
+  /**
+   * Find a password for a folder: known passwords first, then the provider
+   * (up to the retry limit). The check decides whether a password is right.
+   */
+  resolve(folderIndex: number, check: PasswordCheck, callback: ResolveCallback): void {
+    if (this.folderOptions[folderIndex]) {
+      callback(null, this.folderOptions[folderIndex]);
+      return;
+    }
+    if (!this.canDecrypt()) {
+      callback(createCodedError('Encrypted data requires a password', ErrorCode.ENCRYPTED_ARCHIVE));
+      return;
+    }
+
+    this.lock((release) => {
+      const done = (err: Error | null, options?: CodecOptions): void => {
+        if (options) this.folderOptions[folderIndex] = options;
+        release();
+        callback(err, options);
+      };
+
+      // Another caller may have resolved this folder while we waited
+      if (this.folderOptions[folderIndex]) return done(null, this.folderOptions[folderIndex]);
+
+      const rejected = this.rejected[folderIndex] || [];
+      const candidates: string[] = [];
+      for (let i = 0; i < this.known.length; i++) {
+        if (rejected.indexOf(this.known[i]) < 0) candidates.push(this.known[i]);
+      }
+
+      const tryPassword = (password: string, next: () => void): void => {
+        const options = this.optionsFor(password);
+        check(options, (err) => {
+          if (!err) {
+            if (this.known.indexOf(password) < 0) this.known.push(password);
+            return done(null, options);
+          }
+          if ((err as CodedError).code !== ErrorCode.WRONG_PASSWORD) return done(err);
+          next();
+        });
+      };
+
+      const ask = (): void => {
+        const attempt = (this.attempts[folderIndex] || 0) + 1;
+        if (!this.provider || attempt > this.retries) {
+          done(createCodedError(folderIndex === HEADER_FOLDER_INDEX ? 'Wrong password for archive header' : `Wrong password for folder ${folderIndex}`, ErrorCode.WRONG_PASSWORD));
+          return;
+        }
+        this.attempts[folderIndex] = attempt;
+        this.askProvider({ archivePath: this.archivePath, folderIndex: folderIndex, attempt: attempt }, (err, password) => {
+          if (err) return done(err);
+          if (!password) return done(createCodedError('Encrypted data requires a password', ErrorCode.ENCRYPTED_ARCHIVE));
+          tryPassword(password, ask);
+        });
+      };
+
+      const tryKnown = (index: number): void => {
+        if (index >= candidates.length) return ask();
+        tryPassword(candidates[index], () => tryKnown(index + 1));
+      };
+
+      tryKnown(0);
+    });
+  }
+
+  private askProvider(context: PasswordContext, callback: PasswordCallback): void {
+    const provider = this.provider as PasswordProvider;
+    const done = once(callback);
+    try {
+      const result = provider(context, done);
+      if (result && typeof (result as Promise<string>).then === 'function') {
+        (result as Promise<string | null | undefined>).then(
+          (password) => done(null, password),
+          (err) => done(err as Error)
+        );
+      } else if (result !== undefined || provider.length < 2) {
+        // A provider without the callback parameter answers with its return value
+        done(null, result as string | null | undefined);
+      }
+    } catch (err) {
+      done(err as Error);
+    }
+  }
+
+  private optionsFor(password: string | null): CodecOptions {
+    for (let i = 0; i < this.codecOptions.length; i++) {
+      if (this.codecOptions[i].password === password) return this.codecOptions[i];
+    }
+    const options: CodecOptions = { password: password, keyCache: {} };
+    this.codecOptions.push(options);
+    return options;
+  }
+
+  /**
+   * Run fn exclusively - prompts and checks happen one folder at a time
+   */
+  private lock(fn: (release: () => void) => void): void {
+    const release = (): void => {
+      const next = this.waiters ? this.waiters.shift() : undefined;
+      if (next) next();
+      else this.waiters = null;
+    };
+    if (this.waiters) {
+      this.waiters.push(() => fn(release));
+      return;
+    }
+    this.waiters = [];
+    fn(release);
+  }
+}
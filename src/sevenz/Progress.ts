@@ -0,0 +1,115 @@
+/**
+ * Progress - byte and entry counters for one archive
+ *
+ * The parser counts bytes read from the ArchiveSource and bytes decompressed per
+ * folder; FileEntry counts bytes written and completed entries. Every update calls
+ * the onProgress callback with a snapshot, so a progress bar can compare
+ * bytesDecompressed with totalBytes for an ETA.
+ */
+
+export interface Progress {
+  /** Bytes read from the archive source (headers and packed streams - header recovery may re-read) */
+  bytesRead: number;
+  /** Size of the archive source */
+  archiveSize: number;
+  /** Bytes decompressed across all folders */
+  bytesDecompressed: number;
+  /** Expected decompressed bytes - the sum of every folder's unpack size */
+  totalBytes: number;
+  /** Bytes written to disk by FileEntry.create */
+  bytesWritten: number;
+  /** File entries written to disk */
+  entriesCompleted: number;
+  /** File entries in the archive */
+  totalEntries: number;
+  /** Folder of the latest decompressed bytes, -1 before any */
+  folderIndex: number;
+  /** Bytes decompressed so far from folderIndex */
+  folderBytesDecompressed: number;
+  /** Expected decompressed size of folderIndex */
+  folderTotalBytes: number;
+  /** Path of the latest completed entry */
+  path?: string;
+}
+
+export type ProgressCallback = (progress: Progress) => void;
+
+export class ProgressTracker {
+  private callback: ProgressCallback;
+  private state: Progress;
+  private folderDecompressed: { [key: number]: number } = {};
+  private folderTotals: number[] = [];
+
+  constructor(callback: ProgressCallback, archiveSize: number) {
+    this.callback = callback;
+    this.state = {
+      bytesRead: 0,
+      archiveSize: archiveSize,
+      bytesDecompressed: 0,
+      totalBytes: 0,
+      bytesWritten: 0,
+      entriesCompleted: 0,
+      totalEntries: 0,
+      folderIndex: -1,
+      folderBytesDecompressed: 0,
+      folderTotalBytes: 0,
+    };
+  }
+
+  /**
+   * Set the expected totals once the header has been parsed
+   */
+  setTotals(folderTotals: number[], totalEntries: number): void {
+    this.folderTotals = folderTotals;
+    let totalBytes = 0;
+    for (let i = 0; i < folderTotals.length; i++) totalBytes += folderTotals[i];
+    this.state.totalBytes = totalBytes;
+    this.state.totalEntries = totalEntries;
+  }
+
+  read(bytes: number): void {
+    if (bytes <= 0) return;
+    this.state.bytesRead += bytes;
+    this.emit();
+  }
+
+  decompressed(folderIndex: number, bytes: number): void {
+    if (bytes <= 0) return;
+    const folderBytes = (this.folderDecompressed[folderIndex] || 0) + bytes;
+    this.folderDecompressed[folderIndex] = folderBytes;
+    this.state.bytesDecompressed += bytes;
+    this.state.folderIndex = folderIndex;
+    this.state.folderBytesDecompressed = folderBytes;
+    this.state.folderTotalBytes = this.folderTotals[folderIndex] || 0;
+    this.emit();
+  }
+
+  written(bytes: number): void {
+    if (bytes <= 0) return;
+    this.state.bytesWritten += bytes;
+    this.emit();
+  }
+
+  entryCompleted(path: string): void {
+    this.state.entriesCompleted++;
+    this.state.path = path;
+    this.emit();
+  }
+
+  private emit(): void {
+    const s = this.state;
+    this.callback({
+      bytesRead: s.bytesRead,
+      archiveSize: s.archiveSize,
+      bytesDecompressed: s.bytesDecompressed,
+      totalBytes: s.totalBytes,
+      bytesWritten: s.bytesWritten,
+      entriesCompleted: s.entriesCompleted,
+      totalEntries: s.totalEntries,
+      folderIndex: s.folderIndex,
+      folderBytesDecompressed: s.folderBytesDecompressed,
+      folderTotalBytes: s.folderTotalBytes,
+      path: s.path,
+    });
+  }
+}
@@ -6,7 +6,7 @@
  * Parser Flow:
  * 1. Read signature header (32 bytes) to get header location
  * 2. Read encoded header from nextHeaderOffset
- * 3. If header is compressed, decompress it first
+ * 3. If header is compressed (or encrypted), decode it first
  * 4. Parse streams info (folder structure, pack positions)
  * 5. Parse files info (names, sizes, attributes)
  * 6. Build entry list for iteration
@@ -20,20 +20,28 @@
 
 import once from 'call-once-fn';
 import { type BufferLike, crc32, PassThrough } from 'extract-base-iterator';
+import oo from 'on-one';
 import type Stream from 'stream';
 import { defer } from '../lib/defer.ts';
-import type { ArchiveSource } from './ArchiveSource.ts';
-import { type Codec, decodeBcj2Multi, getCodec, getCodecName, isBcj2Codec, isCodecSupported } from './codecs/index.ts';
+import onAbort from '../lib/onAbort.ts';
+import { type ArchiveSource, type AsyncArchiveSource, OffsetSource, type ReadCallback, toAsyncSource } from './ArchiveSource.ts';
+import { type Codec, type CodecOptions, createBcj2MultiStream, decodeBcj2Multi, getCodec, getCodecName, getCoderMethod, isAesCodec, isBcj2Codec, isCodecSupported, isPlausibleCodecInput } from './codecs/index.ts';
+import { type CacheStats, FolderCache } from './FolderCache.ts';
 import { FolderStreamSplitter } from './FolderStreamSplitter.ts';
+import { type LimitOptions, type Limits, RATIO_CHECK_MIN_SIZE, resolveLimits } from './limits.ts';
+import { HEADER_FOLDER_INDEX, type PasswordOptions, PasswordResolver } from './PasswordResolver.ts';
+import { type ProgressCallback, ProgressTracker } from './Progress.ts';
 
 type Readable = Stream.Readable;
 
-import { type CodedError, createCodedError, ErrorCode, FileAttribute, PropertyId, SIGNATURE_HEADER_SIZE } from './constants.ts';
-import { type FileInfo, parseEncodedHeader, parseHeaderContent, parseSignatureHeader, type SignatureHeader, type StreamsInfo } from './headers.ts';
-import { readNumber } from './NumberCodec.ts';
+// Read size for checking pack stream CRCs
+const PACK_CRC_CHUNK_SIZE = 1024 * 1024;
+
+import { type CodedError, createAbortError, createCodedError, ErrorCode, FileAttribute, PropertyId, SEVENZ_MAGIC, SFX_MAX_STUB_SIZE, SIGNATURE_HEADER_SIZE } from './constants.ts';
+import { type FileInfo, type Folder, findSignatureHeader, parseEncodedHeader, parseHeaderContent, parseSignatureHeader, parseStreamsInfo, type SignatureHeader, type StreamsInfo } from './headers.ts';
 
 // Re-export for backwards compatibility
-export { type ArchiveSource, BufferSource, FileSource } from './ArchiveSource.ts';
+export { type ArchiveSource, type AsyncArchiveSource, BufferSource, FileSource, MultiVolumeSource, OffsetSource, openVolumes, type ReadCallback, toAsyncSource, type Volume } from './ArchiveSource.ts';
 
 // Entry type for iteration
 export interface SevenZipEntry {
@@ -46,6 +54,16 @@ export interface SevenZipEntry {
   ctime?: Date;
   mode?: number;
   isAntiFile: boolean;
+  /** Coder chain in 7-Zip notation (e.g. "BCJ LZMA2:24"); undefined for entries without data */
+  method?: string;
+  /** True when the entry's data is AES encrypted */
+  encrypted: boolean;
+  /** CRC32 of the entry's data, when stored in the archive */
+  crc?: number;
+  /** Folder (solid block) holding the entry's data; undefined for entries without data */
+  solidBlockIndex?: number;
+  /** Packed size of the entry's folder - only set when the folder holds just this entry */
+  packedSize?: number;
   // Internal tracking
   _folderIndex: number;
   _streamIndex: number; // Global stream index
@@ -55,32 +73,174 @@ export interface SevenZipEntry {
   _canStream: boolean; // Whether this entry's folder supports streaming decompression
 }
 
+/**
+ * One coder in a folder's chain
+ */
+export interface CoderInfo {
+  /** Codec ID bytes */
+  id: number[];
+  /** Human-readable codec name (from getCodecName) */
+  name: string;
+  numInStreams: number;
+  numOutStreams: number;
+  properties?: Buffer;
+}
+
+/**
+ * Folder (solid block) summary
+ */
+export interface FolderInfo {
+  index: number;
+  /** Coders in archive order */
+  coders: CoderInfo[];
+  packedSize: number;
+  unpackedSize: number;
+  /** Number of streams stored in this folder (files and symlink targets) */
+  numFiles: number;
+  encrypted: boolean;
+}
+
+/**
+ * Archive-level metadata (similar to `7z l -slt`)
+ */
+export interface ArchiveInfo {
+  /** Format version from the signature header */
+  majorVersion: number;
+  minorVersion: number;
+  /** True when any folder holds more than one file */
+  solid: boolean;
+  numFolders: number;
+  /** Regular file entries - symlinks and anti-items are not counted */
+  numFiles: number;
+  numDirectories: number;
+  /** Total size of packed streams */
+  packedSize: number;
+  /** Total size of unpacked folder data */
+  unpackedSize: number;
+  /** Archive size from the signature header (excludes any SFX stub) */
+  physicalSize: number;
+  /** Size of the (possibly compressed) header block */
+  headerSize: number;
+  headerCompressed: boolean;
+  headerEncrypted: boolean;
+  /** True when the header or any folder is encrypted */
+  encrypted: boolean;
+  /** Start of the 7z data in the source - non-zero for SFX archives */
+  sfxOffset: number;
+  folders: FolderInfo[];
+}
+
+/** Outcome of checking one entry: unverifiable entries have no stored CRC covering their data */
+export type VerifyStatus = 'passed' | 'failed' | 'unverifiable';
+
+export interface VerifyEntryResult {
+  path: string;
+  /** Folder holding the entry's data, -1 for empty files */
+  folderIndex: number;
+  status: VerifyStatus;
+  /** Why the entry failed (CRC_MISMATCH, WRONG_PASSWORD, decoder errors, ...) */
+  error?: Error;
+}
+
+/**
+ * Result of verify() - covers every file and symlink in archive order
+ */
+export interface VerifyReport {
+  /** True when no entry failed */
+  ok: boolean;
+  passed: number;
+  failed: number;
+  unverifiable: number;
+  entries: VerifyEntryResult[];
+}
+
+/**
+ * Options for SevenZipParser (passwords are scoped to this parser)
+ */
+export interface SevenZipParserOptions extends PasswordOptions, LimitOptions {
+  /** Called as bytes are read, decompressed and written */
+  onProgress?: ProgressCallback;
+  /** Aborts header parsing, in-flight decodes and folder streams with an AbortError */
+  signal?: AbortSignal;
+  /** Most bytes of decompressed solid folders kept in memory - least recently used are evicted (default: no limit) */
+  cacheMaxBytes?: number;
+}
+
 /** Callback for operations that don't return data */
 export type VoidCallback = (error: Error | null) => void;
 type BufferCallback = (error: Error | null, data?: Buffer) => void;
+export type VerifyCallback = (error: Error | null, report?: VerifyReport) => void;
 
 /**
  * SevenZipParser - parses 7z archives and provides entry iteration
  */
 export class SevenZipParser {
-  private source: ArchiveSource;
+  /** Start of the 7z data in the source - non-zero for self-extracting (SFX) archives */
+  sfxOffset = 0;
+  private source: AsyncArchiveSource;
   private signature: SignatureHeader | null = null;
   private streamsInfo: StreamsInfo | null = null;
   private filesInfo: FileInfo[] = [];
   private entries: SevenZipEntry[] = [];
+  // Normalized path -> entry, built on first findEntry()
+  private entryIndex: { [key: string]: SevenZipEntry } | null = null;
   private parsed = false;
+  private headerCompressed = false;
+  private headerEncrypted = false;
   // Smart cache for decompressed solid blocks
-  // Only caches when multiple files share a block, releases when last file extracted
-  private decompressedCache: { [key: number]: Buffer } = {};
+  // Only caches when multiple files share a block, releases when last file extracted, evicts past cacheMaxBytes
+  private decompressedCache: FolderCache;
   // Track files per folder and how many have been extracted
   private filesPerFolder: { [key: number]: number } = {};
   private extractedPerFolder: { [key: number]: number } = {};
   // Splitter cache for multi-file folder streaming (Phase 2)
   private folderSplitters: { [key: number]: FolderStreamSplitter } = {};
   private pendingFolders: { [key: number]: BufferCallback[] } = {};
+  // Passwords and derived keys for this archive only - passed to every codec invocation
+  private passwords: PasswordResolver;
+  private progress: ProgressTracker | null;
+  private signal: AbortSignal | null;
+  private limits: Limits;
+
+  constructor(source: ArchiveSource | AsyncArchiveSource, options: SevenZipParserOptions = {}) {
+    this.source = toAsyncSource(source);
+    this.passwords = new PasswordResolver(options);
+    this.progress = options.onProgress ? new ProgressTracker(options.onProgress, source.getSize()) : null;
+    this.signal = options.signal || null;
+    this.limits = resolveLimits(options);
+    this.decompressedCache = new FolderCache(options.cacheMaxBytes !== undefined ? options.cacheMaxBytes : Infinity);
+  }
 
-  constructor(source: ArchiveSource) {
-    this.source = source;
+  /**
+   * Hits, misses, evictions and bytes of the decompressed folder cache
+   */
+  getCacheStats(): CacheStats {
+    return this.decompressedCache.getStats();
+  }
+
+  /**
+   * True once the signal option has been aborted
+   */
+  private isAborted(): boolean {
+    return !!this.signal && this.signal.aborted;
+  }
+
+  /**
+   * Progress counters shared with FileEntry, or null without an onProgress option
+   */
+  getProgressTracker(): ProgressTracker | null {
+    return this.progress;
+  }
+
+  /**
+   * Read from the source without blocking, counting the bytes for progress
+   */
+  private readSource(position: number, length: number, callback: ReadCallback): void {
+    this.source.readAsync(position, length, (err, data) => {
+      if (err || !data) return callback(err || createCodedError('Source returned no data', ErrorCode.TRUNCATED_ARCHIVE));
+      if (this.progress) this.progress.read(data.length);
+      callback(null, data);
+    });
   }
 
   /**
@@ -93,14 +253,26 @@ export class SevenZipParser {
   /**
    * Decode using codec - accepts BufferLike for LZMA1 support
    */
-  private decodeWithCodec(codec: Codec, input: BufferLike, properties: Buffer | undefined, unpackSize: number | undefined, callback: BufferCallback): void {
-    const done = once(callback);
+  private decodeWithCodec(codec: Codec, input: BufferLike, properties: Buffer | undefined, unpackSize: number | undefined, options: CodecOptions, callback: BufferCallback): void {
+    if (this.isAborted()) return callback(createAbortError());
+    // Decoders can't be interrupted - on abort, fail now and drop the result when it arrives
+    const unsubscribe = onAbort(this.signal, () => done(createAbortError()));
+    const done = once((err: Error | null, result?: Buffer) => {
+      unsubscribe();
+      callback(err, result);
+    });
     try {
-      codec.decode(input, properties, unpackSize, (err, result) => {
-        if (err) return done(err);
-        if (!result) return done(createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
-        done(null, result);
-      });
+      codec.decode(
+        input,
+        properties,
+        unpackSize,
+        (err, result) => {
+          if (err) return done(err);
+          if (!result) return done(createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+          done(null, result);
+        },
+        options
+      );
     } catch (err) {
       done(err as Error);
     }
@@ -125,38 +297,97 @@ export class SevenZipParser {
       callback(null);
       return;
     }
+    if (this.isAborted()) {
+      callback(createAbortError());
+      return;
+    }
 
-    let signature: SignatureHeader;
-    let headerBuf: BufferLike;
-
-    try {
-      const sigBuf = this.source.read(0, SIGNATURE_HEADER_SIZE);
-      if (sigBuf.length < SIGNATURE_HEADER_SIZE) {
-        callback(createCodedError('Archive too small', ErrorCode.TRUNCATED_ARCHIVE));
+    this.readSignatureHeader((sigErr, signature) => {
+      if (sigErr || !signature) {
+        callback(sigErr || createCodedError('Archive too small', ErrorCode.TRUNCATED_ARCHIVE));
         return;
       }
-      signature = parseSignatureHeader(this.toBuffer(sigBuf));
       this.signature = signature;
+      if (signature.nextHeaderSize > this.limits.maxHeaderSize) {
+        callback(createCodedError(`Header size ${signature.nextHeaderSize} exceeds maxHeaderSize (${this.limits.maxHeaderSize})`, ErrorCode.LIMIT_EXCEEDED));
+        return;
+      }
 
       const headerOffset = SIGNATURE_HEADER_SIZE + signature.nextHeaderOffset;
-      headerBuf = this.source.read(headerOffset, signature.nextHeaderSize);
-      if (headerBuf.length < signature.nextHeaderSize) {
-        callback(createCodedError('Truncated header', ErrorCode.TRUNCATED_ARCHIVE));
+      this.readSource(headerOffset, signature.nextHeaderSize, (readErr, headerBuf) => {
+        if (readErr || !headerBuf) {
+          callback(readErr);
+          return;
+        }
+        if (headerBuf.length < signature.nextHeaderSize) {
+          callback(createCodedError('Truncated header', ErrorCode.TRUNCATED_ARCHIVE));
+          return;
+        }
+        this.parseHeader(headerBuf, callback);
+      });
+    });
+  }
+
+  /**
+   * Read and parse the signature header, looking past a self-extractor stub when
+   * the source does not start with one
+   */
+  private readSignatureHeader(callback: (error: Error | null, signature?: SignatureHeader) => void): void {
+    const parse = (sigBuf: Buffer): void => {
+      let signature: SignatureHeader;
+      try {
+        signature = parseSignatureHeader(sigBuf);
+      } catch (err) {
+        callback(err as Error);
         return;
       }
-    } catch (err) {
-      callback(err as Error);
-      return;
-    }
+      callback(null, signature);
+    };
 
+    this.readSource(0, SIGNATURE_HEADER_SIZE, (err, data) => {
+      if (err || !data) return callback(err);
+      const sigBuf = this.toBuffer(data);
+      if (sigBuf.length < SIGNATURE_HEADER_SIZE) return callback(createCodedError('Archive too small', ErrorCode.TRUNCATED_ARCHIVE));
+      if (sigBuf[0] === SEVENZ_MAGIC[0] && sigBuf[1] === SEVENZ_MAGIC[1]) return parse(sigBuf);
+
+      // Not a plain archive - look for one embedded after a self-extractor stub
+      this.findSfxOffset((findErr, sfxOffset) => {
+        if (findErr) return callback(findErr);
+        if (!sfxOffset || sfxOffset <= 0) return parse(sigBuf);
+        this.sfxOffset = sfxOffset;
+        this.source = new OffsetSource(this.source, sfxOffset);
+        this.readSource(0, SIGNATURE_HEADER_SIZE, (readErr, sfxData) => {
+          if (readErr || !sfxData) return callback(readErr);
+          parse(this.toBuffer(sfxData));
+        });
+      });
+    });
+  }
+
+  /**
+   * Parse the header block, decoding it first when it is compressed or encrypted
+   */
+  private parseHeader(headerBuf: BufferLike, callback: VoidCallback): void {
     const finalize = (): void => {
+      if (this.isAborted()) {
+        callback(createAbortError());
+        return;
+      }
       try {
         this.buildEntries();
-        this.parsed = true;
-        callback(null);
       } catch (err) {
         callback(err as Error);
+        return;
       }
+      if (this.progress) this.setProgressTotals(this.progress);
+      this.validatePassword((err) => {
+        if (err) {
+          callback(err);
+          return;
+        }
+        this.parsed = true;
+        callback(null);
+      });
     };
 
     try {
@@ -187,75 +418,148 @@ export class SevenZipParser {
     // Parse the encoded header info to get decompression parameters
     // Convert to Buffer for header parsing (small data)
     const headerBuffer = this.toBuffer(headerBuf);
-    let offset = 1; // Skip kEncodedHeader byte
 
-    const propertyId = headerBuffer[offset++];
+    const propertyId = headerBuffer[1]; // Skip kEncodedHeader byte
     if (propertyId !== PropertyId.kMainStreamsInfo && propertyId !== PropertyId.kPackInfo) {
       callback(createCodedError('Expected StreamsInfo in encoded header', ErrorCode.CORRUPT_HEADER));
       return;
     }
 
-    let packInfoResult: ReturnType<SevenZipParser['parseEncodedHeaderStreams']>;
+    let headerStreams: StreamsInfo;
     try {
-      packInfoResult = this.parseEncodedHeaderStreams(headerBuffer, 1);
+      headerStreams = parseStreamsInfo(headerBuffer, 1).info;
     } catch (err) {
       callback(err as Error);
       return;
     }
 
-    const codec = getCodec(packInfoResult.codecId);
-    const candidates: BufferLike[] = [];
+    const folder = headerStreams.folders[0];
+    if (!folder || headerStreams.packSizes.length < 1) {
+      callback(createCodedError('Encoded header has no packed streams', ErrorCode.CORRUPT_HEADER));
+      return;
+    }
+    for (let i = 0; i < folder.coders.length; i++) {
+      if (!isCodecSupported(folder.coders[i].id)) {
+        callback(createCodedError(`Unsupported codec in header: ${getCodecName(folder.coders[i].id)}`, ErrorCode.UNSUPPORTED_CODEC));
+        return;
+      }
+    }
+    // Checked before decoding - the decoder allocates the declared size up front
+    const headerSize = this.getFolderUnpackSize(folder);
+    if (headerSize > this.limits.maxHeaderSize) {
+      callback(createCodedError(`Decompressed header size ${headerSize} exceeds maxHeaderSize (${this.limits.maxHeaderSize})`, ErrorCode.LIMIT_EXCEEDED));
+      return;
+    }
 
-    const compressedStart = SIGNATURE_HEADER_SIZE + packInfoResult.packPos;
-    candidates.push(this.source.read(compressedStart, packInfoResult.packSize));
+    // Header encryption (7z -mhe=on) puts an AES coder in front of the header's compression coder
+    const encrypted = this.folderHasAes(folder);
+    this.headerCompressed = true;
+    this.headerEncrypted = encrypted;
+    if (encrypted && !this.passwords.canDecrypt()) {
+      callback(createCodedError('Archive header is encrypted - password required', ErrorCode.ENCRYPTED_ARCHIVE));
+      return;
+    }
 
-    if (this.signature) {
-      const packAreaEnd = SIGNATURE_HEADER_SIZE + this.signature.nextHeaderOffset;
-      const searchStart = packAreaEnd - packInfoResult.packSize;
-      const searchEnd = Math.max(SIGNATURE_HEADER_SIZE, compressedStart - 100000);
-      const scanChunkSize = 4096;
-      for (let chunkStart = searchStart; chunkStart >= searchEnd; chunkStart -= scanChunkSize) {
-        const chunkRaw = this.source.read(chunkStart, scanChunkSize + packInfoResult.packSize);
-        // Convert to Buffer for scanning (small data)
-        const chunk = this.toBuffer(chunkRaw);
-        const limit = Math.min(chunk.length, scanChunkSize);
-        for (let i = 0; i < limit; i++) {
-          if (chunk[i] === 0x00) {
-            const end = i + packInfoResult.packSize;
-            if (end <= chunk.length) {
-              const candidateData = chunk.slice(i, end);
-              if (candidateData.length === packInfoResult.packSize) {
-                candidates.push(candidateData);
-              }
-            }
+    const packSize = headerStreams.packSizes[0];
+    const compressedStart = SIGNATURE_HEADER_SIZE + headerStreams.packPos;
+    const candidates: BufferLike[] = [];
+    // Scanning for misplaced header data only makes sense for a plain single-coder header
+    let scanned = encrypted || folder.coders.length !== 1;
+
+    let header: Buffer | null = null;
+    const decodeHeader = (options: CodecOptions, done: VoidCallback): void => {
+      const tryCandidate = (index: number): void => {
+        if (this.isAborted()) {
+          done(createAbortError());
+          return;
+        }
+        if (index >= candidates.length) {
+          // The header is not where the archive says - look further back for it, once
+          if (!scanned) {
+            scanned = true;
+            this.scanHeaderCandidates(compressedStart, packSize, candidates, () => tryCandidate(index));
+            return;
           }
+          if (encrypted) done(createCodedError('Wrong password - archive header could not be decrypted', ErrorCode.WRONG_PASSWORD));
+          else done(createCodedError('Failed to decompress header - could not find valid LZMA data', ErrorCode.CORRUPT_HEADER));
+          return;
         }
+
+        this.decodeFolderCoders(HEADER_FOLDER_INDEX, folder, candidates[index], options, (err, decompressed) => {
+          if (err || !decompressed) {
+            tryCandidate(index + 1);
+            return;
+          }
+          if (folder.hasCRC && folder.unpackCRC !== undefined) {
+            const actualCRC = crc32(decompressed);
+            if (actualCRC !== folder.unpackCRC) {
+              tryCandidate(index + 1);
+              return;
+            }
+          }
+          header = decompressed;
+          done(null);
+        });
+      };
+
+      tryCandidate(0);
+    };
+
+    const parseHeader = (err: Error | null): void => {
+      if (err || !header) {
+        callback(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+        return;
       }
-    }
+      this.parseDecompressedHeader(header, callback);
+    };
 
-    const tryCandidate = (index: number): void => {
-      if (index >= candidates.length) {
-        callback(createCodedError('Failed to decompress header - could not find valid LZMA data', ErrorCode.CORRUPT_HEADER));
+    this.readSource(compressedStart, packSize, (err, packed) => {
+      if (err || !packed) {
+        callback(err);
         return;
       }
+      candidates.push(packed);
+      if (encrypted) this.passwords.resolve(HEADER_FOLDER_INDEX, decodeHeader, parseHeader);
+      else decodeHeader(this.passwords.getOptions(HEADER_FOLDER_INDEX), parseHeader);
+    });
+  }
 
-      this.decodeWithCodec(codec, candidates[index], packInfoResult.properties, packInfoResult.unpackSize, (err, decompressed) => {
-        if (err || !decompressed) {
-          tryCandidate(index + 1);
+  /**
+   * Collect possible header data from up to 100KB before the declared pack position:
+   * every packSize run starting with a zero byte (the LZMA range coder's first byte)
+   */
+  private scanHeaderCandidates(compressedStart: number, packSize: number, candidates: BufferLike[], callback: () => void): void {
+    if (!this.signature) {
+      callback();
+      return;
+    }
+    const packAreaEnd = SIGNATURE_HEADER_SIZE + this.signature.nextHeaderOffset;
+    const searchStart = packAreaEnd - packSize;
+    const searchEnd = Math.max(SIGNATURE_HEADER_SIZE, compressedStart - 100000);
+    const scanChunkSize = 4096;
+
+    const scan = (chunkStart: number): void => {
+      if (chunkStart < searchEnd || this.isAborted()) {
+        callback();
+        return;
+      }
+      this.readSource(chunkStart, scanChunkSize + packSize, (err, chunkRaw) => {
+        // A failed read ends the scan - the candidates found so far are still tried
+        if (err || !chunkRaw) {
+          callback();
           return;
         }
-        if (packInfoResult.unpackCRC !== undefined) {
-          const actualCRC = crc32(decompressed);
-          if (actualCRC !== packInfoResult.unpackCRC) {
-            tryCandidate(index + 1);
-            return;
-          }
+        // Convert to Buffer for scanning (small data)
+        const chunk = this.toBuffer(chunkRaw);
+        const limit = Math.min(chunk.length, scanChunkSize);
+        for (let i = 0; i < limit; i++) {
+          if (chunk[i] === 0x00 && i + packSize <= chunk.length) candidates.push(chunk.slice(i, i + packSize));
         }
-        this.parseDecompressedHeader(decompressed, callback);
+        scan(chunkStart - scanChunkSize);
       });
     };
 
-    tryCandidate(0);
+    scan(searchStart);
   }
 
   private parseDecompressedHeader(decompressedHeader: Buffer, callback: VoidCallback): void {
@@ -276,117 +580,22 @@ export class SevenZipParser {
     }
   }
 
-  /**
-   * Parse streams info from encoded header block
-   * This is a simplified parser for the header's own compression info
-   */
-  private parseEncodedHeaderStreams(
-    buf: Buffer,
-    offset: number
-  ): {
-    packPos: number;
-    packSize: number;
-    unpackSize: number;
-    codecId: number[];
-    properties?: Buffer;
-    unpackCRC?: number;
-  } {
-    // This is a simplified parser for the encoded header's own streams info
-    let packPos = 0;
-    let packSize = 0;
-    let unpackSize = 0;
-    let codecId: number[] = [];
-    let properties: Buffer | undefined;
-    let unpackCRC: number | undefined;
-
-    while (offset < buf.length) {
-      const propertyId = buf[offset++];
-
-      if (propertyId === PropertyId.kEnd) {
-        break;
-      }
-
-      switch (propertyId) {
-        case PropertyId.kPackInfo: {
-          const packPosResult = readNumber(buf, offset);
-          packPos = packPosResult.value;
-          offset += packPosResult.bytesRead;
-
-          const numPackResult = readNumber(buf, offset);
-          offset += numPackResult.bytesRead;
-
-          // Read until kEnd
-          while (buf[offset] !== PropertyId.kEnd) {
-            if (buf[offset] === PropertyId.kSize) {
-              offset++;
-              const sizeResult = readNumber(buf, offset);
-              packSize = sizeResult.value;
-              offset += sizeResult.bytesRead;
-            } else {
-              offset++;
-            }
-          }
-          offset++; // Skip kEnd
-          break;
-        }
-
-        case PropertyId.kUnpackInfo:
-          // Find folder/coder info
-          while (offset < buf.length && buf[offset] !== PropertyId.kEnd) {
-            if (buf[offset] === PropertyId.kFolder) {
-              offset++;
-              const numFoldersResult = readNumber(buf, offset);
-              offset += numFoldersResult.bytesRead;
-              offset++; // external flag
-
-              // Parse coder
-              const numCodersResult = readNumber(buf, offset);
-              offset += numCodersResult.bytesRead;
-
-              const flags = buf[offset++];
-              const idSize = flags & 0x0f;
-              const hasAttributes = (flags & 0x20) !== 0;
-
-              codecId = [];
-              for (let i = 0; i < idSize; i++) {
-                codecId.push(buf[offset++]);
-              }
-
-              if (hasAttributes) {
-                const propsLenResult = readNumber(buf, offset);
-                offset += propsLenResult.bytesRead;
-                properties = buf.slice(offset, offset + propsLenResult.value);
-                offset += propsLenResult.value;
-              }
-            } else if (buf[offset] === PropertyId.kCodersUnpackSize) {
-              offset++;
-              // Read unpack size - needed for LZMA decoder
-              const unpackSizeResult = readNumber(buf, offset);
-              unpackSize = unpackSizeResult.value;
-              offset += unpackSizeResult.bytesRead;
-            } else if (buf[offset] === PropertyId.kCRC) {
-              offset++;
-              const allDefined = buf[offset++];
-              if (allDefined) {
-                unpackCRC = buf.readUInt32LE(offset);
-                offset += 4;
-              }
-            } else {
-              offset++;
-            }
-          }
-          if (buf[offset] === PropertyId.kEnd) offset++;
-          break;
-      }
+  private setProgressTotals(progress: ProgressTracker): void {
+    const folderTotals: number[] = [];
+    const folders = this.streamsInfo ? this.streamsInfo.folders : [];
+    for (let i = 0; i < folders.length; i++) folderTotals.push(this.getFolderUnpackSize(folders[i]));
+    let totalEntries = 0;
+    for (let i = 0; i < this.entries.length; i++) {
+      if (this.entries[i].type === 'file') totalEntries++;
     }
-
-    return { packPos: packPos, packSize: packSize, unpackSize: unpackSize, codecId: codecId, properties: properties, unpackCRC: unpackCRC };
+    progress.setTotals(folderTotals, totalEntries);
   }
 
   /**
    * Build the entries list from parsed file info
    */
   private buildEntries(): void {
+    this.checkLimits();
     this.entries = [];
 
     if (!this.streamsInfo) {
@@ -444,17 +653,66 @@ export class SevenZipParser {
       }
     }
 
-    // Set _canStream for all entries now that we have complete folder info
+    // Set _canStream and folder metadata for all entries now that we have complete folder info
     // This must be done after all entries are built because canStreamFolder
     // relies on the folder structure being fully parsed
+    const folders = this.streamsInfo.folders;
+    const packSizes = this.streamsInfo.packSizes;
     for (let i = 0; i < this.entries.length; i++) {
       const entry = this.entries[i];
-      if (entry._hasStream && entry._folderIndex >= 0) {
+      if (entry._hasStream && entry._folderIndex >= 0 && folders[entry._folderIndex]) {
+        const folder = folders[entry._folderIndex];
         entry._canStream = this.canStreamFolder(entry._folderIndex);
+        entry.method = this.getFolderMethod(folder);
+        entry.encrypted = this.folderHasAes(folder);
+        // A folder holding one file stores that file's CRC at folder level
+        if (entry._crc === undefined && streamsPerFolder[entry._folderIndex] === 1 && folder.hasCRC) entry._crc = folder.unpackCRC;
+        entry.crc = entry._crc;
+        entry.solidBlockIndex = entry._folderIndex;
+        if (streamsPerFolder[entry._folderIndex] === 1) {
+          let packStreamIndex = 0;
+          for (let f = 0; f < entry._folderIndex; f++) packStreamIndex += folders[f].packedStreams.length;
+          let packedSize = 0;
+          for (let p = 0; p < folder.packedStreams.length; p++) packedSize += packSizes[packStreamIndex + p] || 0;
+          entry.packedSize = packedSize;
+        }
       }
     }
   }
 
+  /**
+   * Throw LIMIT_EXCEEDED when the header declares more entries or data than the limits allow
+   */
+  private checkLimits(): void {
+    const limits = this.limits;
+    if (this.filesInfo.length > limits.maxEntries) {
+      throw createCodedError(`Archive has ${this.filesInfo.length} entries - more than maxEntries (${limits.maxEntries})`, ErrorCode.LIMIT_EXCEEDED);
+    }
+    if (!this.streamsInfo) return;
+
+    let totalSize = 0;
+    const folders = this.streamsInfo.folders;
+    const packSizes = this.streamsInfo.packSizes;
+    // Index of the folder's first pack stream, kept as a running sum
+    let packStreamIndex = 0;
+    for (let i = 0; i < folders.length; i++) {
+      const unpackSize = this.getFolderUnpackSize(folders[i]);
+      const numPackStreams = folders[i].packedStreams.length;
+      totalSize += unpackSize;
+      if (totalSize > limits.maxTotalUnpackedSize) {
+        throw createCodedError(`Archive unpacks to more than maxTotalUnpackedSize (${limits.maxTotalUnpackedSize})`, ErrorCode.LIMIT_EXCEEDED);
+      }
+      if (unpackSize >= RATIO_CHECK_MIN_SIZE) {
+        let packSize = 0;
+        for (let k = packStreamIndex; k < packStreamIndex + numPackStreams; k++) packSize += packSizes[k] || 0;
+        if (unpackSize > packSize * limits.maxCompressionRatio) {
+          throw createCodedError(`Folder ${i} compression ratio ${Math.round(unpackSize / Math.max(packSize, 1))} exceeds maxCompressionRatio (${limits.maxCompressionRatio})`, ErrorCode.LIMIT_EXCEEDED);
+        }
+      }
+      packStreamIndex += numPackStreams;
+    }
+  }
+
   /**
    * Create an entry from file info
    */
@@ -495,6 +753,7 @@ export class SevenZipParser {
       ctime: file.ctime,
       mode: mode,
       isAntiFile: file.isAntiFile,
+      encrypted: false, // Set after parsing completes with the folder's coders
       _folderIndex: folderIndex,
       _streamIndex: 0, // Set by caller
       _streamIndexInFolder: streamInFolder,
@@ -513,6 +772,277 @@ export class SevenZipParser {
     return this.entries;
   }
 
+  /**
+   * Look up an entry by path. Separators are normalized like nextEntry, so
+   * 'dir/file.txt', 'dir\\file.txt' and '/dir/file.txt' all match.
+   * Returns null when the archive has no such entry.
+   */
+  findEntry(entryPath: string): SevenZipEntry | null {
+    if (!this.parsed) {
+      throw new Error('SevenZipParser has not been parsed yet. Call parse(callback) before accessing entries.');
+    }
+    if (!this.entryIndex) {
+      this.entryIndex = Object.create(null) as { [key: string]: SevenZipEntry };
+      for (let i = 0; i < this.entries.length; i++) {
+        // Later entries win, like extracting over earlier ones
+        this.entryIndex[normalizeEntryPath(this.entries[i].path)] = this.entries[i];
+      }
+    }
+    return this.entryIndex[normalizeEntryPath(entryPath)] || null;
+  }
+
+  /**
+   * Mark an entry that will not be read (e.g. filtered out), so a cached solid folder
+   * is released once its remaining entries have been read
+   */
+  skipEntry(entry: SevenZipEntry): void {
+    if (!entry._hasStream) return;
+    const folderIdx = entry._folderIndex;
+    this.extractedPerFolder[folderIdx] = (this.extractedPerFolder[folderIdx] || 0) + 1;
+    if (this.extractedPerFolder[folderIdx] >= this.filesPerFolder[folderIdx]) {
+      this.decompressedCache.delete(folderIdx);
+    }
+  }
+
+  /**
+   * Get archive-level metadata: folders, coder chains, sizes and header flags
+   */
+  getArchiveInfo(): ArchiveInfo {
+    if (!this.parsed || !this.signature) {
+      throw new Error('SevenZipParser has not been parsed yet. Call parse(callback) before accessing archive info.');
+    }
+
+    const folders: FolderInfo[] = [];
+    let packedSize = 0;
+    let unpackedSize = 0;
+    let solid = false;
+    let encrypted = this.headerEncrypted;
+
+    if (this.streamsInfo) {
+      const streamsInfo = this.streamsInfo;
+      for (let i = 0; i < streamsInfo.packSizes.length; i++) packedSize += streamsInfo.packSizes[i];
+
+      let packStreamIndex = 0;
+      for (let i = 0; i < streamsInfo.folders.length; i++) {
+        const folder = streamsInfo.folders[i];
+        const coders: CoderInfo[] = [];
+        for (let c = 0; c < folder.coders.length; c++) {
+          const coder = folder.coders[c];
+          coders.push({ id: coder.id, name: getCodecName(coder.id), numInStreams: coder.numInStreams, numOutStreams: coder.numOutStreams, properties: coder.properties });
+        }
+
+        let folderPackedSize = 0;
+        for (let p = 0; p < folder.packedStreams.length; p++) folderPackedSize += streamsInfo.packSizes[packStreamIndex + p] || 0;
+        packStreamIndex += folder.packedStreams.length;
+
+        const folderUnpackedSize = this.getFolderUnpackSize(folder);
+        const numFiles = streamsInfo.numUnpackStreamsPerFolder[i] !== undefined ? streamsInfo.numUnpackStreamsPerFolder[i] : 1;
+        const folderEncrypted = this.folderHasAes(folder);
+
+        unpackedSize += folderUnpackedSize;
+        if (numFiles > 1) solid = true;
+        if (folderEncrypted) encrypted = true;
+        folders.push({ index: i, coders: coders, packedSize: folderPackedSize, unpackedSize: folderUnpackedSize, numFiles: numFiles, encrypted: folderEncrypted });
+      }
+    }
+
+    let numFiles = 0;
+    let numDirectories = 0;
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      if (entry.type === 'directory') numDirectories++;
+      else if (entry.type === 'file' && !entry.isAntiFile) numFiles++;
+    }
+
+    const signature = this.signature;
+    return {
+      majorVersion: signature.majorVersion,
+      minorVersion: signature.minorVersion,
+      solid: solid,
+      numFolders: folders.length,
+      numFiles: numFiles,
+      numDirectories: numDirectories,
+      packedSize: packedSize,
+      unpackedSize: unpackedSize,
+      physicalSize: SIGNATURE_HEADER_SIZE + signature.nextHeaderOffset + signature.nextHeaderSize,
+      headerSize: signature.nextHeaderSize,
+      headerCompressed: this.headerCompressed,
+      headerEncrypted: this.headerEncrypted,
+      encrypted: encrypted,
+      sfxOffset: this.sfxOffset,
+      folders: folders,
+    };
+  }
+
+  /**
+   * Integrity test (like `7z t`): decode every folder once, in archive order, and check
+   * pack stream CRCs, folder CRCs and file CRCs without writing anything
+   */
+  verify(callback?: VerifyCallback): Promise<VerifyReport> | void {
+    if (typeof callback === 'function') return this.verifyInternal(callback);
+    return new Promise((resolve, reject) => this.verifyInternal((err, report) => (err ? reject(err) : resolve(report as VerifyReport))));
+  }
+
+  private verifyInternal(callback: VerifyCallback): void {
+    if (!this.parsed) {
+      callback(new Error('SevenZipParser has not been parsed yet. Call parse(callback) before verifying.'));
+      return;
+    }
+
+    const report: VerifyReport = { ok: true, passed: 0, failed: 0, unverifiable: 0, entries: [] };
+    const resultsByFolder: { [key: number]: VerifyEntryResult[] } = {};
+    const entriesByFolder: { [key: number]: SevenZipEntry[] } = {};
+    for (let i = 0; i < this.entries.length; i++) {
+      const entry = this.entries[i];
+      if (entry.type === 'directory') continue;
+      const result: VerifyEntryResult = { path: entry.path, folderIndex: entry._hasStream ? entry._folderIndex : -1, status: 'passed' };
+      report.entries.push(result);
+      if (!entry._hasStream) continue;
+      if (!resultsByFolder[entry._folderIndex]) {
+        resultsByFolder[entry._folderIndex] = [];
+        entriesByFolder[entry._folderIndex] = [];
+      }
+      resultsByFolder[entry._folderIndex].push(result);
+      entriesByFolder[entry._folderIndex].push(entry);
+    }
+
+    const numFolders = this.streamsInfo ? this.streamsInfo.folders.length : 0;
+    const next = (folderIndex: number): void => {
+      if (folderIndex >= numFolders) {
+        for (let i = 0; i < report.entries.length; i++) report[report.entries[i].status]++;
+        report.ok = report.failed === 0;
+        callback(null, report);
+        return;
+      }
+      this.verifyFolder(folderIndex, entriesByFolder[folderIndex] || [], resultsByFolder[folderIndex] || [], () => defer(() => next(folderIndex + 1)));
+    };
+    next(0);
+  }
+
+  /**
+   * Check one folder and record the outcome of each of its entries
+   */
+  private verifyFolder(folderIndex: number, entries: SevenZipEntry[], results: VerifyEntryResult[], callback: () => void): void {
+    const streamsInfo = this.streamsInfo as StreamsInfo;
+    const folder = streamsInfo.folders[folderIndex];
+    const failAll = (err: Error): void => {
+      for (let i = 0; i < results.length; i++) {
+        results[i].status = 'failed';
+        results[i].error = err;
+      }
+      callback();
+    };
+
+    this.checkPackCRCs(folderIndex, (packErr) => {
+      if (packErr) return failAll(packErr);
+
+      this.decodeFolderData(folderIndex, (err, data) => {
+        if (err || !data) return failAll(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+
+        const folderChecked = folder.hasCRC && folder.unpackCRC !== undefined;
+        if (folderChecked) {
+          const actualCRC = crc32(data);
+          if (actualCRC !== folder.unpackCRC) {
+            return failAll(createCodedError(`CRC mismatch for folder ${folderIndex}: expected ${(folder.unpackCRC as number).toString(16)}, got ${actualCRC.toString(16)}`, ErrorCode.CRC_MISMATCH));
+          }
+        }
+
+        let offset = 0;
+        for (let i = 0; i < entries.length; i++) {
+          const entry = entries[i];
+          const fileData = data.slice(offset, offset + entry.size);
+          offset += entry.size;
+          if (fileData.length !== entry.size) {
+            results[i].status = 'failed';
+            results[i].error = createCodedError(`File data out of bounds for ${entry.path}`, ErrorCode.DECOMPRESSION_FAILED);
+          } else if (entry._crc !== undefined) {
+            const actualCRC = crc32(fileData);
+            if (actualCRC !== entry._crc) {
+              results[i].status = 'failed';
+              results[i].error = this.crcMismatchError(entry, actualCRC);
+            }
+          } else if (!folderChecked) {
+            results[i].status = 'unverifiable';
+          }
+        }
+        callback();
+      });
+    });
+  }
+
+  /**
+   * Check the stored CRCs of a folder's packed streams, reading them in chunks
+   */
+  private checkPackCRCs(folderIndex: number, callback: VoidCallback): void {
+    const streamsInfo = this.streamsInfo as StreamsInfo;
+    const packCRCs = streamsInfo.packCRCs;
+    if (!packCRCs) return callback(null);
+
+    let packStreamIndex = 0;
+    for (let f = 0; f < folderIndex; f++) packStreamIndex += streamsInfo.folders[f].packedStreams.length;
+    let packPos = SIGNATURE_HEADER_SIZE + streamsInfo.packPos;
+    for (let k = 0; k < packStreamIndex; k++) packPos += streamsInfo.packSizes[k];
+    const numPackStreams = streamsInfo.folders[folderIndex].packedStreams.length;
+
+    const checkStream = (p: number, streamPos: number): void => {
+      if (p >= numPackStreams) return callback(null);
+      const index = packStreamIndex + p;
+      const size = streamsInfo.packSizes[index];
+      const expected = packCRCs[index];
+      if (expected === undefined) return checkStream(p + 1, streamPos + size);
+
+      let crc = 0;
+      const readChunk = (pos: number): void => {
+        if (pos >= size) {
+          if (crc !== expected) return callback(createCodedError(`CRC mismatch for pack stream ${index}: expected ${expected.toString(16)}, got ${crc.toString(16)}`, ErrorCode.CRC_MISMATCH));
+          return checkStream(p + 1, streamPos + size);
+        }
+        this.readSource(streamPos + pos, Math.min(PACK_CRC_CHUNK_SIZE, size - pos), (err, data) => {
+          if (err || !data) return callback(err);
+          crc = crc32(this.toBuffer(data), crc);
+          readChunk(pos + PACK_CRC_CHUNK_SIZE);
+        });
+      };
+      readChunk(0);
+    };
+
+    checkStream(0, packPos);
+  }
+
+  /**
+   * Coder chain of a folder in 7-Zip notation (e.g. "BCJ LZMA2:24"), listed last coder first like `7z l`
+   */
+  private getFolderMethod(folder: Folder): string {
+    const parts: string[] = [];
+    for (let i = folder.coders.length - 1; i >= 0; i--) parts.push(getCoderMethod(folder.coders[i].id, folder.coders[i].properties));
+    return parts.join(' ');
+  }
+
+  /**
+   * Index of a folder's final output - the coder output not bound to another coder
+   */
+  private getFolderOutputIndex(folder: Folder): number {
+    for (let i = folder.unpackSizes.length - 1; i >= 0; i--) {
+      let bound = false;
+      for (let bp = 0; bp < folder.bindPairs.length; bp++) {
+        if (folder.bindPairs[bp].outIndex === i) {
+          bound = true;
+          break;
+        }
+      }
+      if (!bound) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Size of a folder's final output
+   */
+  private getFolderUnpackSize(folder: Folder): number {
+    const index = this.getFolderOutputIndex(folder);
+    return index >= 0 ? folder.unpackSizes[index] : 0;
+  }
+
   /**
    * Get a readable stream for an entry's content.
    * Returns immediately - decompression happens when data is read (proper streaming).
@@ -526,6 +1056,33 @@ export class SevenZipParser {
       return emptyStream;
     }
 
+    this.checkEntryFolder(entry);
+
+    // Use true streaming for single-file folders that support it.
+    // Multi-file folders use buffered approach because streaming requires
+    // accessing files in order, which doesn't work with concurrent extraction.
+    const filesInFolder = this.filesPerFolder[entry._folderIndex] || 1;
+    if (entry._canStream && filesInFolder === 1) {
+      return this._getEntryStreamStreaming(entry);
+    }
+    return this._getEntryStreamBuffered(entry);
+  }
+
+  /**
+   * Stream one entry on its own (random access). Only the entry's folder is decoded; in
+   * streamable solid folders decompression stops once the entry's bytes have been emitted.
+   * The decoded folder is not kept in the cache.
+   */
+  openEntryStream(entry: SevenZipEntry): Readable {
+    if (!entry._hasStream || entry.type === 'directory') return this.getEntryStream(entry);
+    this.checkEntryFolder(entry);
+    return entry._canStream ? this._getEntryStreamStreaming(entry, false) : this._getEntryStreamBuffered(entry, false);
+  }
+
+  /**
+   * Throw if an entry's folder is missing or uses a codec we cannot decode
+   */
+  private checkEntryFolder(entry: SevenZipEntry): void {
     if (!this.streamsInfo) {
       throw createCodedError('No streams info available', ErrorCode.CORRUPT_HEADER);
     }
@@ -544,22 +1101,27 @@ export class SevenZipParser {
         throw createCodedError(`Unsupported codec: ${codecName}`, ErrorCode.UNSUPPORTED_CODEC);
       }
     }
+  }
 
-    // Use true streaming for single-file folders that support it.
-    // Multi-file folders use buffered approach because streaming requires
-    // accessing files in order, which doesn't work with concurrent extraction.
-    const filesInFolder = this.filesPerFolder[entry._folderIndex] || 1;
-    if (entry._canStream && filesInFolder === 1) {
-      return this._getEntryStreamStreaming(entry);
+  /**
+   * Offset of an entry's data within its decompressed folder
+   */
+  private getEntryOffsetInFolder(entry: SevenZipEntry): number {
+    const unpackSizes = (this.streamsInfo as StreamsInfo).unpackSizes;
+    let offset = 0;
+    for (let m = 0; m < entry._streamIndexInFolder; m++) {
+      offset += unpackSizes[entry._streamIndex - entry._streamIndexInFolder + m];
     }
-    return this._getEntryStreamBuffered(entry);
+    return offset;
   }
 
   /**
    * True streaming: data flows through without buffering entire folder.
-   * Only used for single-file folders with streamable codecs (BZip2, Deflate, LZMA2).
+   * Used for single-file folders with streamable codecs (BZip2, Deflate, LZMA, LZMA2), and by
+   * openEntryStream for one entry of a solid folder (earlier entries are skipped).
+   * Random-access reads pass countExtraction = false so the solid folder bookkeeping is untouched.
    */
-  private _getEntryStreamStreaming(entry: SevenZipEntry): Readable {
+  private _getEntryStreamStreaming(entry: SevenZipEntry, countExtraction = true): Readable {
     let started = false;
     let destroyed = false;
     let folderStream: ReturnType<typeof this.streamFolder> | null = null;
@@ -576,31 +1138,63 @@ export class SevenZipParser {
           try {
             let crcValue = 0;
             const verifyCrc = entry._crc !== undefined;
+            const start = this.getEntryOffsetInFolder(entry);
+            const end = start + entry.size;
+            // The last entry runs to the end of the folder, so let the decoders finish
+            const stopEarly = entry._streamIndexInFolder < (this.filesPerFolder[entry._folderIndex] || 1) - 1;
+            let position = 0;
+            let finished = false;
+            let waitingForDrain = false;
             folderStream = this.streamFolder(entry._folderIndex);
 
+            const finish = (): void => {
+              finished = true;
+              if (verifyCrc && crcValue !== entry._crc) {
+                stream.destroy(this.crcMismatchError(entry, crcValue));
+                return;
+              }
+              stream.end();
+              if (countExtraction) this.extractedPerFolder[entry._folderIndex] = (this.extractedPerFolder[entry._folderIndex] || 0) + 1;
+            };
+
             folderStream.output.on('data', (chunk: Buffer) => {
-              if (destroyed) return;
+              if (destroyed || finished) return;
+              const chunkStart = position;
+              position += chunk.length;
+              if (position <= start) return;
+              if (chunkStart < start || position > end) chunk = chunk.slice(Math.max(start - chunkStart, 0), Math.min(end, position) - chunkStart);
               if (verifyCrc) {
                 crcValue = crc32(chunk, crcValue);
               }
-              if (!stream.write(chunk)) {
+              if (stopEarly && position >= end) {
+                // Entry complete - stop decompressing the rest of the folder
+                if (chunk.length) stream.write(chunk);
+                folderStream?.destroy();
+                finish();
+                return;
+              }
+              // Decoders may push several chunks per write, so wait for one drain at a time
+              if (!stream.write(chunk) && !waitingForDrain) {
+                waitingForDrain = true;
                 folderStream?.pause();
-                stream.once('drain', () => folderStream?.resume());
+                stream.once('drain', () => {
+                  waitingForDrain = false;
+                  folderStream?.resume();
+                });
               }
             });
 
             folderStream.output.on('end', () => {
-              if (destroyed) return;
-              if (verifyCrc && crcValue !== entry._crc) {
-                stream.destroy(createCodedError(`CRC mismatch for ${entry.path}: expected ${entry._crc?.toString(16)}, got ${crcValue.toString(16)}`, ErrorCode.CRC_MISMATCH));
+              if (destroyed || finished) return;
+              if (position < end) {
+                stream.destroy(createCodedError(`File data out of bounds: offset ${start} + size ${entry.size} > decompressed length ${position}`, ErrorCode.DECOMPRESSION_FAILED));
                 return;
               }
-              stream.end();
-              this.extractedPerFolder[entry._folderIndex] = (this.extractedPerFolder[entry._folderIndex] || 0) + 1;
+              finish();
             });
 
             folderStream.output.on('error', (err: Error) => {
-              if (!destroyed) stream.destroy(err);
+              if (!destroyed && !finished) stream.destroy(err);
             });
           } catch (err) {
             if (!destroyed) {
@@ -631,13 +1225,12 @@ export class SevenZipParser {
 
   /**
    * Buffered extraction: decompress entire folder, slice out file.
-   * Used for codecs that don't support incremental streaming (LZMA1, BCJ2).
+   * Used for codecs that don't support incremental streaming and for multi-file folders.
    */
-  private _getEntryStreamBuffered(entry: SevenZipEntry): Readable {
+  private _getEntryStreamBuffered(entry: SevenZipEntry, useCache = true): Readable {
     if (!this.streamsInfo) {
       throw createCodedError('No streams info available', ErrorCode.CORRUPT_HEADER);
     }
-    const streamsInfo = this.streamsInfo;
     const folderIdx = entry._folderIndex;
     let started = false;
     let destroyed = false;
@@ -651,7 +1244,7 @@ export class SevenZipParser {
         defer(() => {
           if (destroyed) return;
 
-          this.getDecompressedFolder(folderIdx, (err, data) => {
+          const onData = (err: Error | null, data?: Buffer): void => {
             if (destroyed) return;
             if (err || !data) {
               stream.destroy(err || createCodedError('Unable to decompress folder', ErrorCode.DECOMPRESSION_FAILED));
@@ -659,11 +1252,7 @@ export class SevenZipParser {
             }
 
             try {
-              let fileStart = 0;
-              for (let m = 0; m < entry._streamIndexInFolder; m++) {
-                const prevStreamGlobalIndex = entry._streamIndex - entry._streamIndexInFolder + m;
-                fileStart += streamsInfo.unpackSizes[prevStreamGlobalIndex];
-              }
+              const fileStart = this.getEntryOffsetInFolder(entry);
 
               const fileSize = entry.size;
 
@@ -677,14 +1266,16 @@ export class SevenZipParser {
               if (entry._crc !== undefined) {
                 const actualCRC = crc32(fileData);
                 if (actualCRC !== entry._crc) {
-                  stream.destroy(createCodedError(`CRC mismatch for ${entry.path}: expected ${entry._crc.toString(16)}, got ${actualCRC.toString(16)}`, ErrorCode.CRC_MISMATCH));
+                  stream.destroy(this.crcMismatchError(entry, actualCRC));
                   return;
                 }
               }
 
-              this.extractedPerFolder[folderIdx] = (this.extractedPerFolder[folderIdx] || 0) + 1;
-              if (this.extractedPerFolder[folderIdx] >= this.filesPerFolder[folderIdx]) {
-                delete this.decompressedCache[folderIdx];
+              if (useCache) {
+                this.extractedPerFolder[folderIdx] = (this.extractedPerFolder[folderIdx] || 0) + 1;
+                if (this.extractedPerFolder[folderIdx] >= this.filesPerFolder[folderIdx]) {
+                  this.decompressedCache.delete(folderIdx);
+                }
               }
 
               if (!destroyed) {
@@ -694,7 +1285,15 @@ export class SevenZipParser {
             } catch (decodeErr) {
               stream.destroy(decodeErr as Error);
             }
-          });
+          };
+
+          const cached = useCache ? undefined : this.decompressedCache.get(folderIdx);
+          if (useCache) this.getDecompressedFolder(folderIdx, onData);
+          else if (cached) onData(null, cached);
+          else {
+            this.decompressedCache.miss();
+            this.decodeFolderData(folderIdx, onData);
+          }
         });
       }
       return originalRead(size);
@@ -728,13 +1327,104 @@ export class SevenZipParser {
     return false;
   }
 
+  /**
+   * CRC failure for an entry. Encrypted folders report WRONG_PASSWORD since a wrong key
+   * can still decompress cleanly (e.g. stored LZMA2 chunks)
+   */
+  private crcMismatchError(entry: SevenZipEntry, actualCRC: number): CodedError {
+    const folder = this.streamsInfo ? this.streamsInfo.folders[entry._folderIndex] : null;
+    if (folder && this.folderHasAes(folder) && this.passwords.getOptions(entry._folderIndex).password) {
+      return createCodedError(`Wrong password - CRC mismatch for ${entry.path}`, ErrorCode.WRONG_PASSWORD);
+    }
+    return createCodedError(`CRC mismatch for ${entry.path}: expected ${entry._crc?.toString(16)}, got ${actualCRC.toString(16)}`, ErrorCode.CRC_MISMATCH);
+  }
+
+  /**
+   * Check the static password against the first encrypted folder during parse,
+   * so a wrong password fails before extraction begins. Providers are asked lazily instead.
+   */
+  private validatePassword(callback: VoidCallback): void {
+    if (this.passwords.hasProvider() || !this.passwords.canDecrypt() || !this.streamsInfo) {
+      callback(null);
+      return;
+    }
+
+    const folders = this.streamsInfo.folders;
+    for (let i = 0; i < folders.length; i++) {
+      if (this.folderHasAes(folders[i])) {
+        const check = (options: CodecOptions, cb: VoidCallback): void => this.checkFolderPassword(i, options, cb);
+        this.passwords.resolve(i, check, (err) => callback(err));
+        return;
+      }
+    }
+    callback(null);
+  }
+
+  /**
+   * Cheap password check for an encrypted folder: decrypt its first two AES
+   * blocks and confirm they look like the start of the next coder's stream
+   */
+  private checkFolderPassword(folderIndex: number, options: CodecOptions, callback: VoidCallback): void {
+    if (!this.streamsInfo) {
+      callback(createCodedError('No streams info available', ErrorCode.CORRUPT_HEADER));
+      return;
+    }
+
+    // Only simple chains where AES reads the packed stream directly
+    const folder = this.streamsInfo.folders[folderIndex];
+    const order = this.getCoderProcessOrder(folder, -1);
+    if (this.folderHasBcj2(folder) || order.length < 2 || !isAesCodec(folder.coders[order[0]].id)) {
+      callback(null);
+      return;
+    }
+
+    this.readPackedData(folderIndex, 32, (readErr, packed) => {
+      if (readErr || !packed) {
+        callback(readErr);
+        return;
+      }
+      const sample = this.toBuffer(packed);
+      const sampleSize = sample.length - (sample.length % 16);
+      if (sampleSize === 0) {
+        callback(null);
+        return;
+      }
+
+      const aesCoder = folder.coders[order[0]];
+      this.decodeWithCodec(getCodec(aesCoder.id), sample.slice(0, sampleSize), aesCoder.properties, sampleSize, options, (err, decrypted) => {
+        if (err || !decrypted) {
+          callback(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+          return;
+        }
+        if (!isPlausibleCodecInput(folder.coders[order[1]].id, decrypted)) {
+          callback(createCodedError('Wrong password', ErrorCode.WRONG_PASSWORD));
+          return;
+        }
+        callback(null);
+      });
+    });
+  }
+
+  /**
+   * Check if a folder uses the AES codec
+   */
+  private folderHasAes(folder: { coders: { id: number[] }[] }): boolean {
+    for (let i = 0; i < folder.coders.length; i++) {
+      if (isAesCodec(folder.coders[i].id)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Get decompressed data for a folder, with smart caching for solid archives
    * Only caches when multiple files share a block, releases when last file extracted
    */
   private getDecompressedFolder(folderIndex: number, callback: BufferCallback): void {
-    if (this.decompressedCache[folderIndex]) {
-      callback(null, this.decompressedCache[folderIndex]);
+    const cached = this.decompressedCache.get(folderIndex);
+    if (cached) {
+      callback(null, cached);
       return;
     }
 
@@ -749,6 +1439,7 @@ export class SevenZipParser {
     }
 
     this.pendingFolders[folderIndex] = [callback];
+    this.decompressedCache.miss();
 
     this.decodeFolderData(folderIndex, (err, data) => {
       const waiters = this.pendingFolders[folderIndex] || [];
@@ -762,7 +1453,7 @@ export class SevenZipParser {
       }
 
       if (this.shouldCacheFolder(folderIndex)) {
-        this.decompressedCache[folderIndex] = data;
+        this.decompressedCache.set(folderIndex, data);
       }
 
       for (let i = 0; i < waiters.length; i++) {
@@ -788,22 +1479,70 @@ export class SevenZipParser {
       callback(createCodedError('Invalid folder index', ErrorCode.CORRUPT_HEADER));
       return;
     }
+    const folderSize = this.getFolderUnpackSize(folder);
+    if (folderSize > this.limits.maxFolderSize) {
+      callback(createCodedError(`Folder ${folderIndex} size ${folderSize} exceeds maxFolderSize (${this.limits.maxFolderSize}) for in-memory decoding`, ErrorCode.LIMIT_EXCEEDED));
+      return;
+    }
 
-    if (this.folderHasBcj2(folder)) {
-      this.decompressBcj2Folder(folderIndex, callback);
+    if (!this.folderHasAes(folder)) {
+      this.decodeFolderWithOptions(folderIndex, folder, this.passwords.getOptions(folderIndex), callback);
       return;
     }
 
-    const packDataResult = this.readPackedData(folderIndex);
-    if (packDataResult instanceof Error) {
-      callback(packDataResult);
+    // Encrypted folder - find its password first (may ask the password provider)
+    const check = (options: CodecOptions, cb: VoidCallback): void => this.checkFolderPassword(folderIndex, options, cb);
+    this.passwords.resolve(folderIndex, check, (err, options) => {
+      if (err || !options) {
+        callback(err || createCodedError('Encrypted data requires a password', ErrorCode.ENCRYPTED_ARCHIVE));
+        return;
+      }
+      this.decodeFolderWithOptions(folderIndex, folder, options, (decodeErr, data) => {
+        // The cheap check can pass a wrong password - forget it and ask again
+        if (decodeErr && (decodeErr as CodedError).code === ErrorCode.WRONG_PASSWORD && this.passwords.hasProvider()) {
+          this.passwords.reject(folderIndex);
+          this.decodeFolderData(folderIndex, callback);
+          return;
+        }
+        callback(decodeErr, data);
+      });
+    });
+  }
+
+  private decodeFolderWithOptions(folderIndex: number, folder: Folder, options: CodecOptions, callback: BufferCallback): void {
+    if (this.folderHasBcj2(folder)) {
+      this.decompressBcj2Folder(folderIndex, options, (err, data) => {
+        if (!err && data && this.progress) this.progress.decompressed(folderIndex, data.length);
+        callback(err, data);
+      });
       return;
     }
 
-    this.decodeFolderCoders(folder, packDataResult, 0, callback);
+    this.readPackedData(folderIndex, undefined, (err, packed) => {
+      if (err || !packed) {
+        callback(err);
+        return;
+      }
+      this.decodeFolderCoders(folderIndex, folder, packed, options, callback);
+    });
+  }
+
+  /**
+   * Read a folder's first pack stream (or its first maxLength bytes)
+   */
+  private readPackedData(folderIndex: number, maxLength: number | undefined, callback: ReadCallback): void {
+    const result = this.getPackedDataRange(folderIndex);
+    if (result instanceof Error) {
+      defer(() => callback(result));
+      return;
+    }
+    this.readSource(result.position, maxLength !== undefined ? Math.min(result.size, maxLength) : result.size, callback);
   }
 
-  private readPackedData(folderIndex: number): BufferLike | Error {
+  /**
+   * Position and size of a folder's first pack stream, validated against overflow
+   */
+  private getPackedDataRange(folderIndex: number): { position: number; size: number } | Error {
     if (!this.streamsInfo) {
       return createCodedError('No streams info available', ErrorCode.CORRUPT_HEADER);
     }
@@ -839,38 +1578,67 @@ export class SevenZipParser {
       return createCodedError(`Invalid pack position: ${packPos}`, ErrorCode.CORRUPT_ARCHIVE);
     }
 
-    return this.source.read(packPos, packSize);
+    return { position: packPos, size: packSize };
   }
 
-  private decodeFolderCoders(folder: { coders: { id: number[]; properties?: Buffer }[]; unpackSizes: number[] }, input: BufferLike, index: number, callback: BufferCallback): void {
-    if (index >= folder.coders.length) {
-      // Convert BufferList to Buffer for final output
-      callback(null, this.toBuffer(input));
-      return;
-    }
+  /**
+   * Run packed data through a folder's coder chain, following its bind pairs
+   */
+  private decodeFolderCoders(folderIndex: number, folder: Folder, input: BufferLike, options: CodecOptions, callback: BufferCallback): void {
+    const order = this.getCoderProcessOrder(folder, -1);
+    const encrypted = this.folderHasAes(folder);
+
+    const decodeNext = (index: number, data: BufferLike): void => {
+      if (index >= order.length) {
+        // Convert BufferList to Buffer for final output
+        const output = this.toBuffer(data);
+        if (this.progress && folderIndex >= 0) this.progress.decompressed(folderIndex, output.length);
+        callback(null, output);
+        return;
+      }
 
-    const coderInfo = folder.coders[index];
-    const codec = getCodec(coderInfo.id);
-    const unpackSize = folder.unpackSizes[index];
-    if (unpackSize < 0 || unpackSize > Number.MAX_SAFE_INTEGER) {
-      callback(createCodedError(`Invalid unpack size: ${unpackSize}`, ErrorCode.CORRUPT_ARCHIVE));
-      return;
-    }
+      const coderIdx = order[index];
+      const coderInfo = folder.coders[coderIdx];
+      let outputIdx = 0;
+      for (let i = 0; i < coderIdx; i++) {
+        outputIdx += folder.coders[i].numOutStreams;
+      }
+      const unpackSize = folder.unpackSizes[outputIdx];
+      if (unpackSize < 0 || unpackSize > Number.MAX_SAFE_INTEGER) {
+        callback(createCodedError(`Invalid unpack size: ${unpackSize}`, ErrorCode.CORRUPT_ARCHIVE));
+        return;
+      }
 
-    this.decodeWithCodec(codec, input, coderInfo.properties, unpackSize, (err, output) => {
-      if (err || !output) {
-        callback(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+      let codec: Codec;
+      try {
+        codec = getCodec(coderInfo.id);
+      } catch (err) {
+        callback(err as Error);
         return;
       }
-      this.decodeFolderCoders(folder, output, index + 1, callback);
-    });
+
+      this.decodeWithCodec(codec, data, coderInfo.properties, unpackSize, options, (err, output) => {
+        if (err || !output) {
+          // Garbage from a wrong key makes the decompressor after AES fail
+          if (encrypted && index > 0 && options.password) {
+            callback(createCodedError(`Wrong password - ${err ? err.message : 'decoder returned no data'}`, ErrorCode.WRONG_PASSWORD));
+            return;
+          }
+          callback(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
+          return;
+        }
+        decodeNext(index + 1, output);
+      });
+    };
+
+    decodeNext(0, input);
   }
 
   /**
    * Decompress a BCJ2 folder with multi-stream handling
    * BCJ2 uses 4 input streams: main, call, jump, range coder
    */
-  private decompressBcj2Folder(folderIndex: number, callback: BufferCallback): void {
+  private decompressBcj2Folder(folderIndex: number, options: CodecOptions, callback: BufferCallback): void {
     if (!this.streamsInfo) {
       callback(createCodedError('No streams info available', ErrorCode.CORRUPT_HEADER));
       return;
@@ -892,14 +1660,30 @@ export class SevenZipParser {
     }
 
     const numPackStreams = folder.packedStreams.length;
+    const packSizes = this.streamsInfo.packSizes;
     const packStreams: BufferLike[] = [];
-    let currentPos = packPos;
-    for (let p = 0; p < numPackStreams; p++) {
-      const size = this.streamsInfo.packSizes[packStreamIndex + p];
-      packStreams.push(this.source.read(currentPos, size));
-      currentPos += size;
-    }
+    const readPackStream = (p: number, position: number): void => {
+      if (p >= numPackStreams) {
+        this.decodeBcj2Streams(folder, packStreams, options, callback);
+        return;
+      }
+      const size = packSizes[packStreamIndex + p];
+      this.readSource(position, size, (err, data) => {
+        if (err || !data) {
+          callback(err);
+          return;
+        }
+        packStreams.push(data);
+        readPackStream(p + 1, position + size);
+      });
+    };
+    readPackStream(0, packPos);
+  }
 
+  /**
+   * Decode the coders feeding a BCJ2 folder's inputs, then combine them
+   */
+  private decodeBcj2Streams(folder: Folder, packStreams: BufferLike[], options: CodecOptions, callback: BufferCallback): void {
     const coderOutputs: { [key: number]: Buffer } = {};
     let bcj2CoderIndex = -1;
     for (let c = 0; c < folder.coders.length; c++) {
@@ -944,7 +1728,7 @@ export class SevenZipParser {
       const inputData = packStreams[packStreamIdx];
       const unpackSize = folder.unpackSizes[coderIdx];
 
-      this.decodeWithCodec(codec, inputData, coder.properties, unpackSize, (err, outputData) => {
+      this.decodeWithCodec(codec, inputData, coder.properties, unpackSize, options, (err, outputData) => {
         if (err || !outputData) {
           callback(err || createCodedError('Decoder returned no data', ErrorCode.DECOMPRESSION_FAILED));
           return;
@@ -1068,6 +1852,36 @@ export class SevenZipParser {
     return order;
   }
 
+  /**
+   * Scan past a self-extractor stub for an embedded signature header.
+   * Candidates must pass the start header CRC and point inside the source.
+   * Calls back with the offset of the signature header, or -1 if none is found
+   */
+  private findSfxOffset(callback: (error: Error | null, offset?: number) => void): void {
+    const size = this.source.getSize();
+    const limit = Math.min(size, SFX_MAX_STUB_SIZE + SIGNATURE_HEADER_SIZE);
+    const chunkSize = 65536;
+
+    // Overlap chunks so a signature header spanning a boundary is still seen
+    const scan = (chunkStart: number): void => {
+      if (chunkStart >= limit) return callback(null, -1);
+      this.readSource(chunkStart, Math.min(chunkSize + SIGNATURE_HEADER_SIZE - 1, limit - chunkStart), (err, data) => {
+        if (err || !data) return callback(err);
+        const chunk = this.toBuffer(data);
+        let index = findSignatureHeader(chunk, chunkStart === 0 ? 1 : 0);
+        while (index >= 0 && index < chunkSize) {
+          const offset = chunkStart + index;
+          const signature = parseSignatureHeader(chunk.slice(index, index + SIGNATURE_HEADER_SIZE));
+          if (offset + SIGNATURE_HEADER_SIZE + signature.nextHeaderOffset + signature.nextHeaderSize <= size) return callback(null, offset);
+          index = findSignatureHeader(chunk, index + 1);
+        }
+        scan(chunkStart + chunkSize);
+      });
+    };
+
+    scan(0);
+  }
+
   /**
    * Close the parser and release resources
    */
@@ -1108,14 +1922,23 @@ export class SevenZipParser {
     if (key === '3-3-1-3') return true;
 
     // BCJ ARM - now uses streaming Transform (Phase 3.5)
-    if (key === '3-3-1-5') return true;
+    if (key === '3-3-5-1') return true;
+
+    // BCJ PPC, IA64, ARMT, SPARC, ARM64 - branch converters hold back instructions cut by a chunk boundary
+    if (key === '3-3-2-5' || key === '3-3-4-1' || key === '3-3-7-1' || key === '3-3-8-5' || key === '3-3-A-1') return true;
 
     // LZMA2 - now uses streaming Transform (Phase 5)
     if (key === '21') return true;
 
-    // LZMA - still buffer-based (cannot stream - no chunk boundaries in LZMA1 format)
-    // Other BCJ variants (ARM64, ARMT, IA64, PPC, SPARC) - still buffer-based
-    // BCJ2 - multi-stream architecture, never streamable
+    // PPMd - decodes symbols as input arrives
+    if (key === '3-4-1') return true;
+
+    // LZMA - decodes symbols as input arrives, dictionary kept between chunks
+    if (key === '3-1-1') return true;
+
+    // BCJ2 - decodes as its four inputs arrive, each read through its own coder chain
+    if (key === '3-3-1-1B') return true;
+
     return false;
   }
 
@@ -1123,7 +1946,6 @@ export class SevenZipParser {
    * Check if a folder can be streamed (vs buffered).
    *
    * Streaming is possible when ALL codecs in the chain support streaming.
-   * BCJ2 folders are never streamable due to their 4-stream architecture.
    *
    * @param folderIndex - Index of the folder to check
    * @returns true if the folder can be streamed
@@ -1134,11 +1956,6 @@ export class SevenZipParser {
     const folder = this.streamsInfo.folders[folderIndex];
     if (!folder) return false;
 
-    // BCJ2 requires special multi-stream handling - not streamable
-    if (this.folderHasBcj2(folder)) {
-      return false;
-    }
-
     // Check if ALL codecs in chain support streaming
     for (let i = 0; i < folder.coders.length; i++) {
       if (!this.codecSupportsStreaming(folder.coders[i].id)) {
@@ -1152,7 +1969,9 @@ export class SevenZipParser {
   /**
    * Stream a folder's decompression.
    *
-   * Creates a pipeline: packed data → codec decoders → output stream
+   * Creates a pipeline: packed data → codec decoders → output stream.
+   * Coders are connected by the folder's bind pairs, so BCJ2 reads its packed
+   * streams in parallel and decodes them as they arrive.
    *
    * @param folderIndex - Index of folder to decompress
    * @returns Object with output stream and control methods
@@ -1171,53 +1990,106 @@ export class SevenZipParser {
       throw createCodedError('Folder does not support streaming', ErrorCode.UNSUPPORTED_CODEC);
     }
 
-    const folder = this.streamsInfo.folders[folderIndex];
-
-    // Calculate packed data position
-    let packPos = SIGNATURE_HEADER_SIZE + this.streamsInfo.packPos;
+    const streamsInfo = this.streamsInfo;
+    const folder = streamsInfo.folders[folderIndex];
+    const options = this.passwords.getOptions(folderIndex);
 
-    // Find which pack stream this folder uses
+    // Find which pack stream this folder uses and where it starts
+    let packPos = SIGNATURE_HEADER_SIZE + streamsInfo.packPos;
     let packStreamIndex = 0;
     for (let j = 0; j < folderIndex; j++) {
-      packStreamIndex += this.streamsInfo.folders[j].packedStreams.length;
+      packStreamIndex += streamsInfo.folders[j].packedStreams.length;
     }
-
-    // Calculate position of this pack stream
     for (let k = 0; k < packStreamIndex; k++) {
-      packPos += this.streamsInfo.packSizes[k];
+      packPos += streamsInfo.packSizes[k];
     }
 
-    const packSize = this.streamsInfo.packSizes[packStreamIndex];
+    const packedStreams: Readable[] = [];
+    const decoders: Stream.Transform[] = [];
+    const combiners: ReturnType<typeof createBcj2MultiStream>[] = [];
 
-    // Create readable stream from packed data
-    const packedStream = this.source.createReadStream(packPos, packSize);
+    // Coder input: the output of the coder bound to it, or a packed stream read from the source
+    const openInput = (inIndex: number): Readable => {
+      for (let bp = 0; bp < folder.bindPairs.length; bp++) {
+        if (folder.bindPairs[bp].inIndex === inIndex) return openOutput(folder.bindPairs[bp].outIndex);
+      }
+      let position = packPos;
+      for (let p = 0; p < folder.packedStreams.length; p++) {
+        const size = streamsInfo.packSizes[packStreamIndex + p];
+        if (folder.packedStreams[p] === inIndex) {
+          const packedStream = this.source.createReadStream(position, size);
+          packedStreams.push(packedStream);
+          return packedStream;
+        }
+        position += size;
+      }
+      throw createCodedError(`Coder input ${inIndex} is not bound`, ErrorCode.CORRUPT_HEADER);
+    };
 
-    // Build codec pipeline
-    let stream: Readable = packedStream;
-    const decoders: Stream.Transform[] = [];
+    // Coder output: its decoder piped from its input, or BCJ2 combining its four inputs read in parallel
+    const openOutput = (outIndex: number): Readable => {
+      let inStart = 0;
+      let outStart = 0;
+      for (let c = 0; c < folder.coders.length; c++) {
+        const coderInfo = folder.coders[c];
+        if (outIndex < outStart + coderInfo.numOutStreams) {
+          const unpackSize = folder.unpackSizes[outIndex];
+          if (isBcj2Codec(coderInfo.id)) {
+            const inputs: Readable[] = [];
+            for (let k = 0; k < coderInfo.numInStreams; k++) inputs.push(openInput(inStart + k));
+            const combiner = createBcj2MultiStream(inputs, unpackSize);
+            combiners.push(combiner);
+            return combiner.output;
+          }
+          const decoder = getCodec(coderInfo.id).createDecoder(coderInfo.properties, unpackSize, options);
+          decoders.push(decoder);
+          return openInput(inStart).pipe(decoder);
+        }
+        inStart += coderInfo.numInStreams;
+        outStart += coderInfo.numOutStreams;
+      }
+      throw createCodedError(`Coder output ${outIndex} not found`, ErrorCode.CORRUPT_HEADER);
+    };
 
-    for (let i = 0; i < folder.coders.length; i++) {
-      const coderInfo = folder.coders[i];
-      const codec = getCodec(coderInfo.id);
-      const unpackSize = folder.unpackSizes[i];
-      const decoder = codec.createDecoder(coderInfo.properties, unpackSize);
-      decoders.push(decoder);
-      stream = stream.pipe(decoder);
+    const stream = openOutput(this.getFolderOutputIndex(folder));
+
+    const progress = this.progress;
+    if (progress) {
+      for (let i = 0; i < packedStreams.length; i++) packedStreams[i].on('data', (chunk: Buffer) => progress.read(chunk.length));
+      stream.on('data', (chunk: Buffer) => progress.decompressed(folderIndex, chunk.length));
     }
 
+    // The limits were checked against the declared size - stop a folder that decompresses past it
+    const folderSize = this.getFolderUnpackSize(folder);
+    let outputSize = 0;
+    stream.on('data', (chunk: Buffer) => {
+      outputSize += chunk.length;
+      if (outputSize > folderSize) destroy(createCodedError(`Folder ${folderIndex} decompressed past its declared size ${folderSize}`, ErrorCode.LIMIT_EXCEEDED));
+    });
+
+    const destroy = (err?: Error): void => {
+      unsubscribe();
+      // Check for destroy method existence (not available in Node 4 and earlier)
+      // Only the output gets the error - nothing listens for errors on the streams ahead of it
+      const streams = (packedStreams as NodeJS.ReadableStream[]).concat(decoders);
+      if (streams.indexOf(stream) < 0) streams.push(stream);
+      for (let i = 0; i < streams.length; i++) {
+        const s = streams[i] as NodeJS.ReadableStream & { destroy?: (err?: Error) => void };
+        if (typeof s.destroy === 'function') s.destroy(s === stream ? err : undefined);
+      }
+    };
+
+    // Abort tears the pipeline down - the output emits the AbortError
+    const unsubscribe = onAbort(this.signal, () => destroy(createAbortError()));
+    oo(stream, ['end', 'error', 'close'], unsubscribe);
+    if (this.isAborted()) defer(() => destroy(createAbortError()));
+
     return {
       output: stream,
-      pause: () => packedStream.pause(),
-      resume: () => packedStream.resume(),
-      destroy: (err?: Error) => {
-        // Check for destroy method existence (not available in Node 4 and earlier)
-        const ps = packedStream as NodeJS.ReadableStream & { destroy?: (err?: Error) => void };
-        if (typeof ps.destroy === 'function') ps.destroy(err);
-        for (let i = 0; i < decoders.length; i++) {
-          const d = decoders[i] as NodeJS.ReadableStream & { destroy?: (err?: Error) => void };
-          if (typeof d.destroy === 'function') d.destroy(err);
-        }
-      },
+      // BCJ2 paces its own inputs - pause it rather than a single packed stream
+      pause: () => (combiners.length ? combiners[0].pause() : packedStreams[0].pause()),
+      resume: () => (combiners.length ? combiners[0].resume() : packedStreams[0].resume()),
+      destroy: destroy,
     };
   }
 
@@ -1263,6 +2135,7 @@ export class SevenZipParser {
       const outputStream = new PassThrough();
       let crcValue = 0;
       const verifyCrc = entry._crc !== undefined;
+      let waitingForDrain = false;
 
       try {
         const folderStream = this.streamFolder(entry._folderIndex);
@@ -1273,16 +2146,20 @@ export class SevenZipParser {
           }
 
           // Handle backpressure
-          if (!outputStream.write(chunk)) {
+          if (!outputStream.write(chunk) && !waitingForDrain) {
+            waitingForDrain = true;
             folderStream.pause();
-            outputStream.once('drain', () => folderStream.resume());
+            outputStream.once('drain', () => {
+              waitingForDrain = false;
+              folderStream.resume();
+            });
           }
         });
 
         folderStream.output.on('end', () => {
           // Verify CRC
           if (verifyCrc && crcValue !== entry._crc) {
-            const err = createCodedError(`CRC mismatch for ${entry.path}: expected ${entry._crc?.toString(16)}, got ${crcValue.toString(16)}`, ErrorCode.CRC_MISMATCH);
+            const err = this.crcMismatchError(entry, crcValue);
             outputStream.destroy(err);
             return;
           }
@@ -1352,8 +2229,9 @@ export class SevenZipParser {
           delete this.folderSplitters[folderIndex];
         });
 
-        folderStream.output.on('error', (_err: Error) => {
-          splitter?.end();
+        folderStream.output.on('error', (err: Error) => {
+          // Fail the pending file streams (e.g. AbortError) rather than ending them short
+          splitter?.destroy(err);
           delete this.folderSplitters[folderIndex];
         });
       }
@@ -1407,6 +2285,13 @@ export class SevenZipParser {
   }
 }
 
+/**
+ * Normalize an entry path for lookups: either separator, no empty segments
+ */
+function normalizeEntryPath(entryPath: string): string {
+  return entryPath.split(/[\\/]/).filter(Boolean).join('/');
+}
+
 /**
  * Get base name from a path
  */
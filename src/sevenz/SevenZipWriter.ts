@@ -0,0 +1,390 @@
+/**
+ * SevenZipWriter - Creates 7z archives
+ *
+ * Writer Flow:
+ * 1. Collect entries (directories, files, symlinks)
+ * 2. Group file contents into folders (one solid folder, or one folder per file)
+ * 3. Encode each folder with its coder (Copy or LZMA2)
+ * 4. Write signature header, packed streams, then a plain kHeader
+ *
+ * Symlinks are stored the way p7zip stores them (-snl): a regular stream
+ * holding the link target, with S_IFLNK in the Unix extension attribute bits.
+ */
+
+import { allocBuffer, bufferFrom, crc32, writeUInt64LE } from 'extract-base-iterator';
+import fs from 'fs';
+import { encodeLzma2 } from './codecs/Lzma2Encoder.ts';
+import { CodecId, createCodedError, ErrorCode, FileAttribute, PropertyId, SEVENZ_MAGIC, SIGNATURE_HEADER_SIZE, UnixMode } from './constants.ts';
+import { writeNumber } from './NumberCodec.ts';
+
+export type WriterMethod = 'copy' | 'lzma2';
+
+export interface SevenZipWriterOptions {
+  /** Coder used for file contents (default: 'lzma2') */
+  method?: WriterMethod;
+  /** Store all file contents in a single folder (default: true) */
+  solid?: boolean;
+  /** LZMA2 dictionary size in bytes (default: 1MB, clamped to the data size) */
+  dictionarySize?: number;
+}
+
+interface WriterEntryBase {
+  path: string;
+  mtime?: Date | number;
+  mode?: number;
+}
+
+export interface WriterDirectoryEntry extends WriterEntryBase {
+  type: 'directory';
+}
+
+export interface WriterFileEntry extends WriterEntryBase {
+  type: 'file';
+  data: Buffer | string;
+}
+
+export interface WriterSymbolicLinkEntry extends WriterEntryBase {
+  type: 'symlink';
+  linkpath: string;
+}
+
+// Entry union mirroring the iterator's DirectoryEntry | FileEntry | SymbolicLinkEntry
+export type WriterEntry = WriterDirectoryEntry | WriterFileEntry | WriterSymbolicLinkEntry;
+
+type BufferCallback = (error: Error | null, data?: Buffer) => void;
+type WriteCallback = (error: Error | null) => void;
+
+// Normalized entry ready for serialization
+interface PendingFile {
+  name: string;
+  isDirectory: boolean;
+  data: Buffer | null; // null for directories and empty files
+  mtime?: Date;
+  attributes: number;
+}
+
+interface PackedFolder {
+  packed: Buffer;
+  coderId: number[];
+  properties?: Buffer;
+  unpackSize: number;
+  streamSizes: number[];
+  streamCRCs: number[];
+}
+
+/**
+ * SevenZipWriter - builds 7z archives in memory
+ */
+export class SevenZipWriter {
+  private method: WriterMethod;
+  private solid: boolean;
+  private dictionarySize: number | undefined;
+  private files: PendingFile[] = [];
+
+  constructor(options: SevenZipWriterOptions = {}) {
+    this.method = options.method || 'lzma2';
+    this.solid = options.solid !== undefined ? options.solid : true;
+    this.dictionarySize = options.dictionarySize;
+
+    if (this.method !== 'copy' && this.method !== 'lzma2') {
+      throw createCodedError(`Unsupported method: ${this.method}`, ErrorCode.UNSUPPORTED_CODEC);
+    }
+  }
+
+  /**
+   * Add an entry to the archive. Entries are written in the order they are added.
+   */
+  add(entry: WriterEntry): this {
+    const name = normalizeName(entry.path);
+    if (!name) {
+      throw createCodedError('Entry path is empty', ErrorCode.UNSUPPORTED_FEATURE);
+    }
+    const mtime = entry.mtime === undefined ? undefined : typeof entry.mtime === 'number' ? new Date(entry.mtime) : entry.mtime;
+
+    switch (entry.type) {
+      case 'directory':
+        this.files.push({ name: name, isDirectory: true, data: null, mtime: mtime, attributes: unixAttributes(FileAttribute.DIRECTORY, UnixMode.DIR, entry.mode, UnixMode.DEFAULT_DIR) });
+        break;
+      case 'file': {
+        const data = typeof entry.data === 'string' ? bufferFrom(entry.data, 'utf8') : entry.data;
+        this.files.push({ name: name, isDirectory: false, data: data.length ? data : null, mtime: mtime, attributes: unixAttributes(FileAttribute.ARCHIVE, UnixMode.FILE, entry.mode, UnixMode.DEFAULT_FILE) });
+        break;
+      }
+      case 'symlink': {
+        const target = bufferFrom(entry.linkpath, 'utf8');
+        this.files.push({ name: name, isDirectory: false, data: target.length ? target : null, mtime: mtime, attributes: unixAttributes(FileAttribute.ARCHIVE, UnixMode.SYMLINK, entry.mode, UnixMode.RWXRWXRWX) });
+        break;
+      }
+      default:
+        throw createCodedError(`Unsupported entry type: ${(entry as { type: string }).type}`, ErrorCode.UNSUPPORTED_FEATURE);
+    }
+    return this;
+  }
+
+  /**
+   * Build the archive
+   */
+  toBuffer(callback?: BufferCallback): Promise<Buffer> | void {
+    if (typeof callback === 'function') return this.toBufferInternal(callback);
+    return new Promise<Buffer>((resolve, reject) => this.toBufferInternal((err, data) => (err ? reject(err) : resolve(data))));
+  }
+
+  /**
+   * Build the archive and write it to a file
+   */
+  writeFile(dest: string, callback?: WriteCallback): Promise<void> | void {
+    if (typeof callback === 'function') {
+      this.toBufferInternal((err, data) => {
+        if (err) return callback(err);
+        fs.writeFile(dest, data, (writeErr) => callback(writeErr || null));
+      });
+      return;
+    }
+    return new Promise<void>((resolve, reject) => this.writeFile(dest, (err) => (err ? reject(err) : resolve())));
+  }
+
+  private toBufferInternal(callback: BufferCallback): void {
+    let archive: Buffer;
+    try {
+      const folders = this.packFolders();
+      const header = this.buildHeader(folders);
+
+      let packedSize = 0;
+      for (let i = 0; i < folders.length; i++) packedSize += folders[i].packed.length;
+
+      const parts: Buffer[] = [buildSignatureHeader(packedSize, header)];
+      for (let i = 0; i < folders.length; i++) parts.push(folders[i].packed);
+      parts.push(header);
+      archive = Buffer.concat(parts);
+    } catch (err) {
+      callback(err as Error);
+      return;
+    }
+    callback(null, archive);
+  }
+
+  /**
+   * Group file contents into folders and encode them
+   */
+  private packFolders(): PackedFolder[] {
+    const groups: Buffer[][] = [];
+    for (let i = 0; i < this.files.length; i++) {
+      const data = this.files[i].data;
+      if (!data) continue;
+      if (this.solid && groups.length) groups[0].push(data);
+      else groups.push([data]);
+    }
+
+    const folders: PackedFolder[] = [];
+    for (let g = 0; g < groups.length; g++) {
+      const streams = groups[g];
+      const streamSizes: number[] = [];
+      const streamCRCs: number[] = [];
+      for (let s = 0; s < streams.length; s++) {
+        streamSizes.push(streams[s].length);
+        streamCRCs.push(crc32(streams[s]));
+      }
+      const unpacked = streams.length === 1 ? streams[0] : Buffer.concat(streams);
+
+      if (this.method === 'lzma2') {
+        const encoded = encodeLzma2(unpacked, this.dictionarySize);
+        folders.push({ packed: encoded.data, coderId: CodecId.LZMA2, properties: encoded.properties, unpackSize: unpacked.length, streamSizes: streamSizes, streamCRCs: streamCRCs });
+      } else {
+        folders.push({ packed: unpacked, coderId: CodecId.COPY, unpackSize: unpacked.length, streamSizes: streamSizes, streamCRCs: streamCRCs });
+      }
+    }
+    return folders;
+  }
+
+  /**
+   * Serialize the kHeader block
+   */
+  private buildHeader(folders: PackedFolder[]): Buffer {
+    const out: Buffer[] = [];
+    out.push(byte(PropertyId.kHeader));
+    if (folders.length) writeStreamsInfo(out, folders);
+    if (this.files.length) writeFilesInfo(out, this.files);
+    out.push(byte(PropertyId.kEnd));
+    return Buffer.concat(out);
+  }
+}
+
+/**
+ * Write kMainStreamsInfo: PackInfo, UnpackInfo (folders) and SubStreamsInfo (per-file sizes and CRCs)
+ */
+function writeStreamsInfo(out: Buffer[], folders: PackedFolder[]): void {
+  out.push(byte(PropertyId.kMainStreamsInfo));
+
+  // PackInfo - one pack stream per folder, starting right after the signature header
+  out.push(byte(PropertyId.kPackInfo), writeNumber(0), writeNumber(folders.length));
+  out.push(byte(PropertyId.kSize));
+  for (let i = 0; i < folders.length; i++) out.push(writeNumber(folders[i].packed.length));
+  out.push(byte(PropertyId.kEnd));
+
+  // UnpackInfo - single-coder folders
+  out.push(byte(PropertyId.kUnpackInfo), byte(PropertyId.kFolder), writeNumber(folders.length), byte(0));
+  for (let i = 0; i < folders.length; i++) {
+    const folder = folders[i];
+    out.push(writeNumber(1));
+    out.push(byte(folder.coderId.length | (folder.properties ? 0x20 : 0)), bufferFrom(folder.coderId));
+    if (folder.properties) out.push(writeNumber(folder.properties.length), folder.properties);
+  }
+  out.push(byte(PropertyId.kCodersUnpackSize));
+  for (let i = 0; i < folders.length; i++) out.push(writeNumber(folders[i].unpackSize));
+  out.push(byte(PropertyId.kEnd));
+
+  // SubStreamsInfo - file boundaries inside folders and their CRCs
+  out.push(byte(PropertyId.kSubStreamsInfo));
+  let hasMultiStream = false;
+  for (let i = 0; i < folders.length; i++) {
+    if (folders[i].streamSizes.length !== 1) hasMultiStream = true;
+  }
+  if (hasMultiStream) {
+    out.push(byte(PropertyId.kNumUnpackStream));
+    for (let i = 0; i < folders.length; i++) out.push(writeNumber(folders[i].streamSizes.length));
+    out.push(byte(PropertyId.kSize));
+    for (let i = 0; i < folders.length; i++) {
+      const sizes = folders[i].streamSizes;
+      // Last size in each folder is implied by the folder unpack size
+      for (let s = 0; s < sizes.length - 1; s++) out.push(writeNumber(sizes[s]));
+    }
+  }
+  out.push(byte(PropertyId.kCRC), byte(1));
+  for (let i = 0; i < folders.length; i++) {
+    const crcs = folders[i].streamCRCs;
+    for (let s = 0; s < crcs.length; s++) out.push(uint32(crcs[s]));
+  }
+  out.push(byte(PropertyId.kEnd));
+
+  out.push(byte(PropertyId.kEnd));
+}
+
+/**
+ * Write kFilesInfo: empty stream/file vectors, names, modification times and attributes
+ */
+function writeFilesInfo(out: Buffer[], files: PendingFile[]): void {
+  out.push(byte(PropertyId.kFilesInfo), writeNumber(files.length));
+
+  const emptyStream: boolean[] = [];
+  const emptyFile: boolean[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const isEmpty = !files[i].data;
+    emptyStream.push(isEmpty);
+    if (isEmpty) emptyFile.push(!files[i].isDirectory);
+  }
+  if (emptyFile.length) {
+    writeProperty(out, PropertyId.kEmptyStream, boolVector(emptyStream));
+    let anyEmptyFile = false;
+    for (let i = 0; i < emptyFile.length; i++) {
+      if (emptyFile[i]) anyEmptyFile = true;
+    }
+    if (anyEmptyFile) writeProperty(out, PropertyId.kEmptyFile, boolVector(emptyFile));
+  }
+
+  // Names - external flag, then null-terminated UTF-16LE strings
+  const names: Buffer[] = [byte(0)];
+  for (let i = 0; i < files.length; i++) names.push(utf16le(files[i].name));
+  writeProperty(out, PropertyId.kName, Buffer.concat(names));
+
+  // Modification times - defined vector, external flag, then FILETIME values
+  const timeDefined: boolean[] = [];
+  const times: Buffer[] = [];
+  for (let i = 0; i < files.length; i++) {
+    const mtime = files[i].mtime;
+    timeDefined.push(mtime !== undefined);
+    if (mtime !== undefined) {
+      const filetime = allocBuffer(8);
+      writeUInt64LE(filetime, (mtime.getTime() + 11644473600000) * 10000, 0);
+      times.push(filetime);
+    }
+  }
+  if (times.length) writeProperty(out, PropertyId.kMTime, Buffer.concat([definedVector(timeDefined), byte(0)].concat(times)));
+
+  // Attributes - all defined, external flag, then 32-bit values
+  const attributes: Buffer[] = [byte(1), byte(0)];
+  for (let i = 0; i < files.length; i++) attributes.push(uint32(files[i].attributes));
+  writeProperty(out, PropertyId.kWinAttributes, Buffer.concat(attributes));
+
+  out.push(byte(PropertyId.kEnd));
+}
+
+/**
+ * Build the 32-byte signature header pointing at the header after the packed streams
+ */
+function buildSignatureHeader(packedSize: number, header: Buffer): Buffer {
+  const buf = allocBuffer(SIGNATURE_HEADER_SIZE);
+  for (let i = 0; i < SEVENZ_MAGIC.length; i++) buf[i] = SEVENZ_MAGIC[i];
+  buf[6] = 0; // major version
+  buf[7] = 4; // minor version
+  writeUInt64LE(buf, packedSize, 12);
+  writeUInt64LE(buf, header.length, 20);
+  buf.writeUInt32LE(crc32(header), 28);
+  buf.writeUInt32LE(crc32(buf.slice(12, 32)), 8);
+  return buf;
+}
+
+function writeProperty(out: Buffer[], propertyId: number, data: Buffer): void {
+  out.push(byte(propertyId), writeNumber(data.length), data);
+}
+
+/**
+ * Bit-packed boolean vector (MSB first), as read by readBoolVector
+ */
+function boolVector(values: boolean[]): Buffer {
+  const buf = allocBuffer(Math.ceil(values.length / 8));
+  for (let i = 0; i < values.length; i++) {
+    if (values[i]) buf[i >>> 3] |= 0x80 >>> (i & 7);
+  }
+  return buf;
+}
+
+/**
+ * Defined vector: allDefined byte, followed by a bit vector when some are missing
+ */
+function definedVector(values: boolean[]): Buffer {
+  for (let i = 0; i < values.length; i++) {
+    if (!values[i]) return Buffer.concat([byte(0), boolVector(values)]);
+  }
+  return byte(1);
+}
+
+function utf16le(str: string): Buffer {
+  const buf = allocBuffer((str.length + 1) * 2);
+  for (let i = 0; i < str.length; i++) buf.writeUInt16LE(str.charCodeAt(i), i * 2);
+  return buf;
+}
+
+function byte(value: number): Buffer {
+  return bufferFrom([value]);
+}
+
+function uint32(value: number): Buffer {
+  const buf = allocBuffer(4);
+  buf.writeUInt32LE(value >>> 0, 0);
+  return buf;
+}
+
+/**
+ * Windows attributes with the Unix extension: high 16 bits hold st_mode
+ */
+function unixAttributes(winAttributes: number, fileType: number, mode: number | undefined, defaultMode: number): number {
+  const permissions = (mode !== undefined ? mode : defaultMode) & 4095; // 0o7777
+  return (winAttributes | FileAttribute.UNIX_EXTENSION | ((fileType | permissions) << 16)) >>> 0;
+}
+
+/**
+ * Archive names use '/' separators and are relative - absolute paths, drive letters
+ * and '..' segments throw UNSAFE_PATH
+ */
+function normalizeName(name: string): string {
+  const parts = name.replace(/\\/g, '/').split('/');
+  if ((parts.length > 1 && parts[0] === '') || /^[a-zA-Z]:/.test(parts[0])) {
+    throw createCodedError(`Unsafe entry path (absolute): ${name}`, ErrorCode.UNSAFE_PATH);
+  }
+  const result: string[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    if (parts[i] === '..') throw createCodedError(`Unsafe entry path (parent segment): ${name}`, ErrorCode.UNSAFE_PATH);
+    if (parts[i] && parts[i] !== '.') result.push(parts[i]);
+  }
+  return result.join('/');
+}
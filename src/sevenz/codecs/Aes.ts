@@ -18,23 +18,7 @@ import crypto from 'crypto';
 import { allocBuffer, bufferFrom } from 'extract-base-iterator';
 import type { Transform } from 'stream';
 import createBufferingDecoder from './createBufferingDecoder.ts';
-
-// Global password storage - set before decryption
-let _password: string | null = null;
-
-/**
- * Set the password for AES decryption
- */
-export function setPassword(password: string | null): void {
-  _password = password;
-}
-
-/**
- * Get the current password
- */
-export function getPassword(): string | null {
-  return _password;
-}
+import type { CodecOptions } from './index.ts';
 
 /**
  * Parse AES properties to extract key derivation parameters
@@ -158,16 +142,34 @@ function deriveKey(password: string, salt: Buffer, numCyclesPower: number): Buff
   return hash.digest() as Buffer;
 }
 
+/**
+ * Derive the key, reusing a previous derivation for the same salt and cycle count
+ * Folders in one archive usually share these, so the cache saves 2^19 SHA-256 rounds per folder
+ */
+function getKey(options: CodecOptions, password: string, salt: Buffer, numCyclesPower: number): Buffer {
+  if (!options.keyCache) return deriveKey(password, salt, numCyclesPower);
+
+  const cacheKey = `${numCyclesPower}:${salt.toString('hex')}`;
+  let key = options.keyCache[cacheKey];
+  if (!key) {
+    key = deriveKey(password, salt, numCyclesPower);
+    options.keyCache[cacheKey] = key;
+  }
+  return key;
+}
+
 /**
  * Decode AES-256-CBC encrypted data
  *
  * @param input - Encrypted data
  * @param properties - AES properties (numCyclesPower, salt, IV)
  * @param _unpackSize - Unused
+ * @param options - Per-archive password and key cache
  * @returns Decrypted data
  */
-export function decodeAes(input: Buffer, properties?: Buffer, _unpackSize?: number): Buffer {
-  if (!_password) {
+export function decodeAes(input: Buffer, properties?: Buffer, _unpackSize?: number, options?: CodecOptions): Buffer {
+  const password = options ? options.password : null;
+  if (!password) {
     throw new Error('AES: password required but not set');
   }
 
@@ -176,7 +178,7 @@ export function decodeAes(input: Buffer, properties?: Buffer, _unpackSize?: numb
   }
 
   const params = parseProperties(properties);
-  const key = deriveKey(_password, params.salt, params.numCyclesPower);
+  const key = getKey(options as CodecOptions, password, params.salt, params.numCyclesPower);
 
   // Create AES-256-CBC decipher
   const decipher = crypto.createDecipheriv('aes-256-cbc', key, params.iv);
@@ -194,6 +196,6 @@ export function decodeAes(input: Buffer, properties?: Buffer, _unpackSize?: numb
 /**
  * Create an AES decoder Transform stream
  */
-export function createAesDecoder(properties?: Buffer, unpackSize?: number): Transform {
-  return createBufferingDecoder(decodeAes, properties, unpackSize);
+export function createAesDecoder(properties?: Buffer, unpackSize?: number, options?: CodecOptions): Transform {
+  return createBufferingDecoder((input, props, size) => decodeAes(input, props, size, options), properties, unpackSize);
 }
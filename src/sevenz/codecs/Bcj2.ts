@@ -5,11 +5,16 @@
 // Stream layout:
 //   Stream 0: Main data (contains literals and branch opcode markers)
 //   Stream 1: CALL addresses (for 0xE8 instructions)
-//   Stream 2: JUMP addresses (for 0xE9 instructions)
+//   Stream 2: JUMP addresses (for 0xE9 and 0x0F 0x8x instructions)
 //   Stream 3: Range coder data (probability decisions)
+//
+// The decoder is a resumable state machine: input for each stream is pushed as it
+// arrives and decoding stops at the first byte it would need from a stream that
+// has none buffered, so the four streams can be read in parallel.
 
-import { allocBuffer } from 'extract-base-iterator';
-import type { Transform } from 'stream';
+import { allocBuffer, PassThrough } from 'extract-base-iterator';
+import type { Readable, Transform } from 'stream';
+import { createCodedError, ErrorCode } from '../constants.ts';
 import createBufferingDecoder from './createBufferingDecoder.ts';
 
 // Range coder constants
@@ -19,66 +24,181 @@ const kBitModelTotal = 1 << kNumBitModelTotalBits;
 const kNumMoveBits = 5;
 
 // Number of probability models:
-// Index 0: conditional jumps (0x0F 0x80-0x8F)
-// Index 1: JMP (0xE9)
-// Indices 2-257: CALL (0xE8), indexed by previous byte
+// Indices 0-255: CALL (0xE8), indexed by previous byte
+// Index 256: JMP (0xE9)
+// Index 257: conditional jumps (0x0F 0x80-0x8F)
 const kNumProbs = 258;
 
-/**
- * Range decoder state
- */
-interface RangeDecoder {
-  range: number;
-  code: number;
-  stream: Buffer;
-  pos: number;
+// Stream indexes
+const MAIN = 0;
+const CALL = 1;
+const JUMP = 2;
+const RC = 3;
+
+const OUTPUT_CHUNK_SIZE = 65536;
+// An input is paused once this much of it is buffered while the decoder waits on another
+const INPUT_HIGH_WATER = 1 << 20;
+
+function isJump(b0: number, b1: number): boolean {
+  return (b1 & 0xfe) === 0xe8 || (b0 === 0x0f && (b1 & 0xf0) === 0x80);
 }
 
 /**
- * Initialize range decoder
+ * BCJ2 range decoder, probability models and input queues
  */
-function initRangeDecoder(stream: Buffer): RangeDecoder {
-  const rd: RangeDecoder = {
-    range: 0xffffffff,
-    code: 0,
-    stream: stream,
-    pos: 0,
-  };
+class Bcj2Decoder {
+  private unpackSize: number;
+  private probs: number[] = [];
+  private range = 0xffffffff;
+  private code = 0;
+  private initialized = false;
+  private prevByte = 0;
+  private outPos = 0;
+  // Address stream (CALL or JUMP) owed 4 bytes after a converted branch, 0 for none
+  private pendingAddress = 0;
+
+  private inputs: (Buffer | null)[] = [null, null, null, null];
+  private inPos: number[] = [0, 0, 0, 0];
+  private ended: boolean[] = [false, false, false, false];
+
+  /** Set once the output is complete */
+  finished = false;
+  /** Stream the decoder stopped on for lack of input, -1 when it stopped for another reason */
+  waiting = -1;
+
+  constructor(unpackSize: number) {
+    this.unpackSize = unpackSize;
+    for (let i = 0; i < kNumProbs; i++) this.probs.push(kBitModelTotal >>> 1);
+  }
 
-  // Initialize code from first 5 bytes
-  for (let i = 0; i < 5; i++) {
-    rd.code = (rd.code << 8) | (rd.pos < stream.length ? stream[rd.pos++] : 0);
+  /**
+   * Number of bytes of a stream buffered but not yet consumed
+   */
+  available(index: number): number {
+    const input = this.inputs[index];
+    return input ? input.length - this.inPos[index] : 0;
   }
 
-  return rd;
-}
+  /**
+   * Append input data to a stream
+   */
+  push(index: number, chunk: Buffer): void {
+    const input = this.inputs[index];
+    if (!input || this.inPos[index] >= input.length) {
+      this.inputs[index] = chunk;
+    } else {
+      this.inputs[index] = Buffer.concat([input.slice(this.inPos[index]), chunk]);
+    }
+    this.inPos[index] = 0;
+  }
 
-/**
- * Decode a single bit using probability model
- */
-function decodeBit(rd: RangeDecoder, prob: number[], probIndex: number): number {
-  const ttt = prob[probIndex];
-  const bound = (rd.range >>> kNumBitModelTotalBits) * ttt;
-
-  let symbol: number;
-  if (rd.code >>> 0 < bound >>> 0) {
-    rd.range = bound;
-    prob[probIndex] = (ttt + ((kBitModelTotal - ttt) >>> kNumMoveBits)) | 0;
-    symbol = 0;
-  } else {
-    rd.range = (rd.range - bound) >>> 0;
-    rd.code = (rd.code - bound) >>> 0;
-    prob[probIndex] = (ttt - (ttt >>> kNumMoveBits)) | 0;
-    symbol = 1;
+  /**
+   * Mark a stream as complete
+   */
+  end(index: number): void {
+    this.ended[index] = true;
+  }
+
+  /**
+   * Decode up to `count` bytes into output at offset
+   * @returns number of bytes decoded (0 when finished or waiting for input)
+   */
+  decode(output: Buffer, offset: number, count: number): number {
+    let produced = 0;
+    this.waiting = -1;
+
+    while (produced < count) {
+      if (this.outPos >= this.unpackSize) {
+        this.finished = true;
+        break;
+      }
+
+      if (this.pendingAddress) {
+        const size = Math.min(4, this.unpackSize - this.outPos);
+        if (count - produced < size) break;
+        const stream = this.pendingAddress;
+        if (this.available(stream) < 4) {
+          if (this.ended[stream]) throw createCodedError('BCJ2 data is corrupt - address stream ended early', ErrorCode.DECOMPRESSION_FAILED);
+          this.waiting = stream;
+          break;
+        }
+        const input = this.inputs[stream] as Buffer;
+        const src = input.readUInt32BE(this.inPos[stream]);
+        this.inPos[stream] += 4;
+        const dest = (src - (this.outPos + 4)) >>> 0;
+        for (let i = 0; i < size; i++) output[offset + produced++] = (dest >>> (8 * i)) & 0xff;
+        this.outPos += size;
+        this.prevByte = dest >>> 24;
+        this.pendingAddress = 0;
+        continue;
+      }
+
+      if (this.available(MAIN) === 0) {
+        if (this.ended[MAIN]) this.finished = true;
+        else this.waiting = MAIN;
+        break;
+      }
+      const b = (this.inputs[MAIN] as Buffer)[this.inPos[MAIN]];
+
+      if (!isJump(this.prevByte, b)) {
+        this.inPos[MAIN]++;
+        output[offset + produced++] = b;
+        this.outPos++;
+        this.prevByte = b;
+        continue;
+      }
+
+      // Branch opcode: one range coder decision (initialization reads 5 bytes, each decision at most 1)
+      if (!this.ended[RC] && this.available(RC) < (this.initialized ? 1 : 6)) {
+        this.waiting = RC;
+        break;
+      }
+      this.inPos[MAIN]++;
+      output[offset + produced++] = b;
+      this.outPos++;
+      if (this.outPos >= this.unpackSize) continue;
+
+      if (!this.initialized) this.initRangeDecoder();
+      const probIndex = b === 0xe8 ? this.prevByte : b === 0xe9 ? 256 : 257;
+      if (this.decodeBit(probIndex) === 0) {
+        this.prevByte = b;
+      } else {
+        this.pendingAddress = b === 0xe8 ? CALL : JUMP;
+      }
+    }
+    return produced;
   }
 
-  // Normalize
-  if (rd.range < kTopValue) {
-    rd.range = (rd.range << 8) >>> 0;
-    rd.code = ((rd.code << 8) | (rd.pos < rd.stream.length ? rd.stream[rd.pos++] : 0)) >>> 0;
+  private readByte(): number {
+    const input = this.inputs[RC];
+    return input && this.inPos[RC] < input.length ? input[this.inPos[RC]++] : 0;
   }
 
-  return symbol;
+  private initRangeDecoder(): void {
+    this.initialized = true;
+    for (let i = 0; i < 5; i++) this.code = ((this.code << 8) | this.readByte()) >>> 0;
+  }
+
+  private decodeBit(probIndex: number): number {
+    const prob = this.probs[probIndex];
+    const bound = (this.range >>> kNumBitModelTotalBits) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      this.probs[probIndex] = prob + ((kBitModelTotal - prob) >>> kNumMoveBits);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      this.probs[probIndex] = prob - (prob >>> kNumMoveBits);
+      bit = 1;
+    }
+    if (this.range < kTopValue) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.readByte()) >>> 0;
+    }
+    return bit;
+  }
 }
 
 /**
@@ -90,150 +210,108 @@ export function decodeBcj2Multi(streams: Buffer[], _properties?: Buffer, unpackS
     throw new Error(`BCJ2 requires 4 input streams, got ${streams.length}`);
   }
 
-  // Stream assignment (based on 7z bind pair convention):
-  // streams[0] = main data (after LZMA2)
-  // streams[1] = call stream (after LZMA)
-  // streams[2] = jump stream (after LZMA)
-  // streams[3] = range coder stream (uncompressed)
-  const mainStream = streams[0];
-  const callStream = streams[1];
-  const jumpStream = streams[2];
-  const rcStream = streams[3];
-
-  // Output buffer
-  const outSize = unpackSize || mainStream.length + callStream.length + jumpStream.length;
+  const outSize = unpackSize || streams[MAIN].length + streams[CALL].length + streams[JUMP].length;
+  const decoder = new Bcj2Decoder(outSize);
+  for (let i = 0; i < 4; i++) {
+    decoder.push(i, streams[i]);
+    decoder.end(i);
+  }
   const output = allocBuffer(outSize);
-  let outPos = 0;
-
-  // Stream positions
-  let mainPos = 0;
-  let callPos = 0;
-  let jumpPos = 0;
-
-  // Initialize range decoder
-  const rd = initRangeDecoder(rcStream);
+  const produced = decoder.decode(output, 0, outSize);
+  return produced < output.length ? output.slice(0, produced) : output;
+}
 
-  // Initialize probability models
-  const probs: number[] = [];
-  for (let i = 0; i < kNumProbs; i++) {
-    probs.push(kBitModelTotal >>> 1);
+/**
+ * Decode BCJ2 from 4 streams read in parallel (main, call, jump, range coder).
+ * Output is emitted as it is decoded; an input is paused while it runs far ahead of
+ * the one the decoder is waiting on, so memory stays bounded.
+ */
+export function createBcj2MultiStream(inputs: Readable[], unpackSize: number): { output: Readable; pause: () => void; resume: () => void } {
+  if (inputs.length !== 4) {
+    throw new Error(`BCJ2 requires 4 input streams, got ${inputs.length}`);
   }
 
-  // Track previous byte for probability context
-  let prevByte = 0;
+  const decoder = new Bcj2Decoder(unpackSize);
+  const output = new PassThrough();
+  let paused = false;
+  let waitingForDrain = false;
+  let done = false;
 
-  // Instruction pointer for address conversion
-  let ip = 0;
-
-  while (outPos < outSize && mainPos < mainStream.length) {
-    const b = mainStream[mainPos++];
-
-    // Check for branch opcodes
-    if (b === 0xe8 || b === 0xe9) {
-      // CALL (0xE8) or JMP (0xE9)
-      // Use range decoder to check if this should be processed
-      // Probability index: E8 uses 2 + prevByte, E9 uses 1
-      const probIndex = b === 0xe8 ? 2 + prevByte : 1;
-      const isMatch = decodeBit(rd, probs, probIndex);
-
-      if (outPos >= outSize) break;
-      output[outPos++] = b;
-      ip++;
-
-      if (isMatch) {
-        // Read 4-byte address from appropriate stream
-        const addrStream = b === 0xe8 ? callStream : jumpStream;
-        const addrPos = b === 0xe8 ? callPos : jumpPos;
+  const fail = (err: Error): void => {
+    if (done) return;
+    done = true;
+    output.destroy(err);
+  };
 
-        if (addrPos + 4 > addrStream.length) {
-          // Not enough data, copy remaining
+  const run = (): void => {
+    if (done) return;
+    if (paused || waitingForDrain) {
+      flowControl();
+      return;
+    }
+    try {
+      for (;;) {
+        const chunk = allocBuffer(OUTPUT_CHUNK_SIZE);
+        const produced = decoder.decode(chunk, 0, OUTPUT_CHUNK_SIZE);
+        if (produced > 0 && !output.write(produced < chunk.length ? chunk.slice(0, produced) : chunk)) {
+          waitingForDrain = true;
+          output.once('drain', () => {
+            waitingForDrain = false;
+            run();
+          });
           break;
         }
+        if (produced === 0) break;
+      }
+    } catch (err) {
+      fail(err as Error);
+      return;
+    }
 
-        // Check if we have room for 4 address bytes
-        if (outPos + 4 > outSize) break;
-
-        // Read as big-endian (BCJ2 stores addresses big-endian)
-        let addr = (addrStream[addrPos] << 24) | (addrStream[addrPos + 1] << 16) | (addrStream[addrPos + 2] << 8) | addrStream[addrPos + 3];
-
-        if (b === 0xe8) {
-          callPos += 4;
-        } else {
-          jumpPos += 4;
-        }
-
-        // Convert absolute to relative address
-        addr = (addr - (ip + 4)) | 0;
-
-        // Write as little-endian
-        output[outPos++] = addr & 0xff;
-        output[outPos++] = (addr >>> 8) & 0xff;
-        output[outPos++] = (addr >>> 16) & 0xff;
-        output[outPos++] = (addr >>> 24) & 0xff;
-        ip += 4;
+    if (decoder.finished) {
+      done = true;
+      output.end();
+      return;
+    }
+    flowControl();
+  };
 
-        prevByte = (addr >>> 24) & 0xff;
-      } else {
-        prevByte = b;
-      }
-    } else if (b === 0x0f && mainPos < mainStream.length) {
-      // Potential conditional jump (0x0F 0x8x)
-      if (outPos >= outSize) break;
-      output[outPos++] = b;
-      ip++;
-
-      const b2 = mainStream[mainPos];
-      if ((b2 & 0xf0) === 0x80) {
-        // Conditional jump
-        mainPos++;
-        // Probability index 0 for conditional jumps (since b2 != 0xE8 and b2 != 0xE9)
-        const probIndex2 = 0;
-        const isMatch2 = decodeBit(rd, probs, probIndex2);
-
-        if (outPos >= outSize) break;
-        output[outPos++] = b2;
-        ip++;
-
-        if (isMatch2) {
-          // Read 4-byte address from jump stream
-          if (jumpPos + 4 > jumpStream.length) {
-            break;
-          }
-
-          // Check if we have room for 4 address bytes
-          if (outPos + 4 > outSize) break;
-
-          let addr2 = (jumpStream[jumpPos] << 24) | (jumpStream[jumpPos + 1] << 16) | (jumpStream[jumpPos + 2] << 8) | jumpStream[jumpPos + 3];
-          jumpPos += 4;
-
-          // Convert absolute to relative
-          addr2 = (addr2 - (ip + 4)) | 0;
-
-          // Write as little-endian
-          output[outPos++] = addr2 & 0xff;
-          output[outPos++] = (addr2 >>> 8) & 0xff;
-          output[outPos++] = (addr2 >>> 16) & 0xff;
-          output[outPos++] = (addr2 >>> 24) & 0xff;
-          ip += 4;
-
-          prevByte = (addr2 >>> 24) & 0xff;
-        } else {
-          prevByte = b2;
-        }
-      } else {
-        prevByte = b;
-      }
-    } else {
-      // Regular byte
-      if (outPos >= outSize) break;
-      output[outPos++] = b;
-      ip++;
-      prevByte = b;
+  // Keep the awaited input flowing and hold back the others once they are well ahead;
+  // everything stops while paused or while the output is full
+  const flowControl = (): void => {
+    const hold = paused || waitingForDrain;
+    for (let i = 0; i < inputs.length; i++) {
+      if (!hold && (i === decoder.waiting || decoder.available(i) < INPUT_HIGH_WATER)) inputs[i].resume();
+      else inputs[i].pause();
     }
+  };
+
+  for (let i = 0; i < inputs.length; i++) {
+    const index = i;
+    inputs[index].on('data', (chunk: Buffer) => {
+      if (done) return;
+      decoder.push(index, chunk);
+      run();
+    });
+    inputs[index].on('end', () => {
+      if (done) return;
+      decoder.end(index);
+      run();
+    });
+    inputs[index].on('error', fail);
   }
 
-  // Return only the used portion
-  return outPos < output.length ? output.slice(0, outPos) : output;
+  return {
+    output: output,
+    pause: () => {
+      paused = true;
+      flowControl();
+    },
+    resume: () => {
+      paused = false;
+      run();
+    },
+  };
 }
 
 /**
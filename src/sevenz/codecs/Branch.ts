@@ -0,0 +1,207 @@
+// Branch converters (BCJ filters) for ARM64, ARM Thumb, PowerPC, SPARC and IA64
+// Reference: LZMA SDK Bra.c, BraIA64.c; xz simple/arm64.c
+//
+// Each filter rewrites the absolute branch targets stored by the encoder back to
+// relative ones. Converters work on whole instructions at stream offset `ip` and
+// return how many bytes are final; the rest (an instruction cut by the end of the
+// buffer) waits for more input. Bytes after the last whole instruction of the
+// stream are passed through unchanged.
+//
+// Properties (optional, 4 bytes): start offset (UInt32 LE) - written by 7-Zip for ARM64
+//
+// These replace xz-compat's filters: its createBcj*Decoder buffers the whole stream
+// before converting, its ARM64 filter rewrites B/BL only (ADRP targets are left
+// absolute), and its ARMT and IA64 filters produced wrong output for 7-Zip archives.
+
+import { bufferFrom, Transform } from 'extract-base-iterator';
+import type Stream from 'stream';
+
+type Converter = (data: Buffer, size: number, ip: number) => number;
+
+// IA64 bundle templates: bit n set when instruction slot n may hold a branch
+const kBranchTable = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 4, 4, 6, 6, 0, 0, 7, 7, 4, 4, 0, 0, 4, 4, 0, 0];
+
+function armtConvert(data: Buffer, size: number, ip: number): number {
+  if (size < 4) return 0;
+  const limit = size - 4;
+  let i = 0;
+  for (; i <= limit; i += 2) {
+    // BL is two half-words: 11110 + high offset bits, 11111 + low offset bits
+    if ((data[i + 1] & 0xf8) === 0xf0 && (data[i + 3] & 0xf8) === 0xf8) {
+      const src = (((data[i + 1] & 7) << 19) | (data[i] << 11) | ((data[i + 3] & 7) << 8) | data[i + 2]) << 1;
+      const dest = ((src - (ip + i + 4)) >>> 0) >>> 1;
+      data[i + 1] = 0xf0 | ((dest >>> 19) & 7);
+      data[i] = (dest >>> 11) & 0xff;
+      data[i + 3] = 0xf8 | ((dest >>> 8) & 7);
+      data[i + 2] = dest & 0xff;
+      i += 2;
+    }
+  }
+  return i;
+}
+
+function arm64Convert(data: Buffer, size: number, ip: number): number {
+  size &= ~3;
+  for (let i = 0; i < size; i += 4) {
+    const instr = data.readUInt32LE(i);
+    const pc = (ip + i) >>> 0;
+
+    if (instr >>> 26 === 0x25) {
+      // BL: 26-bit offset in words
+      const dest = (instr - (pc >>> 2)) & 0x03ffffff;
+      data.writeUInt32LE((0x94000000 | dest) >>> 0, i);
+    } else if ((instr & 0x9f000000) >>> 0 === 0x90000000) {
+      // ADRP: 21-bit offset in 4KB pages, only converted within +/-512MB
+      const src = ((instr >>> 29) & 3) | ((instr >>> 3) & 0x001ffffc);
+      if ((src + 0x00020000) & 0x001c0000) continue;
+      const dest = (src - (pc >>> 12)) >>> 0;
+      const out = (instr & 0x9000001f) | ((dest & 3) << 29) | ((dest & 0x0003fffc) << 3) | ((0 - (dest & 0x00020000)) & 0x00e00000);
+      data.writeUInt32LE(out >>> 0, i);
+    }
+  }
+  return size;
+}
+
+function ppcConvert(data: Buffer, size: number, ip: number): number {
+  size &= ~3;
+  for (let i = 0; i < size; i += 4) {
+    // B/BL with AA=0, LK=1
+    if (data[i] >>> 2 === 0x12 && (data[i + 3] & 3) === 1) {
+      const src = ((data[i] & 3) << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | (data[i + 3] & ~3);
+      const dest = (src - (ip + i)) >>> 0;
+      data[i] = 0x48 | ((dest >>> 24) & 3);
+      data[i + 1] = (dest >>> 16) & 0xff;
+      data[i + 2] = (dest >>> 8) & 0xff;
+      data[i + 3] = (data[i + 3] & 3) | (dest & 0xff);
+    }
+  }
+  return size;
+}
+
+function sparcConvert(data: Buffer, size: number, ip: number): number {
+  size &= ~3;
+  for (let i = 0; i < size; i += 4) {
+    // CALL with a displacement that fits in 22 bits (sign-extended)
+    if ((data[i] === 0x40 && (data[i + 1] & 0xc0) === 0x00) || (data[i] === 0x7f && (data[i + 1] & 0xc0) === 0xc0)) {
+      const src = (data.readUInt32BE(i) << 2) >>> 0;
+      let dest = ((src - (ip + i)) >>> 0) >>> 2;
+      dest = (((0 - ((dest >>> 22) & 1)) << 22) & 0x3fffffff) | (dest & 0x3fffff) | 0x40000000;
+      data.writeUInt32BE(dest >>> 0, i);
+    }
+  }
+  return size;
+}
+
+function ia64Convert(data: Buffer, size: number, ip: number): number {
+  size &= ~15;
+  for (let i = 0; i < size; i += 16) {
+    const mask = kBranchTable[data[i] & 0x1f];
+    for (let slot = 0, bitPos = 5; slot < 3; slot++, bitPos += 41) {
+      if (((mask >>> slot) & 1) === 0) continue;
+      const bytePos = i + (bitPos >>> 3);
+      const bitRes = bitPos & 7;
+
+      // 48-bit window holding the 41-bit instruction, split at bit 32 after the shift
+      let instruction = 0;
+      for (let j = 5; j >= 0; j--) instruction = instruction * 256 + data[bytePos + j];
+      const lowBits = instruction % (1 << bitRes);
+      const norm = (instruction - lowBits) / (1 << bitRes);
+      let lo = norm % 0x100000000;
+      let hi = (norm - lo) / 0x100000000;
+
+      // Opcode 5 (IP-relative branch) with btype 0
+      if (((hi >>> 5) & 0xf) !== 5 || ((lo >>> 9) & 7) !== 0) continue;
+      let src = ((lo >>> 13) | ((hi & 1) << 19)) & 0xfffff;
+      src |= ((hi >>> 4) & 1) << 20;
+      const dest = (((src << 4) - (ip + i)) >>> 0) >>> 4;
+
+      lo = ((lo & 0x1fff) | ((dest & 0x7ffff) << 13)) >>> 0;
+      hi = (hi & ~0x11) | ((dest >>> 19) & 1) | (((dest >>> 20) & 1) << 4);
+      instruction = (hi * 0x100000000 + lo) * (1 << bitRes) + lowBits;
+      for (let j = 0; j < 6; j++) {
+        data[bytePos + j] = instruction % 256;
+        instruction = (instruction - data[bytePos + j]) / 256;
+      }
+    }
+  }
+  return size;
+}
+
+function startOffset(properties?: Buffer): number {
+  return properties && properties.length >= 4 ? properties.readUInt32LE(0) : 0;
+}
+
+/**
+ * Convert a whole buffer (copied - the input is not modified)
+ */
+function decodeBranch(convert: Converter, input: Buffer, properties?: Buffer): Buffer {
+  const output = bufferFrom(input);
+  convert(output, output.length, startOffset(properties));
+  return output;
+}
+
+/**
+ * Create a streaming Transform for a converter.
+ * Instructions cut by a chunk boundary are held back until the next chunk completes them.
+ */
+function createBranchDecoder(convert: Converter, properties?: Buffer): Stream.Transform {
+  let ip = startOffset(properties);
+  let pending: Buffer | null = null;
+
+  return new Transform({
+    transform: function (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+      // Copied because the converter works in place and chunks may share the source's buffer
+      const data = pending ? Buffer.concat([pending, chunk]) : bufferFrom(chunk);
+      const processed = convert(data, data.length, ip);
+      ip += processed;
+      pending = processed < data.length ? data.slice(processed) : null;
+      if (processed > 0) this.push(processed < data.length ? data.slice(0, processed) : data);
+      callback();
+    },
+    flush: function (callback: (error?: Error | null) => void) {
+      if (pending) this.push(pending);
+      pending = null;
+      callback();
+    },
+  }) as Stream.Transform;
+}
+
+export function decodeBcjArmt(input: Buffer, properties?: Buffer): Buffer {
+  return decodeBranch(armtConvert, input, properties);
+}
+
+export function createBcjArmtDecoder(properties?: Buffer): Stream.Transform {
+  return createBranchDecoder(armtConvert, properties);
+}
+
+export function decodeBcjArm64(input: Buffer, properties?: Buffer): Buffer {
+  return decodeBranch(arm64Convert, input, properties);
+}
+
+export function createBcjArm64Decoder(properties?: Buffer): Stream.Transform {
+  return createBranchDecoder(arm64Convert, properties);
+}
+
+export function decodeBcjPpc(input: Buffer, properties?: Buffer): Buffer {
+  return decodeBranch(ppcConvert, input, properties);
+}
+
+export function createBcjPpcDecoder(properties?: Buffer): Stream.Transform {
+  return createBranchDecoder(ppcConvert, properties);
+}
+
+export function decodeBcjSparc(input: Buffer, properties?: Buffer): Buffer {
+  return decodeBranch(sparcConvert, input, properties);
+}
+
+export function createBcjSparcDecoder(properties?: Buffer): Stream.Transform {
+  return createBranchDecoder(sparcConvert, properties);
+}
+
+export function decodeBcjIa64(input: Buffer, properties?: Buffer): Buffer {
+  return decodeBranch(ia64Convert, input, properties);
+}
+
+export function createBcjIa64Decoder(properties?: Buffer): Stream.Transform {
+  return createBranchDecoder(ia64Convert, properties);
+}
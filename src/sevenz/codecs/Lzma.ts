@@ -0,0 +1,487 @@
+// LZMA codec - streaming LZMA1 decoder for 7z folders
+// Reference: LZMA SDK LzmaDec.c, LzmaSpec.cpp
+//
+// Properties (5 bytes): lc/lp/pb packed as (pb * 5 + lp) * 9 + lc, then dictionary size (UInt32 LE)
+//
+// LZMA1 has no chunk boundaries, so the decoder keeps its range coder, model and
+// dictionary between input chunks. The dictionary is a circular window of
+// min(dictionary size, unpack size) bytes, so memory stays bounded however large
+// the folder is. 7z streams stop at the folder's unpack size; an end marker is
+// also accepted. LZMA2 (Lzma2.ts) drives the same decoder chunk by chunk.
+
+import { allocBuffer, Transform } from 'extract-base-iterator';
+import type Stream from 'stream';
+import { createCodedError, ErrorCode } from '../constants.ts';
+
+// Range coder constants
+const kTopValue = 1 << 24;
+const kNumBitModelTotalBits = 11;
+const kBitModelTotal = 1 << kNumBitModelTotalBits;
+const kNumMoveBits = 5;
+const kProbInit = kBitModelTotal >>> 1;
+
+// Model constants
+const kNumStates = 12;
+const kNumPosBitsMax = 4;
+const kNumLenToPosStates = 4;
+const kNumPosSlotBits = 6;
+const kStartPosModelIndex = 4;
+const kEndPosModelIndex = 14;
+const kNumFullDistances = 1 << (kEndPosModelIndex >>> 1);
+const kNumAlignBits = 4;
+const kNumLowLenBits = 3;
+const kNumMidLenBits = 3;
+const kNumHighLenBits = 8;
+const kNumLowLenSymbols = 1 << kNumLowLenBits;
+const kNumMidLenSymbols = 1 << kNumMidLenBits;
+const kMatchMinLen = 2;
+const kNumLitStates = 7;
+
+// Worst case input per symbol (LZMA_REQUIRED_INPUT_MAX in the SDK)
+const INPUT_MARGIN = 20;
+const OUTPUT_CHUNK_SIZE = 65536;
+
+export interface LzmaProperties {
+  lc: number;
+  lp: number;
+  pb: number;
+  dictSize: number;
+}
+
+/**
+ * Parse and validate LZMA properties
+ */
+function parseProperties(properties?: Buffer): LzmaProperties {
+  if (!properties || properties.length < 5) {
+    throw createCodedError('LZMA requires 5-byte properties', ErrorCode.CORRUPT_HEADER);
+  }
+  let d = properties[0];
+  if (d >= 9 * 5 * 5) throw createCodedError(`Invalid LZMA properties byte: ${d}`, ErrorCode.CORRUPT_HEADER);
+  const lc = d % 9;
+  d = (d / 9) | 0;
+  return { lc: lc, lp: d % 5, pb: (d / 5) | 0, dictSize: properties.readUInt32LE(1) };
+}
+
+function corrupt(): Error {
+  return createCodedError('LZMA data is corrupt', ErrorCode.DECOMPRESSION_FAILED);
+}
+
+/**
+ * Length decoder probabilities (one for matches, one for rep matches)
+ */
+class LenModel {
+  choice = new Uint16Array(2);
+  low = new Uint16Array((1 << kNumPosBitsMax) << kNumLowLenBits);
+  mid = new Uint16Array((1 << kNumPosBitsMax) << kNumMidLenBits);
+  high = new Uint16Array(1 << kNumHighLenBits);
+}
+
+/**
+ * LZMA range decoder, model and dictionary window
+ *
+ * Input is supplied incrementally with push(); bytes past the end read as zero,
+ * so callers keep INPUT_MARGIN bytes buffered until the input is complete. Once
+ * end() is called, needing a byte past the end throws TRUNCATED_ARCHIVE.
+ */
+export class LzmaDecoder {
+  private lc = 0;
+  private lpMask = 0;
+  private pbMask = 0;
+
+  // Dictionary window
+  private window: Buffer;
+  private windowSize: number;
+  private pos = 0;
+  private totalPos = 0;
+
+  // Model
+  private isMatch = new Uint16Array(kNumStates << kNumPosBitsMax);
+  private isRep = new Uint16Array(kNumStates);
+  private isRepG0 = new Uint16Array(kNumStates);
+  private isRepG1 = new Uint16Array(kNumStates);
+  private isRepG2 = new Uint16Array(kNumStates);
+  private isRep0Long = new Uint16Array(kNumStates << kNumPosBitsMax);
+  private posSlot = new Uint16Array(kNumLenToPosStates << kNumPosSlotBits);
+  private posSpecial = new Uint16Array(1 + kNumFullDistances - kEndPosModelIndex);
+  private align = new Uint16Array(1 << kNumAlignBits);
+  private lenModel = new LenModel();
+  private repLenModel = new LenModel();
+  private literal = new Uint16Array(0);
+  private state = 0;
+  private rep0 = 0;
+  private rep1 = 0;
+  private rep2 = 0;
+  private rep3 = 0;
+  // Bytes of the current match not yet copied (the output filled up first)
+  private remainLen = 0;
+  // Set once the end marker is decoded
+  finished = false;
+
+  // Range decoder
+  private range = 0xffffffff;
+  private code = 0;
+  private input: Buffer | null = null;
+  private inPos = 0;
+  private inputEnded = false;
+  private initialized = false;
+
+  constructor(props: LzmaProperties, unpackSize: number) {
+    // No distance can reach further back than the folder's own output
+    this.windowSize = Math.max(1, Math.min(Math.max(props.dictSize, 4096), unpackSize));
+    this.window = allocBuffer(this.windowSize);
+    this.resetState(props);
+  }
+
+  /**
+   * Reset the model, state and rep distances, switching to new lc/lp/pb if given
+   */
+  resetState(props?: { lc: number; lp: number; pb: number }): void {
+    if (props) {
+      this.lc = props.lc;
+      this.lpMask = (1 << props.lp) - 1;
+      this.pbMask = (1 << props.pb) - 1;
+      const literalSize = 0x300 << (props.lc + props.lp);
+      if (this.literal.length !== literalSize) this.literal = new Uint16Array(literalSize);
+    }
+
+    const arrays = [this.isMatch, this.isRep, this.isRepG0, this.isRepG1, this.isRepG2, this.isRep0Long, this.posSlot, this.posSpecial, this.align, this.literal];
+    const lenModels = [this.lenModel, this.repLenModel];
+    for (let i = 0; i < lenModels.length; i++) arrays.push(lenModels[i].choice, lenModels[i].low, lenModels[i].mid, lenModels[i].high);
+    for (let i = 0; i < arrays.length; i++) {
+      for (let j = 0; j < arrays[i].length; j++) arrays[i][j] = kProbInit;
+    }
+    this.state = 0;
+    this.rep0 = 0;
+    this.rep1 = 0;
+    this.rep2 = 0;
+    this.rep3 = 0;
+  }
+
+  /**
+   * Forget the dictionary - later matches may not reach before this point
+   */
+  resetDictionary(): void {
+    this.totalPos = 0;
+  }
+
+  /**
+   * Start a new range coder stream, dropping any buffered input and unfinished match
+   */
+  resetRangeDecoder(): void {
+    this.initialized = false;
+    this.input = null;
+    this.inPos = 0;
+    this.remainLen = 0;
+  }
+
+  /**
+   * Add stored (uncompressed) bytes to the dictionary
+   */
+  putUncompressed(data: Buffer): void {
+    for (let i = 0; i < data.length; i++) this.putByte(data[i]);
+  }
+
+  /**
+   * Number of input bytes buffered but not yet consumed
+   */
+  available(): number {
+    return this.input ? this.input.length - this.inPos : 0;
+  }
+
+  /**
+   * Append input data
+   */
+  push(chunk: Buffer): void {
+    if (!this.input || this.inPos >= this.input.length) {
+      this.input = chunk;
+    } else {
+      this.input = Buffer.concat([this.input.slice(this.inPos), chunk]);
+    }
+    this.inPos = 0;
+  }
+
+  /**
+   * Mark the input as complete
+   */
+  end(): void {
+    this.inputEnded = true;
+  }
+
+  /**
+   * Decode up to `count` bytes into output at offset, stopping before a symbol
+   * while fewer than `margin` input bytes are buffered or at the end marker
+   * @returns number of bytes decoded
+   */
+  decode(output: Buffer, offset: number, count: number, margin: number): number {
+    let produced = 0;
+    while (produced < count) {
+      // Finish a match cut short by the previous call
+      while (this.remainLen > 0 && produced < count) {
+        output[offset + produced++] = this.putByte(this.getByte(this.rep0 + 1));
+        this.remainLen--;
+      }
+      if (produced === count || this.finished || this.available() < margin) break;
+      if (!this.initialized) this.initRangeDecoder();
+
+      const len = this.decodeSymbol();
+      if (len < 0) {
+        this.finished = true;
+        break;
+      }
+      if (len === 0) {
+        output[offset + produced++] = this.window[this.pos === 0 ? this.windowSize - 1 : this.pos - 1];
+        continue;
+      }
+      this.remainLen = len;
+    }
+    return produced;
+  }
+
+  // ============================================================
+  // DICTIONARY WINDOW
+  // ============================================================
+
+  private getByte(dist: number): number {
+    let i = this.pos - dist;
+    if (i < 0) i += this.windowSize;
+    return this.window[i];
+  }
+
+  private putByte(b: number): number {
+    this.window[this.pos++] = b;
+    if (this.pos === this.windowSize) this.pos = 0;
+    this.totalPos++;
+    return b;
+  }
+
+  // ============================================================
+  // RANGE DECODER
+  // ============================================================
+
+  private readByte(): number {
+    const input = this.input;
+    if (input && this.inPos < input.length) return input[this.inPos++];
+    if (this.inputEnded) throw createCodedError('Truncated LZMA stream', ErrorCode.TRUNCATED_ARCHIVE);
+    return 0;
+  }
+
+  private initRangeDecoder(): void {
+    this.initialized = true;
+    this.code = 0;
+    this.range = 0xffffffff;
+    if (this.readByte() !== 0) throw corrupt();
+    for (let i = 0; i < 4; i++) this.code = ((this.code << 8) | this.readByte()) >>> 0;
+    if (this.code === this.range) throw corrupt();
+  }
+
+  private decodeBit(probs: Uint16Array, index: number): number {
+    const prob = probs[index];
+    const bound = (this.range >>> kNumBitModelTotalBits) * prob;
+    let bit: number;
+    if (this.code < bound) {
+      this.range = bound;
+      probs[index] = prob + ((kBitModelTotal - prob) >>> kNumMoveBits);
+      bit = 0;
+    } else {
+      this.range -= bound;
+      this.code -= bound;
+      probs[index] = prob - (prob >>> kNumMoveBits);
+      bit = 1;
+    }
+    if (this.range < kTopValue) {
+      this.range = (this.range << 8) >>> 0;
+      this.code = ((this.code << 8) | this.readByte()) >>> 0;
+    }
+    return bit;
+  }
+
+  private decodeDirectBits(numBits: number): number {
+    let result = 0;
+    for (let i = 0; i < numBits; i++) {
+      this.range >>>= 1;
+      let bit = 0;
+      if (this.code >= this.range) {
+        this.code -= this.range;
+        bit = 1;
+      }
+      result = ((result << 1) | bit) >>> 0;
+      if (this.range < kTopValue) {
+        this.range = (this.range << 8) >>> 0;
+        this.code = ((this.code << 8) | this.readByte()) >>> 0;
+      }
+    }
+    return result;
+  }
+
+  private decodeBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) m = (m << 1) | this.decodeBit(probs, offset + m);
+    return m - (1 << numBits);
+  }
+
+  private decodeReverseBitTree(probs: Uint16Array, offset: number, numBits: number): number {
+    let m = 1;
+    let symbol = 0;
+    for (let i = 0; i < numBits; i++) {
+      const bit = this.decodeBit(probs, offset + m);
+      m = (m << 1) | bit;
+      symbol |= bit << i;
+    }
+    return symbol;
+  }
+
+  // ============================================================
+  // SYMBOLS
+  // ============================================================
+
+  /**
+   * Decode one symbol: a literal is written to the window (returns 0), a match
+   * returns its length for decode() to copy, and the end marker returns -1
+   */
+  private decodeSymbol(): number {
+    const posState = this.totalPos & this.pbMask;
+    const state = this.state;
+
+    if (this.decodeBit(this.isMatch, (state << kNumPosBitsMax) + posState) === 0) {
+      this.decodeLiteral();
+      this.state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      return 0;
+    }
+
+    if (this.totalPos === 0) throw corrupt();
+
+    if (this.decodeBit(this.isRep, state) === 0) {
+      const len = this.decodeLen(this.lenModel, posState);
+      this.state = state < kNumLitStates ? 7 : 10;
+      const dist = this.decodeDistance(len);
+      if (dist === 0xffffffff) return -1;
+      this.rep3 = this.rep2;
+      this.rep2 = this.rep1;
+      this.rep1 = this.rep0;
+      this.rep0 = dist;
+      if (dist >= this.totalPos || dist >= this.windowSize) throw corrupt();
+      return len + kMatchMinLen;
+    }
+
+    if (this.decodeBit(this.isRepG0, state) === 0) {
+      if (this.decodeBit(this.isRep0Long, (state << kNumPosBitsMax) + posState) === 0) {
+        // Short rep: one byte at rep0
+        this.state = state < kNumLitStates ? 9 : 11;
+        this.putByte(this.getByte(this.rep0 + 1));
+        return 0;
+      }
+    } else {
+      let dist: number;
+      if (this.decodeBit(this.isRepG1, state) === 0) {
+        dist = this.rep1;
+      } else {
+        if (this.decodeBit(this.isRepG2, state) === 0) {
+          dist = this.rep2;
+        } else {
+          dist = this.rep3;
+          this.rep3 = this.rep2;
+        }
+        this.rep2 = this.rep1;
+      }
+      this.rep1 = this.rep0;
+      this.rep0 = dist;
+    }
+    const len = this.decodeLen(this.repLenModel, posState);
+    this.state = state < kNumLitStates ? 8 : 11;
+    return len + kMatchMinLen;
+  }
+
+  private decodeLiteral(): void {
+    const prevByte = this.totalPos > 0 ? this.getByte(1) : 0;
+    const base = 0x300 * (((this.totalPos & this.lpMask) << this.lc) + (prevByte >>> (8 - this.lc)));
+    const probs = this.literal;
+    let symbol = 1;
+
+    if (this.state >= kNumLitStates) {
+      // Matched literal: the byte at rep0 predicts the bits until the first mismatch
+      let matchByte = this.getByte(this.rep0 + 1);
+      do {
+        const matchBit = (matchByte >>> 7) & 1;
+        matchByte <<= 1;
+        const bit = this.decodeBit(probs, base + ((1 + matchBit) << 8) + symbol);
+        symbol = (symbol << 1) | bit;
+        if (matchBit !== bit) break;
+      } while (symbol < 0x100);
+    }
+    while (symbol < 0x100) symbol = (symbol << 1) | this.decodeBit(probs, base + symbol);
+    this.putByte(symbol & 0xff);
+  }
+
+  private decodeLen(model: LenModel, posState: number): number {
+    if (this.decodeBit(model.choice, 0) === 0) return this.decodeBitTree(model.low, posState << kNumLowLenBits, kNumLowLenBits);
+    if (this.decodeBit(model.choice, 1) === 0) return kNumLowLenSymbols + this.decodeBitTree(model.mid, posState << kNumMidLenBits, kNumMidLenBits);
+    return kNumLowLenSymbols + kNumMidLenSymbols + this.decodeBitTree(model.high, 0, kNumHighLenBits);
+  }
+
+  private decodeDistance(len: number): number {
+    const lenState = len < kNumLenToPosStates - 1 ? len : kNumLenToPosStates - 1;
+    const posSlot = this.decodeBitTree(this.posSlot, lenState << kNumPosSlotBits, kNumPosSlotBits);
+    if (posSlot < kStartPosModelIndex) return posSlot;
+
+    const numDirectBits = (posSlot >>> 1) - 1;
+    let dist = ((2 | (posSlot & 1)) << numDirectBits) >>> 0;
+    if (posSlot < kEndPosModelIndex) return dist + this.decodeReverseBitTree(this.posSpecial, dist - posSlot, numDirectBits);
+    dist += this.decodeDirectBits(numDirectBits - kNumAlignBits) * (1 << kNumAlignBits);
+    return dist + this.decodeReverseBitTree(this.align, 0, kNumAlignBits);
+  }
+}
+
+/**
+ * Create an LZMA decoder Transform stream.
+ * Symbols are decoded as input arrives, keeping a small input margin buffered
+ * because the range decoder reads ahead; the remainder is decoded in flush.
+ */
+export function createLzmaDecoder(properties?: Buffer, unpackSize?: number): Stream.Transform {
+  const props = parseProperties(properties);
+  if (typeof unpackSize !== 'number' || unpackSize < 0) {
+    throw createCodedError('LZMA requires known unpack size', ErrorCode.CORRUPT_HEADER);
+  }
+
+  const decoder = new LzmaDecoder(props, unpackSize);
+  let remaining = unpackSize;
+
+  const decodeChunk = (margin: number): Buffer | null => {
+    const size = Math.min(remaining, OUTPUT_CHUNK_SIZE);
+    const output = allocBuffer(size);
+    const produced = decoder.decode(output, 0, size, margin);
+    remaining = decoder.finished ? 0 : remaining - produced;
+    if (produced === 0) return null;
+    return produced < size ? output.slice(0, produced) : output;
+  };
+
+  const drain = (stream: Stream.Transform, margin: number): void => {
+    while (remaining > 0) {
+      const output = decodeChunk(margin);
+      if (!output) break;
+      stream.push(output);
+    }
+  };
+
+  return new Transform({
+    transform: function (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+      decoder.push(chunk);
+      try {
+        drain(this, INPUT_MARGIN);
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      callback();
+    },
+    flush: function (callback: (error?: Error | null) => void) {
+      decoder.end();
+      try {
+        drain(this, 0);
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      callback();
+    },
+  }) as Stream.Transform;
+}
@@ -0,0 +1,145 @@
+// LZMA2 codec - streaming LZMA2 decoder for 7z folders
+// Reference: LZMA SDK Lzma2Dec.c
+//
+// Properties (1 byte): dictionary size as (2 | (p & 1)) << (p / 2 + 11), 40 meaning 4GB - 1
+//
+// LZMA2 splits LZMA data into chunks of at most 64KB packed and 2MB unpacked, each
+// stored or compressed with a fresh range coder. A chunk may reset the state, the
+// lc/lp/pb properties or the dictionary; whatever it does not reset carries over,
+// so a single LzmaDecoder decodes the whole stream. Each chunk's packed data is
+// buffered whole before it is decoded.
+
+import { allocBuffer, Transform } from 'extract-base-iterator';
+import type Stream from 'stream';
+import { createCodedError, ErrorCode } from '../constants.ts';
+import { LzmaDecoder } from './Lzma.ts';
+
+const OUTPUT_CHUNK_SIZE = 65536;
+
+/**
+ * Dictionary size from the LZMA2 properties byte
+ */
+function parseDictionarySize(properties?: Buffer): number {
+  if (!properties || properties.length < 1) {
+    throw createCodedError('LZMA2 requires properties byte', ErrorCode.CORRUPT_HEADER);
+  }
+  const p = properties[0];
+  if (p > 40) throw createCodedError(`Invalid LZMA2 dictionary size: ${p}`, ErrorCode.CORRUPT_HEADER);
+  return p === 40 ? 0xffffffff : ((2 | (p & 1)) << ((p >>> 1) + 11)) >>> 0;
+}
+
+function corrupt(): Error {
+  return createCodedError('LZMA2 data is corrupt', ErrorCode.DECOMPRESSION_FAILED);
+}
+
+/**
+ * Create an LZMA2 decoder Transform stream.
+ * Chunks are decoded as soon as their packed data has arrived.
+ */
+export function createLzma2Decoder(properties?: Buffer, unpackSize?: number): Stream.Transform {
+  const dictSize = parseDictionarySize(properties);
+  const decoder = new LzmaDecoder({ lc: 0, lp: 0, pb: 0, dictSize: dictSize }, typeof unpackSize === 'number' ? unpackSize : dictSize);
+  let pending: Buffer | null = null;
+  let needDictReset = true;
+  let needProps = true;
+  let finished = false;
+
+  const decodeChunk = (stream: Stream.Transform, control: number, header: Buffer, data: Buffer, size: number): void => {
+    // Stored chunk: 1 resets the dictionary, 2 keeps it
+    if (control < 0x80) {
+      if (control === 1) decoder.resetDictionary();
+      else if (needDictReset) throw corrupt();
+      needDictReset = false;
+      decoder.putUncompressed(data);
+      stream.push(data);
+      return;
+    }
+
+    // LZMA chunk: bits 5-6 select what is reset - 0 nothing, 1 state, 2 state and properties, 3 everything
+    const reset = (control >>> 5) & 3;
+    if (reset === 3) decoder.resetDictionary();
+    else if (needDictReset) throw corrupt();
+    needDictReset = false;
+
+    if (reset >= 2) {
+      let d = header[5];
+      const lc = d % 9;
+      d = (d / 9) | 0;
+      const lp = d % 5;
+      const pb = (d / 5) | 0;
+      if (pb > 4 || lc + lp > 4) throw corrupt();
+      decoder.resetState({ lc: lc, lp: lp, pb: pb });
+      needProps = false;
+    } else if (needProps) {
+      throw corrupt();
+    } else if (reset === 1) {
+      decoder.resetState();
+    }
+
+    decoder.resetRangeDecoder();
+    decoder.push(data);
+    let remaining = size;
+    while (remaining > 0) {
+      const output = allocBuffer(Math.min(remaining, OUTPUT_CHUNK_SIZE));
+      const produced = decoder.decode(output, 0, output.length, 0);
+      if (produced === 0) throw corrupt();
+      stream.push(produced < output.length ? output.slice(0, produced) : output);
+      remaining -= produced;
+    }
+  };
+
+  return new Transform({
+    transform: function (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+      if (finished) {
+        callback();
+        return;
+      }
+      const input = pending ? Buffer.concat([pending, chunk]) : chunk;
+      let offset = 0;
+      try {
+        while (offset < input.length) {
+          const control = input[offset];
+          if (control === 0) {
+            finished = true;
+            offset = input.length;
+            break;
+          }
+
+          let headerSize: number;
+          let size: number;
+          let packSize: number;
+          if (control === 1 || control === 2) {
+            headerSize = 3;
+            if (input.length - offset < headerSize) break;
+            size = input.readUInt16BE(offset + 1) + 1;
+            packSize = size;
+          } else if (control >= 0x80) {
+            headerSize = ((control >>> 5) & 3) >= 2 ? 6 : 5;
+            if (input.length - offset < headerSize) break;
+            size = (control & 0x1f) * 0x10000 + input.readUInt16BE(offset + 1) + 1;
+            packSize = input.readUInt16BE(offset + 3) + 1;
+          } else {
+            throw corrupt();
+          }
+          if (input.length - offset < headerSize + packSize) break;
+
+          const dataOffset = offset + headerSize;
+          decodeChunk(this, control, input.slice(offset, dataOffset), input.slice(dataOffset, dataOffset + packSize), size);
+          offset = dataOffset + packSize;
+        }
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      pending = offset < input.length ? input.slice(offset) : null;
+      callback();
+    },
+    flush: (callback: (error?: Error | null) => void) => {
+      if (pending && !finished) {
+        callback(createCodedError('Truncated LZMA2 stream', ErrorCode.TRUNCATED_ARCHIVE));
+        return;
+      }
+      callback();
+    },
+  }) as Stream.Transform;
+}
@@ -0,0 +1,400 @@
+// LZMA2 encoder - pure JavaScript LZMA2 stream writer for SevenZipWriter
+// Reference: LZMA SDK LzmaEnc.c / Lzma2Enc.c
+//
+// Encoder design (favours simplicity over ratio):
+//   - Greedy parsing with a 3-byte hash chain match finder
+//   - Literals and plain matches only (rep matches are never emitted)
+//   - Fixed lc=3, lp=0, pb=2
+//   - Input is split into chunks of at most CHUNK_SIZE bytes; every chunk resets
+//     the dictionary and coder state so chunks decode independently (streaming
+//     LZMA2 decoders handle each chunk with a fresh LZMA decoder)
+//   - Chunks that do not compress are stored as LZMA2 uncompressed chunks
+//
+// LZMA2 chunk layout:
+//   0x00                       end of stream
+//   0x01 / 0x02                uncompressed chunk (with / without dictionary reset)
+//     + 2 bytes                uncompressed size - 1 (big-endian)
+//   0x80 | reset << 5 | u >> 16  LZMA chunk
+//     + 2 bytes                uncompressed size - 1 (low 16 bits, big-endian)
+//     + 2 bytes                compressed size - 1 (big-endian)
+//     + 1 byte                 properties (only when reset >= 2)
+
+import { allocBuffer, bufferFrom } from 'extract-base-iterator';
+
+// Literal context / position parameters (7-Zip defaults)
+const LC = 3;
+const LP = 0;
+const PB = 2;
+const POS_STATE_MASK = (1 << PB) - 1;
+const PROPERTIES_BYTE = (PB * 5 + LP) * 9 + LC;
+
+// Chunking - 64KB of input keeps both compressed and uncompressed chunks within LZMA2 limits
+const CHUNK_SIZE = 1 << 16;
+
+// Match finder parameters
+const MIN_MATCH_LEN = 3;
+const MAX_MATCH_LEN = 273;
+const HASH_BITS = 16;
+const HASH_SIZE = 1 << HASH_BITS;
+const MAX_CHAIN_DEPTH = 32;
+
+// Range coder constants
+const kTopValue = 1 << 24;
+const kNumBitModelTotalBits = 11;
+const kBitModelTotal = 1 << kNumBitModelTotalBits;
+const kNumMoveBits = 5;
+const kProbInit = kBitModelTotal >>> 1;
+
+// Model constants
+const kNumStates = 12;
+const kNumLenToPosStates = 4;
+const kNumPosSlotBits = 6;
+const kStartPosModelIndex = 4;
+const kEndPosModelIndex = 14;
+const kNumFullDistances = 1 << (kEndPosModelIndex >>> 1);
+const kNumAlignBits = 4;
+const kNumLowLenBits = 3;
+const kNumMidLenBits = 3;
+const kNumHighLenBits = 8;
+const kNumLowLenSymbols = 1 << kNumLowLenBits;
+const kNumMidLenSymbols = 1 << kNumMidLenBits;
+
+export const DEFAULT_DICTIONARY_SIZE = 1 << 20;
+
+export interface Lzma2EncodeResult {
+  /** LZMA2 stream including the end marker */
+  data: Buffer;
+  /** 1-byte coder properties (dictionary size) for the 7z folder */
+  properties: Buffer;
+}
+
+/**
+ * Range encoder writing into a growable byte array
+ */
+class RangeEncoder {
+  private low = 0;
+  private range = 0xffffffff;
+  private cache = 0;
+  private cacheSize = 1;
+  private bytes: number[] = [];
+
+  encodeBit(probs: Uint16Array, index: number, bit: number): void {
+    const prob = probs[index];
+    const bound = (this.range >>> kNumBitModelTotalBits) * prob;
+    if (bit === 0) {
+      this.range = bound;
+      probs[index] = prob + ((kBitModelTotal - prob) >>> kNumMoveBits);
+    } else {
+      this.low += bound;
+      this.range = (this.range - bound) >>> 0;
+      probs[index] = prob - (prob >>> kNumMoveBits);
+    }
+    while (this.range < kTopValue) {
+      this.range = (this.range << 8) >>> 0;
+      this.shiftLow();
+    }
+  }
+
+  encodeDirectBits(value: number, numBits: number): void {
+    for (let i = numBits - 1; i >= 0; i--) {
+      this.range >>>= 1;
+      if ((value >>> i) & 1) this.low += this.range;
+      while (this.range < kTopValue) {
+        this.range = (this.range << 8) >>> 0;
+        this.shiftLow();
+      }
+    }
+  }
+
+  encodeBitTree(probs: Uint16Array, offset: number, numBits: number, value: number): void {
+    let m = 1;
+    for (let i = numBits - 1; i >= 0; i--) {
+      const bit = (value >>> i) & 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  encodeReverseBitTree(probs: Uint16Array, offset: number, numBits: number, value: number): void {
+    let m = 1;
+    for (let i = 0; i < numBits; i++) {
+      const bit = value & 1;
+      value >>>= 1;
+      this.encodeBit(probs, offset + m, bit);
+      m = (m << 1) | bit;
+    }
+  }
+
+  finish(): Buffer {
+    for (let i = 0; i < 5; i++) this.shiftLow();
+    return bufferFrom(this.bytes);
+  }
+
+  private shiftLow(): void {
+    // low is kept as a 33-bit number: bit 32 is the carry
+    if (this.low < 0xff000000 || this.low >= 0x100000000) {
+      const carry = this.low >= 0x100000000 ? 1 : 0;
+      let temp = this.cache;
+      do {
+        this.bytes.push((temp + carry) & 0xff);
+        temp = 0xff;
+      } while (--this.cacheSize !== 0);
+      this.cache = (this.low >>> 24) & 0xff;
+    }
+    this.cacheSize++;
+    this.low = (this.low & 0x00ffffff) * 256;
+  }
+}
+
+/**
+ * Probability models for one LZMA chunk (reset with the coder state)
+ */
+class LzmaModel {
+  isMatch = new Uint16Array(kNumStates << PB);
+  isRep = new Uint16Array(kNumStates);
+  posSlot = new Uint16Array(kNumLenToPosStates << kNumPosSlotBits);
+  posSpecial = new Uint16Array(1 + kNumFullDistances - kEndPosModelIndex);
+  align = new Uint16Array(1 << kNumAlignBits);
+  lenChoice = new Uint16Array(2);
+  lenLow = new Uint16Array((1 << PB) << kNumLowLenBits);
+  lenMid = new Uint16Array((1 << PB) << kNumMidLenBits);
+  lenHigh = new Uint16Array(1 << kNumHighLenBits);
+  literal = new Uint16Array(0x300 << (LC + LP));
+
+  constructor() {
+    const arrays = [this.isMatch, this.isRep, this.posSlot, this.posSpecial, this.align, this.lenChoice, this.lenLow, this.lenMid, this.lenHigh, this.literal];
+    for (let i = 0; i < arrays.length; i++) {
+      for (let j = 0; j < arrays[i].length; j++) arrays[i][j] = kProbInit;
+    }
+  }
+}
+
+/**
+ * Get the LZMA2 dictionary property byte covering at least dictSize bytes
+ */
+function getDictionaryProperty(dictSize: number): number {
+  for (let p = 0; p < 40; p++) {
+    if (lzma2DictionarySize(p) >= dictSize) return p;
+  }
+  return 40;
+}
+
+/**
+ * Decode an LZMA2 dictionary property byte into a dictionary size
+ */
+function lzma2DictionarySize(p: number): number {
+  if (p >= 40) return 0xffffffff;
+  return (2 | (p & 1)) * 2 ** ((p >>> 1) + 11);
+}
+
+function getPosSlot(dist: number): number {
+  if (dist < kStartPosModelIndex) return dist;
+  let n = 31;
+  while (((dist >>> n) & 1) === 0) n--;
+  return (n << 1) | ((dist >>> (n - 1)) & 1);
+}
+
+/**
+ * Hash chain match finder over the whole input (matches never cross a chunk start)
+ */
+class MatchFinder {
+  private input: Buffer;
+  private head: Int32Array;
+  private prev: Int32Array;
+  private windowSize: number;
+  matchLen = 0;
+  matchDist = 0;
+
+  constructor(input: Buffer, windowSize: number) {
+    this.input = input;
+    this.windowSize = windowSize;
+    this.head = new Int32Array(HASH_SIZE);
+    this.prev = new Int32Array(input.length);
+    for (let i = 0; i < HASH_SIZE; i++) this.head[i] = -1;
+  }
+
+  private hash(pos: number): number {
+    const input = this.input;
+    return ((input[pos] << 8) ^ (input[pos + 1] << 4) ^ (input[pos + 2] * 2654435761)) & (HASH_SIZE - 1);
+  }
+
+  insert(pos: number): void {
+    if (pos + MIN_MATCH_LEN > this.input.length) return;
+    const h = this.hash(pos);
+    this.prev[pos] = this.head[h];
+    this.head[h] = pos;
+  }
+
+  /**
+   * Find the longest match at pos within [start, limit). Result in matchLen / matchDist.
+   */
+  find(pos: number, start: number, limit: number): void {
+    const input = this.input;
+    this.matchLen = 0;
+    this.matchDist = 0;
+    const maxLen = Math.min(MAX_MATCH_LEN, limit - pos);
+    if (maxLen < MIN_MATCH_LEN) return;
+
+    let candidate = this.head[this.hash(pos)];
+    let depth = 0;
+    while (candidate >= start && depth++ < MAX_CHAIN_DEPTH) {
+      const dist = pos - candidate;
+      if (dist > this.windowSize) break;
+      if (input[candidate + this.matchLen] === input[pos + this.matchLen]) {
+        let len = 0;
+        while (len < maxLen && input[candidate + len] === input[pos + len]) len++;
+        if (len > this.matchLen) {
+          this.matchLen = len;
+          this.matchDist = dist - 1;
+          if (len === maxLen) break;
+        }
+      }
+      candidate = this.prev[candidate];
+    }
+    if (this.matchLen < MIN_MATCH_LEN) this.matchLen = 0;
+  }
+}
+
+/**
+ * Encode one chunk [start, end) as raw LZMA data with a fresh coder state
+ */
+function encodeChunk(input: Buffer, start: number, end: number, finder: MatchFinder): Buffer {
+  const rc = new RangeEncoder();
+  const model = new LzmaModel();
+  let state = 0;
+  let rep0 = 0;
+  let pos = start;
+
+  while (pos < end) {
+    const posState = pos & POS_STATE_MASK;
+    finder.find(pos, start, end);
+    const len = finder.matchLen;
+
+    if (len === 0) {
+      rc.encodeBit(model.isMatch, (state << PB) + posState, 0);
+      encodeLiteral(rc, model, input, start, pos, state, rep0);
+      state = state < 4 ? 0 : state < 10 ? state - 3 : state - 6;
+      finder.insert(pos);
+      pos++;
+      continue;
+    }
+
+    const dist = finder.matchDist;
+    rc.encodeBit(model.isMatch, (state << PB) + posState, 1);
+    rc.encodeBit(model.isRep, state, 0);
+    encodeLength(rc, model, len - 2, posState);
+    encodeDistance(rc, model, dist, len);
+    state = state < 7 ? 7 : 10;
+    rep0 = dist;
+
+    for (let i = 0; i < len; i++) finder.insert(pos + i);
+    pos += len;
+  }
+
+  return rc.finish();
+}
+
+function encodeLiteral(rc: RangeEncoder, model: LzmaModel, input: Buffer, start: number, pos: number, state: number, rep0: number): void {
+  // The dictionary reset at the chunk start also clears the previous byte
+  const prevByte = pos > start ? input[pos - 1] : 0;
+  const offset = 0x300 * (((pos & ((1 << LP) - 1)) << LC) + (prevByte >>> (8 - LC)));
+  let symbol = input[pos] | 0x100;
+
+  if (state < 7) {
+    do {
+      rc.encodeBit(model.literal, offset + (symbol >>> 8), (symbol >>> 7) & 1);
+      symbol <<= 1;
+    } while (symbol < 0x10000);
+    return;
+  }
+
+  // After a match the decoder uses the byte at rep0 as extra context
+  let matchByte = input[pos - rep0 - 1];
+  let offs = 0x100;
+  do {
+    matchByte <<= 1;
+    rc.encodeBit(model.literal, offset + offs + (matchByte & offs) + (symbol >>> 8), (symbol >>> 7) & 1);
+    symbol <<= 1;
+    offs &= ~(matchByte ^ symbol);
+  } while (symbol < 0x10000);
+}
+
+function encodeLength(rc: RangeEncoder, model: LzmaModel, len: number, posState: number): void {
+  if (len < kNumLowLenSymbols) {
+    rc.encodeBit(model.lenChoice, 0, 0);
+    rc.encodeBitTree(model.lenLow, posState << kNumLowLenBits, kNumLowLenBits, len);
+    return;
+  }
+  rc.encodeBit(model.lenChoice, 0, 1);
+  if (len < kNumLowLenSymbols + kNumMidLenSymbols) {
+    rc.encodeBit(model.lenChoice, 1, 0);
+    rc.encodeBitTree(model.lenMid, posState << kNumMidLenBits, kNumMidLenBits, len - kNumLowLenSymbols);
+    return;
+  }
+  rc.encodeBit(model.lenChoice, 1, 1);
+  rc.encodeBitTree(model.lenHigh, 0, kNumHighLenBits, len - kNumLowLenSymbols - kNumMidLenSymbols);
+}
+
+function encodeDistance(rc: RangeEncoder, model: LzmaModel, dist: number, len: number): void {
+  const lenToPosState = Math.min(len - 2, kNumLenToPosStates - 1);
+  const posSlot = getPosSlot(dist);
+  rc.encodeBitTree(model.posSlot, lenToPosState << kNumPosSlotBits, kNumPosSlotBits, posSlot);
+
+  if (posSlot < kStartPosModelIndex) return;
+
+  const footerBits = (posSlot >>> 1) - 1;
+  const base = (2 | (posSlot & 1)) << footerBits;
+  const posReduced = dist - base;
+
+  if (posSlot < kEndPosModelIndex) {
+    rc.encodeReverseBitTree(model.posSpecial, base - posSlot - 1, footerBits, posReduced);
+    return;
+  }
+  rc.encodeDirectBits(posReduced >>> kNumAlignBits, footerBits - kNumAlignBits);
+  rc.encodeReverseBitTree(model.align, 0, kNumAlignBits, posReduced & ((1 << kNumAlignBits) - 1));
+}
+
+/**
+ * Encode a buffer as an LZMA2 stream
+ *
+ * @param input - Data to compress
+ * @param dictionarySize - Requested dictionary size (clamped to the input size)
+ * @returns LZMA2 data and the 7z coder properties byte
+ */
+export function encodeLzma2(input: Buffer, dictionarySize?: number): Lzma2EncodeResult {
+  const requested = Math.max(4096, Math.min(dictionarySize || DEFAULT_DICTIONARY_SIZE, input.length));
+  const dictProp = getDictionaryProperty(requested);
+  const windowSize = Math.min(lzma2DictionarySize(dictProp), 0x7fffffff);
+
+  const finder = new MatchFinder(input, windowSize);
+  const parts: Buffer[] = [];
+  for (let start = 0; start < input.length; start += CHUNK_SIZE) {
+    const end = Math.min(start + CHUNK_SIZE, input.length);
+    const unpackSize = end - start;
+    const packed = encodeChunk(input, start, end, finder);
+
+    if (packed.length < unpackSize) {
+      const header = allocBuffer(6);
+      const u = unpackSize - 1;
+      const c = packed.length - 1;
+      header[0] = 0xe0 | ((u >>> 16) & 0x1f);
+      header[1] = (u >>> 8) & 0xff;
+      header[2] = u & 0xff;
+      header[3] = (c >>> 8) & 0xff;
+      header[4] = c & 0xff;
+      header[5] = PROPERTIES_BYTE;
+      parts.push(header, packed);
+    } else {
+      // Incompressible - store raw
+      const header = allocBuffer(3);
+      const u = unpackSize - 1;
+      header[0] = 0x01;
+      header[1] = (u >>> 8) & 0xff;
+      header[2] = u & 0xff;
+      parts.push(header, input.slice(start, end));
+    }
+  }
+
+  parts.push(bufferFrom([0x00]));
+  return { data: Buffer.concat(parts), properties: bufferFrom([dictProp]) };
+}
@@ -0,0 +1,995 @@
+// PPMd codec - PPMd variant H (PPMd7) with the 7z range coder
+// Used by 7-Zip for text-heavy data (-m0=PPMd)
+// Reference: LZMA SDK Ppmd7.c, Ppmd7Dec.c
+//
+// Properties (5 bytes): model order (1 byte) + model memory size (UInt32 LE)
+//
+// Like the reference implementation the whole model lives in one heap buffer,
+// with heap offsets standing in for pointers (0 is null):
+//   Context (12 bytes): NumStats u16, SummFreq u16, Stats u32, Suffix u32
+//   State (6 bytes): Symbol u8, Freq u8, Successor u32
+// A context with a single state stores it inline at offset 2 (OneState).
+
+import { allocBuffer, Transform } from 'extract-base-iterator';
+import type Stream from 'stream';
+import { createCodedError, ErrorCode } from '../constants.ts';
+
+const MIN_ORDER = 2;
+const MAX_ORDER = 64;
+const MIN_MEM_SIZE = 1 << 11;
+const MAX_MEM_SIZE = 0xffffffff - 12 * 3;
+
+const INT_BITS = 7;
+const PERIOD_BITS = 7;
+const BIN_SCALE = 1 << (INT_BITS + PERIOD_BITS);
+const MAX_FREQ = 124;
+const UNIT_SIZE = 12;
+const STATE_SIZE = 6;
+const NUM_INDEXES = 38; // 4 + 4 + 4 + 26 unit size classes
+
+const kTopValue = 1 << 24;
+const kExpEscape = [25, 14, 9, 7, 5, 5, 4, 4, 4, 3, 3, 3, 2, 2, 2, 2];
+const kInitBinEsc = [0x3cdd, 0x1f3f, 0x59bf, 0x48f3, 0x64a1, 0x5abc, 0x6632, 0x6051];
+
+// Worst case input per symbol: one range decode per context order, two bytes each
+const INPUT_MARGIN = 2 * (MAX_ORDER + 4);
+const OUTPUT_CHUNK_SIZE = 65536;
+
+// Symbol results for end mark and corrupt data
+const SYMBOL_END = -1;
+const SYMBOL_ERROR = -2;
+
+interface See {
+  summ: number;
+  shift: number;
+  count: number;
+}
+
+interface State {
+  symbol: number;
+  freq: number;
+  successor: number;
+}
+
+/**
+ * Parse and validate PPMd properties
+ */
+function parseProperties(properties?: Buffer): { order: number; memSize: number } {
+  if (!properties || properties.length < 5) {
+    throw createCodedError('PPMd requires 5-byte properties', ErrorCode.CORRUPT_HEADER);
+  }
+  const order = properties[0];
+  const memSize = properties.readUInt32LE(1);
+  if (order < MIN_ORDER || order > MAX_ORDER || memSize < MIN_MEM_SIZE || memSize > MAX_MEM_SIZE) {
+    throw createCodedError(`Unsupported PPMd properties: order ${order}, memory ${memSize}`, ErrorCode.UNSUPPORTED_FEATURE);
+  }
+  return { order: order, memSize: memSize };
+}
+
+/**
+ * PPMd7 model and 7z range decoder
+ *
+ * Input is supplied incrementally with push(); bytes past the end read as zero,
+ * so callers keep INPUT_MARGIN bytes buffered until the input is complete.
+ */
+class Ppmd7Decoder {
+  private heap: Buffer;
+  private size: number;
+  private alignOffset: number;
+  private maxOrder: number;
+
+  // Allocator
+  private text = 0;
+  private unitsStart = 0;
+  private loUnit = 0;
+  private hiUnit = 0;
+  private glueCount = 0;
+  private freeList: number[] = [];
+  private indx2Units: number[] = [];
+  private units2Indx: number[] = [];
+
+  // Model
+  private minContext = 0;
+  private maxContext = 0;
+  private foundState = 0;
+  private orderFall = 0;
+  private initEsc = 0;
+  private prevSuccess = 0;
+  private hiBitsFlag = 0;
+  private runLength = 0;
+  private initRL = 0;
+  private ns2Indx: number[] = [];
+  private ns2BSIndx: number[] = [];
+  private hb2Flag: number[] = [];
+  private see: See[] = [];
+  private dummySee: See = { summ: 0, shift: PERIOD_BITS, count: 64 };
+  private binSumm: number[] = [];
+  private charMask: number[] = [];
+
+  // Range decoder
+  private range = 0xffffffff;
+  private code = 0;
+  private input: Buffer | null = null;
+  private inPos = 0;
+  private initialized = false;
+
+  constructor(order: number, memSize: number) {
+    this.maxOrder = order;
+    this.size = memSize;
+    this.alignOffset = 4 - (memSize & 3);
+    this.heap = allocBuffer(this.alignOffset + memSize + UNIT_SIZE);
+
+    let k = 0;
+    for (let i = 0; i < NUM_INDEXES; i++) {
+      let step = i >= 12 ? 4 : (i >>> 2) + 1;
+      do {
+        this.units2Indx[k++] = i;
+      } while (--step);
+      this.indx2Units[i] = k;
+      this.freeList[i] = 0;
+    }
+
+    this.ns2BSIndx[0] = 0 << 1;
+    this.ns2BSIndx[1] = 1 << 1;
+    for (let i = 2; i < 11; i++) this.ns2BSIndx[i] = 2 << 1;
+    for (let i = 11; i < 256; i++) this.ns2BSIndx[i] = 3 << 1;
+
+    let m = 3;
+    k = 1;
+    for (let i = 0; i < 256; i++) {
+      if (i < 3) {
+        this.ns2Indx[i] = i;
+        continue;
+      }
+      this.ns2Indx[i] = m;
+      if (--k === 0) k = ++m - 2;
+    }
+
+    for (let i = 0; i < 256; i++) {
+      this.hb2Flag[i] = i < 0x40 ? 0 : 8;
+      this.charMask[i] = 0;
+    }
+    for (let i = 0; i < 25 * 16; i++) this.see[i] = { summ: 0, shift: 0, count: 0 };
+    for (let i = 0; i < 128 * 64; i++) this.binSumm[i] = 0;
+
+    this.restartModel();
+  }
+
+  /**
+   * Number of input bytes buffered but not yet consumed
+   */
+  available(): number {
+    return this.input ? this.input.length - this.inPos : 0;
+  }
+
+  /**
+   * Append input data
+   */
+  push(chunk: Buffer): void {
+    if (!this.input || this.inPos >= this.input.length) {
+      this.input = chunk;
+    } else {
+      this.input = Buffer.concat([this.input.slice(this.inPos), chunk]);
+    }
+    this.inPos = 0;
+  }
+
+  /**
+   * Decode up to `count` bytes into output at offset
+   * @returns number of bytes decoded (fewer at an end mark)
+   */
+  decode(output: Buffer, offset: number, count: number): number {
+    if (!this.initialized) this.initRangeDecoder();
+
+    for (let i = 0; i < count; i++) {
+      const symbol = this.decodeSymbol();
+      if (symbol < 0) {
+        if (symbol === SYMBOL_END) return i;
+        throw createCodedError('PPMd data is corrupt', ErrorCode.DECOMPRESSION_FAILED);
+      }
+      output[offset + i] = symbol;
+    }
+    return count;
+  }
+
+  // ============================================================
+  // RANGE DECODER (7z variant)
+  // ============================================================
+
+  private readByte(): number {
+    const input = this.input;
+    return input && this.inPos < input.length ? input[this.inPos++] : 0;
+  }
+
+  private initRangeDecoder(): void {
+    this.initialized = true;
+    this.code = 0;
+    this.range = 0xffffffff;
+    if (this.readByte() !== 0) throw createCodedError('PPMd data is corrupt', ErrorCode.DECOMPRESSION_FAILED);
+    for (let i = 0; i < 4; i++) this.code = ((this.code << 8) | this.readByte()) >>> 0;
+    if (this.code === 0xffffffff) throw createCodedError('PPMd data is corrupt', ErrorCode.DECOMPRESSION_FAILED);
+  }
+
+  private getThreshold(total: number): number {
+    this.range = Math.floor(this.range / total);
+    // A collapsed range only happens on corrupt input - report an out of range count
+    return this.range === 0 ? total : Math.floor(this.code / this.range);
+  }
+
+  private normalize(): void {
+    if (this.range < kTopValue) {
+      this.code = ((this.code << 8) | this.readByte()) >>> 0;
+      this.range = (this.range << 8) >>> 0;
+      if (this.range < kTopValue) {
+        this.code = ((this.code << 8) | this.readByte()) >>> 0;
+        this.range = (this.range << 8) >>> 0;
+      }
+    }
+  }
+
+  private rangeDecode(start: number, size: number): void {
+    this.code = (this.code - start * this.range) >>> 0;
+    this.range = (this.range * size) >>> 0;
+    this.normalize();
+  }
+
+  private rangeDecodeBit(size0: number, total: number): number {
+    const newBound = Math.floor(this.range / total) * size0;
+    let symbol: number;
+    if (this.code < newBound) {
+      symbol = 0;
+      this.range = newBound;
+    } else {
+      symbol = 1;
+      this.code -= newBound;
+      this.range -= newBound;
+    }
+    this.normalize();
+    return symbol;
+  }
+
+  // ============================================================
+  // HEAP ACCESS
+  // ============================================================
+
+  private u16(offset: number): number {
+    const heap = this.heap;
+    return heap[offset] | (heap[offset + 1] << 8);
+  }
+
+  private setU16(offset: number, value: number): void {
+    const heap = this.heap;
+    heap[offset] = value & 0xff;
+    heap[offset + 1] = (value >>> 8) & 0xff;
+  }
+
+  private u32(offset: number): number {
+    const heap = this.heap;
+    return (heap[offset] | (heap[offset + 1] << 8) | (heap[offset + 2] << 16) | (heap[offset + 3] << 24)) >>> 0;
+  }
+
+  private setU32(offset: number, value: number): void {
+    const heap = this.heap;
+    heap[offset] = value & 0xff;
+    heap[offset + 1] = (value >>> 8) & 0xff;
+    heap[offset + 2] = (value >>> 16) & 0xff;
+    heap[offset + 3] = (value >>> 24) & 0xff;
+  }
+
+  private numStats(ctx: number): number {
+    return this.u16(ctx);
+  }
+
+  private summFreq(ctx: number): number {
+    return this.u16(ctx + 2);
+  }
+
+  private stats(ctx: number): number {
+    return this.u32(ctx + 4);
+  }
+
+  private suffix(ctx: number): number {
+    return this.u32(ctx + 8);
+  }
+
+  private successor(state: number): number {
+    return this.u32(state + 2);
+  }
+
+  private readState(state: number): State {
+    return { symbol: this.heap[state], freq: this.heap[state + 1], successor: this.u32(state + 2) };
+  }
+
+  private writeState(state: number, value: State): void {
+    this.heap[state] = value.symbol;
+    this.heap[state + 1] = value.freq;
+    this.setU32(state + 2, value.successor);
+  }
+
+  private copyState(dest: number, src: number): void {
+    this.heap.copy(this.heap, dest, src, src + STATE_SIZE);
+  }
+
+  private swapStates(a: number, b: number): void {
+    const tmp = this.readState(a);
+    this.copyState(a, b);
+    this.writeState(b, tmp);
+  }
+
+  // ============================================================
+  // SUB-ALLOCATOR
+  // ============================================================
+
+  private insertNode(node: number, indx: number): void {
+    this.setU32(node, this.freeList[indx]);
+    this.freeList[indx] = node;
+  }
+
+  private removeNode(indx: number): number {
+    const node = this.freeList[indx];
+    this.freeList[indx] = this.u32(node);
+    return node;
+  }
+
+  private splitBlock(ptr: number, oldIndx: number, newIndx: number): void {
+    const nu = this.indx2Units[oldIndx] - this.indx2Units[newIndx];
+    ptr += this.indx2Units[newIndx] * UNIT_SIZE;
+    let i = this.units2Indx[nu - 1];
+    if (this.indx2Units[i] !== nu) {
+      const k = this.indx2Units[--i];
+      this.insertNode(ptr + k * UNIT_SIZE, nu - k - 1);
+    }
+    this.insertNode(ptr, i);
+  }
+
+  /**
+   * Merge adjacent free blocks and refill the free lists
+   * Node layout while gluing: Stamp u16, NU u16, Next u32, Prev u32
+   */
+  private glueFreeBlocks(): void {
+    const head = this.alignOffset + this.size;
+    let n = head;
+
+    this.glueCount = 255;
+
+    // Create a doubly-linked list of all free blocks
+    for (let i = 0; i < NUM_INDEXES; i++) {
+      const nu = this.indx2Units[i];
+      let next = this.freeList[i];
+      this.freeList[i] = 0;
+      while (next !== 0) {
+        const node = next;
+        this.setU32(node + 4, n);
+        this.setU32(n + 8, next);
+        n = next;
+        next = this.u32(node);
+        this.setU16(node, 0);
+        this.setU16(node + 2, nu);
+      }
+    }
+    this.setU16(head, 1);
+    this.setU32(head + 4, n);
+    this.setU32(n + 8, head);
+    if (this.loUnit !== this.hiUnit) this.setU16(this.loUnit, 1);
+
+    // Glue adjacent free blocks
+    while (n !== head) {
+      const node = n;
+      let nu = this.u16(node + 2);
+      for (;;) {
+        const node2 = node + nu * UNIT_SIZE;
+        nu += this.u16(node2 + 2);
+        if (this.u16(node2) !== 0 || nu >= 0x10000) break;
+        this.setU32(this.u32(node2 + 8) + 4, this.u32(node2 + 4));
+        this.setU32(this.u32(node2 + 4) + 8, this.u32(node2 + 8));
+        this.setU16(node + 2, nu);
+      }
+      n = this.u32(node + 4);
+    }
+
+    // Fill lists of free blocks
+    for (n = this.u32(head + 4); n !== head; ) {
+      let node = n;
+      const next = this.u32(node + 4);
+      let nu = this.u16(node + 2);
+      for (; nu > 128; nu -= 128, node += 128 * UNIT_SIZE) this.insertNode(node, NUM_INDEXES - 1);
+      let i = this.units2Indx[nu - 1];
+      if (this.indx2Units[i] !== nu) {
+        const k = this.indx2Units[--i];
+        this.insertNode(node + k * UNIT_SIZE, nu - k - 1);
+      }
+      this.insertNode(node, i);
+      n = next;
+    }
+  }
+
+  private allocUnitsRare(indx: number): number {
+    if (this.glueCount === 0) {
+      this.glueFreeBlocks();
+      if (this.freeList[indx] !== 0) return this.removeNode(indx);
+    }
+    let i = indx;
+    do {
+      if (++i === NUM_INDEXES) {
+        const numBytes = this.indx2Units[indx] * UNIT_SIZE;
+        this.glueCount--;
+        if (this.unitsStart - this.text > numBytes) {
+          this.unitsStart -= numBytes;
+          return this.unitsStart;
+        }
+        return 0;
+      }
+    } while (this.freeList[i] === 0);
+    const retVal = this.removeNode(i);
+    this.splitBlock(retVal, i, indx);
+    return retVal;
+  }
+
+  private allocUnits(indx: number): number {
+    if (this.freeList[indx] !== 0) return this.removeNode(indx);
+    const numBytes = this.indx2Units[indx] * UNIT_SIZE;
+    if (numBytes <= this.hiUnit - this.loUnit) {
+      const retVal = this.loUnit;
+      this.loUnit += numBytes;
+      return retVal;
+    }
+    return this.allocUnitsRare(indx);
+  }
+
+  private shrinkUnits(oldPtr: number, oldNU: number, newNU: number): number {
+    const i0 = this.units2Indx[oldNU - 1];
+    const i1 = this.units2Indx[newNU - 1];
+    if (i0 === i1) return oldPtr;
+    if (this.freeList[i1] !== 0) {
+      const ptr = this.removeNode(i1);
+      this.heap.copy(this.heap, ptr, oldPtr, oldPtr + newNU * UNIT_SIZE);
+      this.insertNode(oldPtr, i0);
+      return ptr;
+    }
+    this.splitBlock(oldPtr, i0, i1);
+    return oldPtr;
+  }
+
+  // ============================================================
+  // MODEL
+  // ============================================================
+
+  private restartModel(): void {
+    for (let i = 0; i < NUM_INDEXES; i++) this.freeList[i] = 0;
+    this.text = this.alignOffset;
+    this.hiUnit = this.text + this.size;
+    this.loUnit = this.unitsStart = this.hiUnit - Math.floor(this.size / 8 / UNIT_SIZE) * 7 * UNIT_SIZE;
+    this.glueCount = 0;
+
+    this.orderFall = this.maxOrder;
+    this.runLength = this.initRL = -(this.maxOrder < 12 ? this.maxOrder : 12) - 1;
+    this.prevSuccess = 0;
+
+    this.hiUnit -= UNIT_SIZE;
+    const ctx = this.hiUnit;
+    this.minContext = this.maxContext = ctx;
+    this.setU32(ctx + 8, 0);
+    this.setU16(ctx, 256);
+    this.setU16(ctx + 2, 256 + 1);
+    this.foundState = this.loUnit;
+    this.setU32(ctx + 4, this.foundState);
+    this.loUnit += (256 / 2) * UNIT_SIZE;
+    for (let i = 0; i < 256; i++) {
+      const s = this.foundState + i * STATE_SIZE;
+      this.heap[s] = i;
+      this.heap[s + 1] = 1;
+      this.setU32(s + 2, 0);
+    }
+
+    for (let i = 0; i < 128; i++) {
+      for (let k = 0; k < 8; k++) {
+        const val = BIN_SCALE - Math.floor(kInitBinEsc[k] / (i + 2));
+        for (let m = 0; m < 64; m += 8) this.binSumm[i * 64 + k + m] = val;
+      }
+    }
+
+    for (let i = 0; i < 25; i++) {
+      for (let k = 0; k < 16; k++) {
+        const see = this.see[i * 16 + k];
+        see.shift = PERIOD_BITS - 4;
+        see.summ = (5 * i + 10) << see.shift;
+        see.count = 4;
+      }
+    }
+  }
+
+  private createSuccessors(skip: boolean): number {
+    let c = this.minContext;
+    const upBranch = this.successor(this.foundState);
+    const fsSymbol = this.heap[this.foundState];
+    const ps: number[] = [];
+
+    if (!skip) ps.push(this.foundState);
+
+    while (this.suffix(c)) {
+      c = this.suffix(c);
+      let s: number;
+      if (this.numStats(c) !== 1) {
+        for (s = this.stats(c); this.heap[s] !== fsSymbol; s += STATE_SIZE);
+      } else {
+        s = c + 2;
+      }
+      const successor = this.successor(s);
+      if (successor !== upBranch) {
+        c = successor;
+        if (ps.length === 0) return c;
+        break;
+      }
+      ps.push(s);
+    }
+
+    const upSymbol = this.heap[upBranch];
+    const upSuccessor = upBranch + 1;
+    let upFreq: number;
+    if (this.numStats(c) === 1) {
+      upFreq = this.heap[c + 3];
+    } else {
+      let s: number;
+      for (s = this.stats(c); this.heap[s] !== upSymbol; s += STATE_SIZE);
+      const cf = this.heap[s + 1] - 1;
+      const s0 = this.summFreq(c) - this.numStats(c) - cf;
+      upFreq = (1 + (2 * cf <= s0 ? (5 * cf > s0 ? 1 : 0) : Math.floor((2 * cf + 3 * s0 - 1) / (2 * s0)))) & 0xff;
+    }
+
+    do {
+      let c1: number;
+      if (this.hiUnit !== this.loUnit) {
+        this.hiUnit -= UNIT_SIZE;
+        c1 = this.hiUnit;
+      } else if (this.freeList[0] !== 0) {
+        c1 = this.removeNode(0);
+      } else {
+        c1 = this.allocUnitsRare(0);
+        if (!c1) return 0;
+      }
+      this.setU16(c1, 1);
+      this.heap[c1 + 2] = upSymbol;
+      this.heap[c1 + 3] = upFreq;
+      this.setU32(c1 + 4, upSuccessor);
+      this.setU32(c1 + 8, c);
+      this.setU32((ps.pop() as number) + 2, c1);
+      c = c1;
+    } while (ps.length !== 0);
+
+    return c;
+  }
+
+  private updateModel(): void {
+    const fsSymbol = this.heap[this.foundState];
+    let fSuccessor = this.successor(this.foundState);
+
+    if (this.heap[this.foundState + 1] < MAX_FREQ / 4 && this.suffix(this.minContext) !== 0) {
+      const c = this.suffix(this.minContext);
+      if (this.numStats(c) === 1) {
+        const s = c + 2;
+        if (this.heap[s + 1] < 32) this.heap[s + 1]++;
+      } else {
+        let s = this.stats(c);
+        if (this.heap[s] !== fsSymbol) {
+          do {
+            s += STATE_SIZE;
+          } while (this.heap[s] !== fsSymbol);
+          if (this.heap[s + 1] >= this.heap[s - STATE_SIZE + 1]) {
+            this.swapStates(s, s - STATE_SIZE);
+            s -= STATE_SIZE;
+          }
+        }
+        if (this.heap[s + 1] < MAX_FREQ - 9) {
+          this.heap[s + 1] += 2;
+          this.setU16(c + 2, this.summFreq(c) + 2);
+        }
+      }
+    }
+
+    if (this.orderFall === 0) {
+      this.minContext = this.maxContext = this.createSuccessors(true);
+      if (this.minContext === 0) {
+        this.restartModel();
+        return;
+      }
+      this.setU32(this.foundState + 2, this.minContext);
+      return;
+    }
+
+    this.heap[this.text++] = fsSymbol;
+    let successor = this.text;
+    if (this.text >= this.unitsStart) {
+      this.restartModel();
+      return;
+    }
+
+    if (fSuccessor) {
+      // Successors at or below the text position are raw text, not contexts yet
+      if (fSuccessor <= successor) {
+        const cs = this.createSuccessors(false);
+        if (cs === 0) {
+          this.restartModel();
+          return;
+        }
+        fSuccessor = cs;
+      }
+      if (--this.orderFall === 0) {
+        successor = fSuccessor;
+        if (this.maxContext !== this.minContext) this.text--;
+      }
+    } else {
+      this.setU32(this.foundState + 2, successor);
+      fSuccessor = this.minContext;
+    }
+
+    const ns = this.numStats(this.minContext);
+    const s0 = this.summFreq(this.minContext) - ns - (this.heap[this.foundState + 1] - 1);
+
+    for (let c = this.maxContext; c !== this.minContext; c = this.suffix(c)) {
+      const ns1 = this.numStats(c);
+      if (ns1 !== 1) {
+        if ((ns1 & 1) === 0) {
+          // Grow the stats block by one unit
+          const oldNU = ns1 >>> 1;
+          const i = this.units2Indx[oldNU - 1];
+          if (i !== this.units2Indx[oldNU]) {
+            const ptr = this.allocUnits(i + 1);
+            if (!ptr) {
+              this.restartModel();
+              return;
+            }
+            const oldPtr = this.stats(c);
+            this.heap.copy(this.heap, ptr, oldPtr, oldPtr + oldNU * UNIT_SIZE);
+            this.insertNode(oldPtr, i);
+            this.setU32(c + 4, ptr);
+          }
+        }
+        const summFreq = this.summFreq(c);
+        this.setU16(c + 2, summFreq + (2 * ns1 < ns ? 1 : 0) + 2 * (4 * ns1 <= ns && summFreq <= 8 * ns1 ? 1 : 0));
+      } else {
+        const s = this.allocUnits(0);
+        if (!s) {
+          this.restartModel();
+          return;
+        }
+        this.copyState(s, c + 2);
+        this.setU32(c + 4, s);
+        this.heap[s + 1] = this.heap[s + 1] < MAX_FREQ / 4 - 1 ? this.heap[s + 1] << 1 : MAX_FREQ - 4;
+        this.setU16(c + 2, this.heap[s + 1] + this.initEsc + (ns > 3 ? 1 : 0));
+      }
+
+      let cf = 2 * this.heap[this.foundState + 1] * (this.summFreq(c) + 6);
+      const sf = s0 + this.summFreq(c);
+      if (cf < 6 * sf) {
+        cf = 1 + (cf > sf ? 1 : 0) + (cf >= 4 * sf ? 1 : 0);
+        this.setU16(c + 2, this.summFreq(c) + 3);
+      } else {
+        cf = 4 + (cf >= 9 * sf ? 1 : 0) + (cf >= 12 * sf ? 1 : 0) + (cf >= 15 * sf ? 1 : 0);
+        this.setU16(c + 2, this.summFreq(c) + cf);
+      }
+
+      const s = this.stats(c) + ns1 * STATE_SIZE;
+      this.setU32(s + 2, successor);
+      this.heap[s] = fsSymbol;
+      this.heap[s + 1] = cf;
+      this.setU16(c, ns1 + 1);
+    }
+    this.maxContext = this.minContext = fSuccessor;
+  }
+
+  private rescale(): void {
+    const ctx = this.minContext;
+    const stats = this.stats(ctx);
+    const heap = this.heap;
+    let s = this.foundState;
+
+    // Move the found state to the front
+    const found = this.readState(s);
+    for (; s !== stats; s -= STATE_SIZE) this.copyState(s, s - STATE_SIZE);
+    this.writeState(s, found);
+
+    let escFreq = this.summFreq(ctx) - heap[s + 1];
+    heap[s + 1] += 4;
+    const adder = this.orderFall !== 0 ? 1 : 0;
+    heap[s + 1] = (heap[s + 1] + adder) >>> 1;
+    let sumFreq = heap[s + 1];
+
+    let i = this.numStats(ctx) - 1;
+    do {
+      s += STATE_SIZE;
+      escFreq -= heap[s + 1];
+      heap[s + 1] = (heap[s + 1] + adder) >>> 1;
+      sumFreq += heap[s + 1];
+      if (heap[s + 1] > heap[s - STATE_SIZE + 1]) {
+        let s1 = s;
+        const tmp = this.readState(s1);
+        do {
+          this.copyState(s1, s1 - STATE_SIZE);
+          s1 -= STATE_SIZE;
+        } while (s1 !== stats && tmp.freq > heap[s1 - STATE_SIZE + 1]);
+        this.writeState(s1, tmp);
+      }
+    } while (--i);
+
+    if (heap[s + 1] === 0) {
+      const numStats = this.numStats(ctx);
+      do {
+        i++;
+        s -= STATE_SIZE;
+      } while (heap[s + 1] === 0);
+      escFreq += i;
+      this.setU16(ctx, numStats - i);
+      if (numStats - i === 1) {
+        const tmp = this.readState(stats);
+        do {
+          tmp.freq -= tmp.freq >>> 1;
+          escFreq >>>= 1;
+        } while (escFreq > 1);
+        this.insertNode(stats, this.units2Indx[((numStats + 1) >>> 1) - 1]);
+        this.foundState = ctx + 2;
+        this.writeState(this.foundState, tmp);
+        return;
+      }
+      const n0 = (numStats + 1) >>> 1;
+      const n1 = (numStats - i + 1) >>> 1;
+      if (n0 !== n1) this.setU32(ctx + 4, this.shrinkUnits(stats, n0, n1));
+    }
+    this.setU16(ctx + 2, sumFreq + escFreq - (escFreq >>> 1));
+    this.foundState = this.stats(ctx);
+  }
+
+  private makeEscFreq(numMasked: number): { see: See; escFreq: number } {
+    const ctx = this.minContext;
+    const numStats = this.numStats(ctx);
+    if (numStats === 256) return { see: this.dummySee, escFreq: 1 };
+
+    const nonMasked = numStats - numMasked;
+    // Unsigned difference, as in the reference implementation
+    const suffixDiff = (this.numStats(this.suffix(ctx)) - numStats) >>> 0;
+    const index = this.ns2Indx[nonMasked - 1] * 16 + (nonMasked < suffixDiff ? 1 : 0) + 2 * (this.summFreq(ctx) < 11 * numStats ? 1 : 0) + 4 * (numMasked > nonMasked ? 1 : 0) + this.hiBitsFlag;
+    const see = this.see[index];
+    const r = see.summ >>> see.shift;
+    see.summ = (see.summ - r) & 0xffff;
+    return { see: see, escFreq: r + (r === 0 ? 1 : 0) };
+  }
+
+  private updateSee(see: See): void {
+    if (see.shift < PERIOD_BITS && --see.count === 0) {
+      see.summ = (see.summ << 1) & 0xffff;
+      see.count = (3 << see.shift++) & 0xff;
+    }
+  }
+
+  private nextContext(): void {
+    const c = this.successor(this.foundState);
+    if (this.orderFall === 0 && c > this.text) this.minContext = this.maxContext = c;
+    else this.updateModel();
+  }
+
+  private update1(): void {
+    let s = this.foundState;
+    this.heap[s + 1] += 4;
+    this.setU16(this.minContext + 2, this.summFreq(this.minContext) + 4);
+    if (this.heap[s + 1] > this.heap[s - STATE_SIZE + 1]) {
+      this.swapStates(s, s - STATE_SIZE);
+      this.foundState = s -= STATE_SIZE;
+      if (this.heap[s + 1] > MAX_FREQ) this.rescale();
+    }
+    this.nextContext();
+  }
+
+  private update1_0(): void {
+    this.prevSuccess = 2 * this.heap[this.foundState + 1] > this.summFreq(this.minContext) ? 1 : 0;
+    this.runLength += this.prevSuccess;
+    this.setU16(this.minContext + 2, this.summFreq(this.minContext) + 4);
+    this.heap[this.foundState + 1] += 4;
+    if (this.heap[this.foundState + 1] > MAX_FREQ) this.rescale();
+    this.nextContext();
+  }
+
+  private updateBin(): void {
+    const freq = this.heap[this.foundState + 1];
+    this.heap[this.foundState + 1] = freq + (freq < 128 ? 1 : 0);
+    this.prevSuccess = 1;
+    this.runLength++;
+    this.nextContext();
+  }
+
+  private update2(): void {
+    this.heap[this.foundState + 1] += 4;
+    this.setU16(this.minContext + 2, this.summFreq(this.minContext) + 4);
+    if (this.heap[this.foundState + 1] > MAX_FREQ) this.rescale();
+    this.runLength = this.initRL;
+    this.updateModel();
+  }
+
+  private decodeSymbol(): number {
+    const heap = this.heap;
+    const charMask = this.charMask;
+    let ctx = this.minContext;
+
+    if (this.numStats(ctx) !== 1) {
+      let s = this.stats(ctx);
+      const summFreq = this.summFreq(ctx);
+      const count = this.getThreshold(summFreq);
+      let hiCnt = heap[s + 1];
+      if (count < hiCnt) {
+        this.rangeDecode(0, heap[s + 1]);
+        this.foundState = s;
+        const symbol = heap[s];
+        this.update1_0();
+        return symbol;
+      }
+      this.prevSuccess = 0;
+      let i = this.numStats(ctx) - 1;
+      do {
+        s += STATE_SIZE;
+        hiCnt += heap[s + 1];
+        if (hiCnt > count) {
+          this.rangeDecode(hiCnt - heap[s + 1], heap[s + 1]);
+          this.foundState = s;
+          const symbol = heap[s];
+          this.update1();
+          return symbol;
+        }
+      } while (--i);
+      if (count >= summFreq) return SYMBOL_ERROR;
+      this.hiBitsFlag = this.hb2Flag[heap[this.foundState]];
+      this.rangeDecode(hiCnt, summFreq - hiCnt);
+      for (let k = 0; k < 256; k++) charMask[k] = 1;
+      charMask[heap[s]] = 0;
+      i = this.numStats(ctx) - 1;
+      do {
+        s -= STATE_SIZE;
+        charMask[heap[s]] = 0;
+      } while (--i);
+    } else {
+      const oneState = ctx + 2;
+      this.hiBitsFlag = this.hb2Flag[heap[this.foundState]];
+      const probIndex = (heap[oneState + 1] - 1) * 64 + this.prevSuccess + this.ns2BSIndx[this.numStats(this.suffix(ctx)) - 1] + this.hiBitsFlag + 2 * this.hb2Flag[heap[oneState]] + ((this.runLength >> 26) & 0x20);
+      const prob = this.binSumm[probIndex];
+      if (this.rangeDecodeBit(prob, BIN_SCALE) === 0) {
+        this.binSumm[probIndex] = prob + (1 << INT_BITS) - ((prob + 32) >>> 7);
+        this.foundState = oneState;
+        const symbol = heap[oneState];
+        this.updateBin();
+        return symbol;
+      }
+      this.binSumm[probIndex] = prob - ((prob + 32) >>> 7);
+      this.initEsc = kExpEscape[this.binSumm[probIndex] >>> 10];
+      for (let k = 0; k < 256; k++) charMask[k] = 1;
+      charMask[heap[oneState]] = 0;
+      this.prevSuccess = 0;
+    }
+
+    const ps: number[] = [];
+    for (;;) {
+      const numMasked = this.numStats(ctx);
+      do {
+        this.orderFall++;
+        if (!this.suffix(ctx)) return SYMBOL_END;
+        ctx = this.suffix(ctx);
+      } while (this.numStats(ctx) === numMasked);
+      this.minContext = ctx;
+
+      let hiCnt = 0;
+      let s = this.stats(ctx);
+      const num = this.numStats(ctx) - numMasked;
+      ps.length = 0;
+      while (ps.length !== num) {
+        if (charMask[heap[s]]) {
+          hiCnt += heap[s + 1];
+          ps.push(s);
+        }
+        s += STATE_SIZE;
+      }
+
+      const esc = this.makeEscFreq(numMasked);
+      const freqSum = esc.escFreq + hiCnt;
+      const count = this.getThreshold(freqSum);
+
+      if (count < hiCnt) {
+        let k = 0;
+        hiCnt = heap[ps[0] + 1];
+        while (hiCnt <= count) hiCnt += heap[ps[++k] + 1];
+        s = ps[k];
+        this.rangeDecode(hiCnt - heap[s + 1], heap[s + 1]);
+        this.updateSee(esc.see);
+        this.foundState = s;
+        const symbol = heap[s];
+        this.update2();
+        return symbol;
+      }
+      if (count >= freqSum) return SYMBOL_ERROR;
+      this.rangeDecode(hiCnt, freqSum - hiCnt);
+      esc.see.summ = (esc.see.summ + freqSum) & 0xffff;
+      for (let k = 0; k < ps.length; k++) charMask[heap[ps[k]]] = 0;
+    }
+  }
+}
+
+/**
+ * Decode PPMd compressed data synchronously
+ *
+ * @param input - PPMd compressed data
+ * @param properties - Order and memory size (5 bytes)
+ * @param unpackSize - Expected output size (required - 7z streams have no end mark)
+ * @returns Decompressed data
+ */
+export function decodePpmd(input: Buffer, properties?: Buffer, unpackSize?: number): Buffer {
+  const props = parseProperties(properties);
+  if (typeof unpackSize !== 'number' || unpackSize < 0) {
+    throw createCodedError('PPMd requires known unpack size', ErrorCode.CORRUPT_HEADER);
+  }
+
+  const decoder = new Ppmd7Decoder(props.order, props.memSize);
+  decoder.push(input);
+  const output = allocBuffer(unpackSize);
+  const decoded = decoder.decode(output, 0, unpackSize);
+  return decoded < unpackSize ? output.slice(0, decoded) : output;
+}
+
+/**
+ * Create a PPMd decoder Transform stream.
+ * Symbols are decoded as input arrives, keeping a small input margin buffered
+ * because the range decoder reads ahead; the remainder is decoded in flush.
+ */
+export function createPpmdDecoder(properties?: Buffer, unpackSize?: number): Stream.Transform {
+  const props = parseProperties(properties);
+  if (typeof unpackSize !== 'number' || unpackSize < 0) {
+    throw createCodedError('PPMd requires known unpack size', ErrorCode.CORRUPT_HEADER);
+  }
+
+  const decoder = new Ppmd7Decoder(props.order, props.memSize);
+  let remaining = unpackSize;
+  let ended = false;
+
+  const decodeChunk = (): Buffer | null => {
+    const size = Math.min(remaining, OUTPUT_CHUNK_SIZE);
+    const output = allocBuffer(size);
+    let produced = 0;
+    let endMark = false;
+    // Stop early while streaming so the range decoder never reads past buffered input
+    while (produced < size && (ended || decoder.available() >= INPUT_MARGIN)) {
+      if (decoder.decode(output, produced, 1) === 0) {
+        endMark = true;
+        break;
+      }
+      produced++;
+    }
+    remaining = endMark ? 0 : remaining - produced;
+    if (produced === 0) return null;
+    return produced < size ? output.slice(0, produced) : output;
+  };
+
+  return new Transform({
+    transform: function (chunk: Buffer, _encoding: string, callback: (error?: Error | null) => void) {
+      decoder.push(chunk);
+      try {
+        while (remaining > 0 && decoder.available() >= INPUT_MARGIN) {
+          const output = decodeChunk();
+          if (!output) break;
+          this.push(output);
+        }
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      callback();
+    },
+    flush: function (callback: (error?: Error | null) => void) {
+      ended = true;
+      try {
+        while (remaining > 0) {
+          const output = decodeChunk();
+          if (!output) break;
+          this.push(output);
+        }
+      } catch (err) {
+        callback(err as Error);
+        return;
+      }
+      callback();
+    },
+  }) as Stream.Transform;
+}
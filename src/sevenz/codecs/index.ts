@@ -3,48 +3,27 @@
 
 import type { BufferLike } from 'extract-base-iterator';
 import type { Transform } from 'stream';
-import {
-  createLzma2Decoder as _createLzma2Decoder,
-  createLzmaDecoder as _createLzmaDecoder,
-  type DecodeCallback as CodecDecodeCallback,
-  createBcjArm64Decoder,
-  createBcjArmDecoder,
-  createBcjArmtDecoder,
-  createBcjDecoder,
-  createBcjIa64Decoder,
-  createBcjPpcDecoder,
-  createBcjSparcDecoder,
-  createDeltaDecoder,
-  decode7zLzma,
-  decode7zLzma2,
-  decodeBcj,
-  decodeBcjArm,
-  decodeBcjArm64,
-  decodeBcjArmt,
-  decodeBcjIa64,
-  decodeBcjPpc,
-  decodeBcjSparc,
-  decodeDelta,
-} from 'xz-compat';
+import { type DecodeCallback as CodecDecodeCallback, createBcjArmDecoder, createBcjDecoder, createDeltaDecoder, decode7zLzma, decode7zLzma2, decodeBcj, decodeBcjArm, decodeDelta } from 'xz-compat';
 import { CodecId, createCodedError, ErrorCode } from '../constants.ts';
-import { createAesDecoder, decodeAes, getPassword, setPassword } from './Aes.ts';
-import { createBcj2Decoder, decodeBcj2, decodeBcj2Multi } from './Bcj2.ts';
+import { createAesDecoder, decodeAes } from './Aes.ts';
+import { createBcj2Decoder, createBcj2MultiStream, decodeBcj2, decodeBcj2Multi } from './Bcj2.ts';
+import { createBcjArm64Decoder, createBcjArmtDecoder, createBcjIa64Decoder, createBcjPpcDecoder, createBcjSparcDecoder, decodeBcjArm64, decodeBcjArmt, decodeBcjIa64, decodeBcjPpc, decodeBcjSparc } from './Branch.ts';
 import { createBzip2Decoder, decodeBzip2 } from './BZip2.ts';
 import { createCopyDecoder, decodeCopy } from './Copy.ts';
 import { createDeflateDecoder, decodeDeflate } from './Deflate.ts';
-
-// Re-export password functions for API access
-export { getPassword, setPassword };
+import { createLzmaDecoder } from './Lzma.ts';
+import { createLzma2Decoder } from './Lzma2.ts';
+import { createPpmdDecoder, decodePpmd } from './Ppmd.ts';
 
 const schedule = typeof setImmediate === 'function' ? setImmediate : (fn: () => void) => process.nextTick(fn);
 
-function wrapSyncDecode(fn: (input: Buffer, properties?: Buffer, unpackSize?: number) => Buffer): Codec['decode'] {
-  return (input, properties, unpackSize, callback) => {
+function wrapSyncDecode(fn: (input: Buffer, properties?: Buffer, unpackSize?: number, options?: CodecOptions) => Buffer): Codec['decode'] {
+  return (input, properties, unpackSize, callback, options) => {
     schedule(() => {
       try {
         // Convert BufferList to Buffer if needed (these simpler decoders need contiguous memory)
         const buf = Buffer.isBuffer(input) ? input : input.toBuffer();
-        callback(null, fn(buf, properties, unpackSize));
+        callback(null, fn(buf, properties, unpackSize, options));
       } catch (err) {
         callback(err as Error);
       }
@@ -52,9 +31,19 @@ function wrapSyncDecode(fn: (input: Buffer, properties?: Buffer, unpackSize?: nu
   };
 }
 
+/**
+ * Per-archive codec options, owned by a SevenZipParser so concurrent archives never share state
+ */
+export interface CodecOptions {
+  /** Password for AES-encrypted folders */
+  password?: string | null;
+  /** Derived AES keys by salt / cycle count (valid for the current password only) */
+  keyCache?: { [key: string]: Buffer };
+}
+
 export interface Codec {
-  decode: (input: BufferLike, properties: Buffer | undefined, unpackSize: number | undefined, callback: CodecDecodeCallback<Buffer>) => void;
-  createDecoder: (properties?: Buffer, unpackSize?: number) => Transform;
+  decode: (input: BufferLike, properties: Buffer | undefined, unpackSize: number | undefined, callback: CodecDecodeCallback<Buffer>, options?: CodecOptions) => void;
+  createDecoder: (properties?: Buffer, unpackSize?: number, options?: CodecOptions) => Transform;
 }
 
 // Simple wrappers with validation that use xz-compat's optimized decode7zLzma/decode7zLzma2
@@ -66,16 +55,6 @@ function decodeLzma(input: BufferLike, properties: Buffer, unpackSize: number, c
   decode7zLzma(input, properties, unpackSize, callback);
 }
 
-function createLzmaDecoder(properties?: Buffer, unpackSize?: number): Transform {
-  if (!properties || properties.length < 5) {
-    throw new Error('LZMA requires 5-byte properties');
-  }
-  if (typeof unpackSize !== 'number' || unpackSize < 0) {
-    throw new Error('LZMA requires known unpack size');
-  }
-  return _createLzmaDecoder(properties, unpackSize) as Transform;
-}
-
 function decodeLzma2(input: BufferLike, properties: Buffer, unpackSize: number | undefined, callback: CodecDecodeCallback<Buffer>): void {
   if (properties.length < 1) {
     throw new Error('LZMA2 requires properties byte');
@@ -84,13 +63,6 @@ function decodeLzma2(input: BufferLike, properties: Buffer, unpackSize: number |
   decode7zLzma2(input, properties, unpackSize, callback);
 }
 
-function createLzma2Decoder(properties?: Buffer, _unpackSize?: number): Transform {
-  if (!properties || properties.length < 1) {
-    throw new Error('LZMA2 requires properties byte');
-  }
-  return _createLzma2Decoder(properties) as Transform;
-}
-
 // Registry of supported codecs
 const codecs: { [key: string]: Codec } = {};
 
@@ -166,6 +138,47 @@ export function getCodecName(id: number[]): string {
   return `Unknown (${codecIdToKey(id)})`;
 }
 
+/**
+ * Format a dictionary or memory size the way 7-Zip does: log2 for powers of two, else "m" / "k" units
+ */
+function formatSizeValue(value: number): string {
+  for (let i = 0; i <= 31; i++) {
+    if ((1 << i) >>> 0 === value) return String(i);
+  }
+  if (value % (1 << 20) === 0) return `${value / (1 << 20)}m`;
+  if (value % (1 << 10) === 0) return `${value / (1 << 10)}k`;
+  return String(value);
+}
+
+/**
+ * Get a 7-Zip style method string for one coder (e.g. "LZMA2:24", "PPMD:o6:mem24", "7zAES:19")
+ */
+export function getCoderMethod(id: number[], properties?: Buffer): string {
+  const props = properties || null;
+  if (codecIdEquals(id, CodecId.COPY)) return 'Copy';
+  if (codecIdEquals(id, CodecId.LZMA)) return props && props.length >= 5 ? `LZMA:${formatSizeValue(props.readUInt32LE(1))}` : 'LZMA';
+  if (codecIdEquals(id, CodecId.LZMA2)) {
+    if (!props || props.length < 1 || props[0] > 40) return 'LZMA2';
+    const p = props[0];
+    if ((p & 1) === 0) return `LZMA2:${(p >>> 1) + 12}`;
+    return `LZMA2:${formatSizeValue((3 << ((p >>> 1) + 11)) >>> 0)}`;
+  }
+  if (codecIdEquals(id, CodecId.PPMD)) return props && props.length >= 5 ? `PPMD:o${props[0]}:mem${formatSizeValue(props.readUInt32LE(1))}` : 'PPMD';
+  if (codecIdEquals(id, CodecId.DELTA)) return props && props.length >= 1 ? `Delta:${props[0] + 1}` : 'Delta';
+  if (codecIdEquals(id, CodecId.AES)) return props && props.length >= 1 ? `7zAES:${props[0] & 0x3f}` : '7zAES';
+  if (codecIdEquals(id, CodecId.BCJ_X86)) return 'BCJ';
+  if (codecIdEquals(id, CodecId.BCJ_ARM)) return 'ARM';
+  if (codecIdEquals(id, CodecId.BCJ_ARMT)) return 'ARMT';
+  if (codecIdEquals(id, CodecId.BCJ_ARM64)) return 'ARM64';
+  if (codecIdEquals(id, CodecId.BCJ_PPC)) return 'PPC';
+  if (codecIdEquals(id, CodecId.BCJ_IA64)) return 'IA64';
+  if (codecIdEquals(id, CodecId.BCJ_SPARC)) return 'SPARC';
+  if (codecIdEquals(id, CodecId.BCJ2)) return 'BCJ2';
+  if (codecIdEquals(id, CodecId.DEFLATE)) return 'Deflate';
+  if (codecIdEquals(id, CodecId.BZIP2)) return 'BZip2';
+  return getCodecName(id);
+}
+
 /**
  * Check if a codec ID matches BCJ2
  */
@@ -173,8 +186,49 @@ export function isBcj2Codec(id: number[]): boolean {
   return codecIdEquals(id, CodecId.BCJ2);
 }
 
-// Re-export BCJ2 multi-stream decoder for special handling
-export { decodeBcj2Multi };
+/**
+ * Check if a codec ID matches AES-256 (7zAES)
+ */
+export function isAesCodec(id: number[]): boolean {
+  return codecIdEquals(id, CodecId.AES);
+}
+
+/**
+ * Check whether data could be the start of a codec's input stream
+ * Used to spot a wrong password from the first decrypted bytes; unknown codecs always pass
+ */
+export function isPlausibleCodecInput(id: number[], data: Buffer): boolean {
+  if (data.length === 0) return true;
+
+  // LZMA: the range coder always starts with a zero byte
+  if (codecIdEquals(id, CodecId.LZMA)) return data[0] === 0x00;
+
+  // LZMA2: first chunk must reset the dictionary (uncompressed 0x01 or LZMA 0xE0+)
+  if (codecIdEquals(id, CodecId.LZMA2)) {
+    const control = data[0];
+    if (control === 0x00 || control === 0x01) return true;
+    if (control < 0xe0) return false;
+    if (data.length > 5) {
+      const props = data[5];
+      if (props >= 9 * 5 * 5) return false;
+      const lc = props % 9;
+      const lp = Math.floor(props / 9) % 5;
+      if (lc + lp > 4) return false;
+    }
+    return data.length <= 6 || data[6] === 0x00;
+  }
+
+  // BZip2: "BZh" magic
+  if (codecIdEquals(id, CodecId.BZIP2)) return data.length < 3 || (data[0] === 0x42 && data[1] === 0x5a && data[2] === 0x68);
+
+  // Deflate: block type 3 is reserved
+  if (codecIdEquals(id, CodecId.DEFLATE)) return ((data[0] >>> 1) & 3) !== 3;
+
+  return true;
+}
+
+// Re-export BCJ2 multi-stream decoders for special handling
+export { createBcj2MultiStream, decodeBcj2Multi };
 
 // Register built-in codecs
 
@@ -269,4 +323,8 @@ registerCodec(CodecId.BCJ2, {
   createDecoder: createBcj2Decoder,
 });
 
-// Note: PPMd codec is not implemented. See FUTURE_ENHANCEMENTS.md
+// PPMd codec (variant H) - text compression
+registerCodec(CodecId.PPMD, {
+  decode: wrapSyncDecode(decodePpmd),
+  createDecoder: createPpmdDecoder,
+});
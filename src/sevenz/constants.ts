@@ -8,6 +8,9 @@ export const SEVENZ_MAGIC = [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c];
 export const SIGNATURE_HEADER_SIZE = 32;
 export const START_HEADER_SIZE = 20; // Part of signature header after magic + version
 
+// Self-extracting archives: how far past the stub to look for the 7z signature
+export const SFX_MAX_STUB_SIZE = 4 * 1024 * 1024;
+
 // Property IDs for encoded header
 export const PropertyId = {
   kEnd: 0x00,
@@ -102,8 +105,14 @@ export const ErrorCode = {
   CORRUPT_ARCHIVE: 'CORRUPT_ARCHIVE',
   CORRUPT_HEADER: 'CORRUPT_HEADER',
   ENCRYPTED_ARCHIVE: 'ENCRYPTED_ARCHIVE',
+  WRONG_PASSWORD: 'WRONG_PASSWORD',
   COMPRESSED_HEADER: 'COMPRESSED_HEADER',
   DECOMPRESSION_FAILED: 'DECOMPRESSION_FAILED',
+  ENTRY_NOT_FOUND: 'ENTRY_NOT_FOUND',
+  ABORT_ERR: 'ABORT_ERR',
+  LIMIT_EXCEEDED: 'LIMIT_EXCEEDED',
+  UNSAFE_PATH: 'UNSAFE_PATH',
+  HTTP_ERROR: 'HTTP_ERROR',
 };
 
 // Error with code property
@@ -119,3 +128,19 @@ export function createCodedError(message: string, code: string): CodedError {
   err.code = code;
   return err;
 }
+
+/**
+ * Create the error used when an AbortSignal cancels parsing or extraction (name 'AbortError', like fetch)
+ */
+export function createAbortError(): CodedError {
+  const err = createCodedError('The operation was aborted', ErrorCode.ABORT_ERR);
+  err.name = 'AbortError';
+  return err;
+}
+
+/**
+ * Check for an error from createAbortError
+ */
+export function isAbortError(err: Error | null | undefined): boolean {
+  return !!err && (err as CodedError).code === ErrorCode.ABORT_ERR;
+}
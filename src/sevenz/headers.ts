@@ -34,11 +34,11 @@ export interface Folder {
 export interface StreamsInfo {
   packPos: number; // Position of packed data (relative to end of signature header)
   packSizes: number[]; // Sizes of packed streams
-  packCRCs?: number[]; // Optional CRCs for packed streams
+  packCRCs?: (number | undefined)[]; // Optional CRCs for packed streams (undefined when not stored)
   folders: Folder[]; // Decompression info
   numUnpackStreamsPerFolder: number[]; // Number of files in each folder (for solid archives)
   unpackSizes: number[]; // Size of each unpacked file
-  unpackCRCs?: number[]; // Optional CRCs for unpacked files
+  unpackCRCs?: (number | undefined)[]; // Optional CRCs per unpack stream (undefined when not stored)
 }
 
 export interface FileInfo {
@@ -101,6 +101,21 @@ export function parseSignatureHeader(buf: Buffer): SignatureHeader {
   };
 }
 
+/**
+ * Find a signature header inside a buffer (e.g. after a self-extractor stub).
+ * A match needs the magic bytes, a supported version and a valid start header CRC.
+ * @returns offset of the signature header, or -1 if none is found
+ */
+export function findSignatureHeader(buf: Buffer, start = 0): number {
+  const last = buf.length - 32;
+  for (let i = start; i <= last; i++) {
+    if (buf[i] !== SEVENZ_MAGIC[0] || !bufferEquals(buf, i, SEVENZ_MAGIC)) continue;
+    if (buf[i + 6] > 0) continue;
+    if (verifyCrc32Region(buf, i + 12, 20, buf.readUInt32LE(i + 8))) return i;
+  }
+  return -1;
+}
+
 /**
  * Parse the encoded header (metadata block at end of archive)
  */
@@ -178,7 +193,7 @@ export function parseHeaderContent(buf: Buffer, offset: number): { streamsInfo?:
 /**
  * Parse StreamsInfo block
  */
-function parseStreamsInfo(buf: Buffer, offset: number): { info: StreamsInfo; offset: number } {
+export function parseStreamsInfo(buf: Buffer, offset: number): { info: StreamsInfo; offset: number } {
   const info: StreamsInfo = {
     packPos: 0,
     packSizes: [],
@@ -239,7 +254,7 @@ function parseStreamsInfo(buf: Buffer, offset: number): { info: StreamsInfo; off
 /**
  * Parse PackInfo block
  */
-function parsePackInfo(buf: Buffer, offset: number): { packPos: number; packSizes: number[]; packCRCs?: number[]; offset: number } {
+function parsePackInfo(buf: Buffer, offset: number): { packPos: number; packSizes: number[]; packCRCs?: (number | undefined)[]; offset: number } {
   // Pack position
   const packPosResult = readNumber(buf, offset);
   const packPos = packPosResult.value;
@@ -251,7 +266,7 @@ function parsePackInfo(buf: Buffer, offset: number): { packPos: number; packSize
   offset += numPackResult.bytesRead;
 
   const packSizes: number[] = [];
-  let packCRCs: number[] | undefined;
+  let packCRCs: (number | undefined)[] | undefined;
 
   while (offset < buf.length) {
     const propertyId = buf[offset++];
@@ -275,7 +290,7 @@ function parsePackInfo(buf: Buffer, offset: number): { packPos: number; packSize
           packCRCs.push(buf.readUInt32LE(offset));
           offset += 4;
         } else {
-          packCRCs.push(0);
+          packCRCs.push(undefined);
         }
       }
     }
@@ -464,10 +479,10 @@ function parseFolder(buf: Buffer, offset: number): { folder: Folder; offset: num
 /**
  * Parse SubStreamsInfo block
  */
-function parseSubStreamsInfo(buf: Buffer, offset: number, folders: Folder[]): { numUnpackStreamsPerFolder: number[]; unpackSizes: number[]; unpackCRCs?: number[]; offset: number } {
+function parseSubStreamsInfo(buf: Buffer, offset: number, folders: Folder[]): { numUnpackStreamsPerFolder: number[]; unpackSizes: number[]; unpackCRCs?: (number | undefined)[]; offset: number } {
   const numUnpackStreamsPerFolder: number[] = [];
   const unpackSizes: number[] = [];
-  let unpackCRCs: number[] | undefined;
+  let unpackCRCs: (number | undefined)[] | undefined;
 
   // Default: 1 file per folder
   for (let i = 0; i < folders.length; i++) {
@@ -514,15 +529,21 @@ function parseSubStreamsInfo(buf: Buffer, offset: number, folders: Folder[]): {
         }
       }
 
+      // Indexed by unpack stream - folders with their own CRC have no entry here
       unpackCRCs = [];
       const definedResult = readDefinedVector(buf, offset, numFiles);
       offset += definedResult.bytesRead;
-      for (let n = 0; n < numFiles; n++) {
-        if (definedResult.defined[n]) {
-          unpackCRCs.push(buf.readUInt32LE(offset));
-          offset += 4;
-        } else {
-          unpackCRCs.push(0);
+      let n = 0;
+      for (let f = 0; f < folders.length; f++) {
+        const numStreamsInFolder = numUnpackStreamsPerFolder[f];
+        const listed = !folders[f].hasCRC || numStreamsInFolder > 1;
+        for (let st = 0; st < numStreamsInFolder; st++) {
+          if (listed && definedResult.defined[n++]) {
+            unpackCRCs.push(buf.readUInt32LE(offset));
+            offset += 4;
+          } else {
+            unpackCRCs.push(undefined);
+          }
         }
       }
     }
@@ -4,6 +4,21 @@
 // Error types for handling specific error conditions
 export type { CodedError } from './constants.ts';
 export { createCodedError, ErrorCode } from './constants.ts';
+// Decompressed folder cache statistics
+export type { CacheStats } from './FolderCache.ts';
+// Remote archives over HTTP Range requests
+export type { HttpRangeSourceOptions } from './HttpRangeSource.ts';
+export { HttpRangeSource, openHttpRangeSource } from './HttpRangeSource.ts';
+// Resource limits for untrusted archives
+export type { LimitOptions } from './limits.ts';
+export { DEFAULT_LIMITS } from './limits.ts';
+// Password provider for encrypted archives
+export type { PasswordCallback, PasswordContext, PasswordProvider } from './PasswordResolver.ts';
+// Progress reporting
+export type { Progress, ProgressCallback } from './Progress.ts';
 // Parser and sources for advanced users
-export type { ArchiveSource, SevenZipEntry, VoidCallback } from './SevenZipParser.ts';
-export { BufferSource, FileSource, SevenZipParser } from './SevenZipParser.ts';
+export type { ArchiveInfo, ArchiveSource, AsyncArchiveSource, CoderInfo, FolderInfo, ReadCallback, SevenZipEntry, SevenZipParserOptions, VerifyCallback, VerifyEntryResult, VerifyReport, VerifyStatus, VoidCallback, Volume } from './SevenZipParser.ts';
+export { BufferSource, FileSource, MultiVolumeSource, OffsetSource, openVolumes, SevenZipParser, toAsyncSource } from './SevenZipParser.ts';
+// Writer for creating archives (Copy and LZMA2)
+export type { SevenZipWriterOptions, WriterDirectoryEntry, WriterEntry, WriterFileEntry, WriterMethod, WriterSymbolicLinkEntry } from './SevenZipWriter.ts';
+export { SevenZipWriter } from './SevenZipWriter.ts';
@@ -0,0 +1,48 @@
+/**
+ * Resource limits for untrusted archives
+ *
+ * Sizes declared in the header are checked before anything is allocated: the
+ * header itself, the entry count, the total and per-folder unpack sizes and the
+ * compression ratio. Streamed folders are also stopped if they decompress past
+ * their declared size. Every limit fails with LIMIT_EXCEEDED; pass Infinity to
+ * turn one off.
+ */
+
+export interface LimitOptions {
+  /** Most entries (files, directories and links) in the archive (default: 1,000,000) */
+  maxEntries?: number;
+  /** Largest sum of the folders' unpack sizes (default: 16GB) */
+  maxTotalUnpackedSize?: number;
+  /** Largest folder (solid block) decompressed in memory - shared solid blocks (default: 1GB) */
+  maxFolderSize?: number;
+  /** Largest unpacked / packed ratio for a folder of 1MB or more (default: 1000) */
+  maxCompressionRatio?: number;
+  /** Largest header, packed or decompressed (default: 64MB) */
+  maxHeaderSize?: number;
+}
+
+export type Limits = Required<LimitOptions>;
+
+export const DEFAULT_LIMITS: Limits = {
+  maxEntries: 1000000,
+  maxTotalUnpackedSize: 16 * 1024 * 1024 * 1024,
+  maxFolderSize: 1024 * 1024 * 1024,
+  maxCompressionRatio: 1000,
+  maxHeaderSize: 64 * 1024 * 1024,
+};
+
+/** Folders smaller than this skip the compression ratio check (small runs of zeros compress very well) */
+export const RATIO_CHECK_MIN_SIZE = 1024 * 1024;
+
+/**
+ * Fill in the default for every limit not set
+ */
+export function resolveLimits(options: LimitOptions): Limits {
+  return {
+    maxEntries: options.maxEntries !== undefined ? options.maxEntries : DEFAULT_LIMITS.maxEntries,
+    maxTotalUnpackedSize: options.maxTotalUnpackedSize !== undefined ? options.maxTotalUnpackedSize : DEFAULT_LIMITS.maxTotalUnpackedSize,
+    maxFolderSize: options.maxFolderSize !== undefined ? options.maxFolderSize : DEFAULT_LIMITS.maxFolderSize,
+    maxCompressionRatio: options.maxCompressionRatio !== undefined ? options.maxCompressionRatio : DEFAULT_LIMITS.maxCompressionRatio,
+    maxHeaderSize: options.maxHeaderSize !== undefined ? options.maxHeaderSize : DEFAULT_LIMITS.maxHeaderSize,
+  };
+}
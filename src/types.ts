@@ -1,21 +1,129 @@
 export { DirectoryEntry, LinkEntry, Lock, SymbolicLinkEntry } from 'extract-base-iterator';
 export { default as FileEntry } from './FileEntry.ts';
+export type { PathPolicy } from './lib/sanitizePath.ts';
 export type { SevenZipEntry } from './sevenz/SevenZipParser.ts';
 
 import type { ExtractOptions as BaseExtractOptions, DirectoryEntry, LinkEntry, SymbolicLinkEntry } from 'extract-base-iterator';
 import type FileEntry from './FileEntry.ts';
+import type { PathPolicy } from './lib/sanitizePath.ts';
+import type { LimitOptions } from './sevenz/limits.ts';
+import type { PasswordProvider } from './sevenz/PasswordResolver.ts';
+import type { ProgressCallback } from './sevenz/Progress.ts';
+import type { ArchiveInfo, ArchiveSource, AsyncArchiveSource, SevenZipEntry } from './sevenz/SevenZipParser.ts';
+
+/**
+ * Archive input: a file path (or first volume, archive.7z.001), a stream (spilled to a temp file), or the archive bytes
+ */
+export type ArchiveInput = string | NodeJS.ReadableStream | Buffer | Uint8Array | ArrayBuffer;
 
 // 7z-specific Entry union type with 7z-specific FileEntry
 export type Entry = DirectoryEntry | FileEntry | LinkEntry | SymbolicLinkEntry;
 
 /**
- * Options for SevenZipIterator
+ * Per-entry archive metadata exposed on FileEntry (the columns `7z l -slt` shows)
  */
-export interface ExtractOptions extends BaseExtractOptions {
+export type EntryMetadata = Pick<SevenZipEntry, 'method' | 'encrypted' | 'crc' | 'solidBlockIndex' | 'packedSize'>;
+
+/**
+ * Options for SevenZipIterator (the resource limits are safe by default - see LimitOptions)
+ */
+export interface ExtractOptions extends BaseExtractOptions, LimitOptions {
+  /**
+   * Read the archive from this source instead of the constructor input (e.g. an HttpRangeSource).
+   * The caller keeps ownership and closes it
+   */
+  source?: ArchiveSource | AsyncArchiveSource;
+
   /**
    * Password for encrypted archives
    */
   password?: string;
+
+  /**
+   * Called when an encrypted folder or header needs a password (after any static password fails).
+   * Receives { archivePath, folderIndex, attempt }; return a Promise, a string or null - or declare the
+   * callback parameter and call it. No password stops with ENCRYPTED_ARCHIVE.
+   */
+  passwordProvider?: PasswordProvider;
+
+  /**
+   * Provider attempts per folder before failing with WRONG_PASSWORD (default: 3)
+   */
+  passwordRetries?: number;
+
+  /**
+   * Called with byte and entry counters as the archive is read, decompressed and written
+   */
+  onProgress?: ProgressCallback;
+
+  /**
+   * Most bytes of decompressed solid folders kept in memory for their remaining entries. Least recently
+   * used folders are evicted and decoded again on demand (default: no limit)
+   */
+  cacheMaxBytes?: number;
+
+  /**
+   * Entry paths and symlink targets that are absolute or climb out of the destination with '..':
+   * 'reject' (default) fails with UNSAFE_PATH, 'strip' removes the unsafe parts, 'allow' passes them through
+   */
+  pathPolicy?: PathPolicy;
+
+  /**
+   * Cancels with an AbortError: stops header parsing and folder decompression, ends the iterator
+   * and, for entry.create, removes the partially written file
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Only iterate entries matching these globs. Patterns without a slash match the basename (e.g. '*.json')
+   */
+  include?: string | string[];
+
+  /**
+   * Skip entries matching these globs
+   */
+  exclude?: string | string[];
+
+  /**
+   * Skip entries for which this returns false (applied after include / exclude)
+   */
+  filter?: (entry: SevenZipEntry) => boolean;
 }
 
+/**
+ * Options for SevenZipIterator.extract - passed on to entry.create (force, strip, now)
+ */
+export interface ExtractAllOptions extends ExtractOptions {
+  /**
+   * Files created at the same time (default: 1)
+   */
+  concurrency?: number;
+}
+
+export interface ExtractError {
+  path: string;
+  error: Error;
+}
+
+/**
+ * Result of SevenZipIterator.extract
+ */
+export interface ExtractSummary {
+  files: number;
+  directories: number;
+  links: number;
+  /** Bytes written for files */
+  bytes: number;
+  /** Entries left out by the include / exclude / filter options */
+  skipped: number;
+  /** Entries that could not be created - extraction continues past them */
+  errors: ExtractError[];
+}
+
+export type ExtractSummaryCallback = (error: Error | null, summary?: ExtractSummary) => void;
+
 export type EntryCallback = (error?: Error, result?: IteratorResult<Entry>) => void;
+
+export type ArchiveInfoCallback = (error: Error | null, info?: ArchiveInfo) => void;
+
+export type EntryStreamCallback = (error: Error | null, stream?: NodeJS.ReadableStream) => void;
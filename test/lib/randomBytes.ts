@@ -0,0 +1,13 @@
+import { allocBuffer } from 'extract-base-iterator';
+
+/**
+ * Pseudo-random bytes that do not compress - the same seed gives the same bytes
+ */
+export default function randomBytes(size: number, seed = 12345): Buffer {
+  const buf = allocBuffer(size);
+  for (let i = 0; i < size; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    buf[i] = seed >>> 16;
+  }
+  return buf;
+}
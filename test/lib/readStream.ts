@@ -0,0 +1,9 @@
+/**
+ * Read a stream to the end and call back with its concatenated data
+ */
+export default function readStream(stream: NodeJS.ReadableStream, callback: (err: Error | null, data?: Buffer) => void): void {
+  const chunks: Buffer[] = [];
+  stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+  stream.on('error', (err: Error) => callback(err));
+  stream.on('end', () => callback(null, Buffer.concat(chunks)));
+}
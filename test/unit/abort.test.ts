@@ -0,0 +1,139 @@
+// AbortSignal tests
+// The large archive is written with SevenZipWriter: 1MB of stored (copy) data, streamed in chunks
+
+import assert from 'assert';
+import { allocBuffer } from 'extract-base-iterator';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { BufferSource, type CodedError, SevenZipParser, SevenZipWriter } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+function assertAbortError(err: Error | null | undefined): void {
+  assert.ok(err, 'Should fail');
+  assert.equal((err as Error).name, 'AbortError');
+  assert.equal((err as CodedError).code, 'ABORT_ERR');
+}
+
+function writeLargeArchive(callback: (err: Error | null, archivePath?: string) => void): void {
+  const data = allocBuffer(1024 * 1024);
+  for (let i = 0; i < data.length; i++) data[i] = i & 0xff;
+  const archivePath = path.join(TARGET, 'large.7z');
+  new SevenZipWriter({ method: 'copy' }).add({ type: 'file', path: 'large.bin', data: data }).writeFile(archivePath, (err) => {
+    err ? callback(err) : callback(null, archivePath);
+  });
+}
+
+describe('abort', () => {
+  if (typeof AbortController === 'undefined') return;
+
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should not parse with an aborted signal', (done) => {
+    const controller = new AbortController();
+    controller.abort();
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))), { signal: controller.signal });
+    parser.parse((err) => {
+      assertAbortError(err);
+      done();
+    });
+  });
+
+  it('should abort while decoding the header', (done) => {
+    const controller = new AbortController();
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))), {
+      signal: controller.signal,
+      onProgress: () => controller.abort(),
+    });
+    parser.parse((err) => {
+      assertAbortError(err);
+      done();
+    });
+  });
+
+  it('should remove the partial file when entry.create is aborted', (done) => {
+    writeLargeArchive((err, archivePath) => {
+      if (err) return done(err);
+      const controller = new AbortController();
+      const options: ExtractOptions = {
+        onProgress: (progress) => {
+          if (progress.bytesWritten > 0) controller.abort();
+        },
+      };
+      const iterator = new SevenZipIterator(archivePath as string, options);
+      iterator.forEach(
+        (entry, cb) => {
+          entry.create(path.join(TARGET, 'out'), { signal: controller.signal }, (createErr?: Error) => {
+            assertAbortError(createErr);
+            assert.ok(!fs.existsSync(path.join(TARGET, 'out', 'large.bin')));
+            cb();
+          });
+        },
+        { callbacks: true, concurrency: 1 },
+        done
+      );
+    });
+  });
+
+  it('should end the iterator and tear down folder streams', (done) => {
+    writeLargeArchive((err, archivePath) => {
+      if (err) return done(err);
+      const controller = new AbortController();
+      const options: ExtractOptions = {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          if (progress.bytesWritten > 0) controller.abort();
+        },
+      };
+      const iterator = new SevenZipIterator(archivePath as string, options);
+      let iteratorError: Error | undefined;
+      let createError: Error | undefined;
+      let pending = 2;
+      const finish = (): void => {
+        if (--pending > 0) return;
+        assertAbortError(iteratorError);
+        assertAbortError(createError);
+        assert.ok(!fs.existsSync(path.join(TARGET, 'out', 'large.bin')));
+        done();
+      };
+      iterator.forEach(
+        (entry, cb) => {
+          entry.create(path.join(TARGET, 'out'), {}, (err?: Error) => {
+            createError = err;
+            cb();
+            finish();
+          });
+        },
+        { callbacks: true, concurrency: 1 },
+        (err) => {
+          iteratorError = err;
+          finish();
+        }
+      );
+    });
+  });
+});
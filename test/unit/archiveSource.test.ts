@@ -0,0 +1,158 @@
+// Archive source tests - non-blocking reads through AsyncArchiveSource
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { type ArchiveSource, type AsyncArchiveSource, BufferSource, FileSource, MultiVolumeSource, OffsetSource, openVolumes, type ReadCallback, SevenZipParser, toAsyncSource, type Volume } from '../../src/sevenz/index.ts';
+import { DATA_DIR } from '../lib/constants.ts';
+import readStream from '../lib/readStream.ts';
+
+const COPY_ARCHIVE = path.join(DATA_DIR, 'copy.7z');
+const SPLIT_ARCHIVE = path.join(DATA_DIR, 'split.7z.001');
+
+function openFileSource(filePath: string): FileSource {
+  const fd = fs.openSync(filePath, 'r');
+  return new FileSource(fd, fs.fstatSync(fd).size);
+}
+
+// Async-only source over a buffer, answering every read on a later tick
+function createAsyncOnlySource(buffer: Buffer): AsyncArchiveSource {
+  const inner = new BufferSource(buffer);
+  return {
+    readAsync: (position: number, length: number, callback: ReadCallback) => {
+      setTimeout(() => callback(null, buffer.slice(position, position + length)), 1);
+    },
+    getSize: () => buffer.length,
+    close: () => {},
+    createReadStream: (offset: number, length: number) => inner.createReadStream(offset, length),
+  };
+}
+
+describe('archive sources', () => {
+  it('should read the same bytes with readAsync as with read', (done) => {
+    const expected = fs.readFileSync(COPY_ARCHIVE);
+    const sources = [new BufferSource(expected), openFileSource(COPY_ARCHIVE)];
+    let index = 0;
+
+    function next(): void {
+      if (index >= sources.length) return done();
+      const source = sources[index++];
+      let sync = true;
+      source.readAsync(10, 100, (err, data) => {
+        assert.ok(!sync, 'callback should not be synchronous');
+        if (err) return done(err);
+        assert.ok((data as Buffer).equals(source.read(10, 100) as Buffer));
+
+        // Reads past the end are short
+        source.readAsync(expected.length - 5, 100, (endErr, endData) => {
+          if (endErr) return done(endErr);
+          assert.ok((endData as Buffer).equals(expected.slice(expected.length - 5)));
+          source.close();
+          next();
+        });
+      });
+      sync = false;
+    }
+    next();
+  });
+
+  it('should read across volume boundaries with readAsync', (done) => {
+    openVolumes(SPLIT_ARCHIVE, (err, volumes) => {
+      if (err) return done(err);
+      const source = new MultiVolumeSource(volumes as Volume[]);
+      source.readAsync(1000, 1100, (readErr, data) => {
+        if (readErr) return done(readErr);
+        assert.ok((data as Buffer).equals(source.read(1000, 1100) as Buffer));
+        source.close();
+        done();
+      });
+    });
+  });
+
+  it('should report a missing volume from readAsync', (done) => {
+    openVolumes(SPLIT_ARCHIVE, (err, volumes) => {
+      if (err) return done(err);
+      const source = new MultiVolumeSource((volumes as Volume[]).slice(0, 2));
+      source.readAsync(2100, 100, (readErr) => {
+        source.close();
+        assert.ok(readErr, 'Should fail');
+        assert.equal((readErr as Error & { code?: string }).code, 'TRUNCATED_ARCHIVE');
+        done();
+      });
+    });
+  });
+
+  it('should wrap a synchronous source and pass read errors to the callback', (done) => {
+    const buffer = fs.readFileSync(COPY_ARCHIVE);
+    const syncSource: ArchiveSource = {
+      read: (position: number, length: number) => {
+        if (position > buffer.length) throw new Error('read failed');
+        return buffer.slice(position, position + length);
+      },
+      getSize: () => buffer.length,
+      close: () => {},
+      createReadStream: (offset: number, length: number) => new BufferSource(buffer).createReadStream(offset, length),
+    };
+    const source = toAsyncSource(syncSource);
+    assert.equal(source.getSize(), buffer.length);
+
+    source.readAsync(0, 6, (err, data) => {
+      if (err) return done(err);
+      assert.ok((data as Buffer).equals(buffer.slice(0, 6)));
+      source.readAsync(buffer.length + 1, 6, (readErr) => {
+        assert.ok(readErr, 'Should fail');
+        assert.equal((readErr as Error).message, 'read failed');
+        done();
+      });
+    });
+  });
+
+  it('should read through OffsetSource over an async-only source', (done) => {
+    const buffer = fs.readFileSync(COPY_ARCHIVE);
+    const source = new OffsetSource(createAsyncOnlySource(buffer), 10);
+    assert.throws(
+      () => source.read(0, 6),
+      (err: Error & { code?: string }) => err.code === 'UNSUPPORTED_FEATURE'
+    );
+    source.readAsync(0, 6, (err, data) => {
+      if (err) return done(err);
+      assert.ok((data as Buffer).equals(buffer.slice(10, 16)));
+      done();
+    });
+  });
+
+  it('should parse a FileSource without synchronous reads', (done) => {
+    const source = openFileSource(COPY_ARCHIVE);
+    source.read = () => {
+      throw new Error('synchronous read');
+    };
+    const parser = new SevenZipParser(source);
+    let sync = true;
+    parser.parse((err) => {
+      assert.ok(!sync, 'parse should not complete synchronously');
+      if (err) {
+        source.close();
+        return done(err);
+      }
+      const files = parser.getEntries().filter((e) => e.type === 'file');
+      assert.equal(files.length, 4);
+      source.close();
+      done();
+    });
+    sync = false;
+  });
+
+  it('should parse and extract from an async-only source', (done) => {
+    const parser = new SevenZipParser(createAsyncOnlySource(fs.readFileSync(COPY_ARCHIVE)));
+    parser.parse((err) => {
+      if (err) return done(err);
+      const entry = parser.findEntry('data/fixture.js');
+      assert.ok(entry);
+      readStream(parser.getEntryStream(entry), (readErr, data) => {
+        if (readErr) return done(readErr);
+        assert.equal((data as Buffer).length, 23);
+        done();
+      });
+    });
+  });
+});
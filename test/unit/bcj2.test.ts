@@ -15,7 +15,9 @@ import fs from 'fs';
 import { safeRm } from 'fs-remove-compat';
 import mkdirp from 'mkdirp-classic';
 import path from 'path';
-import { stringEndsWith } from '../lib/compat.ts';
+import { BufferSource, SevenZipParser } from '../../src/sevenz/index.ts';
+import { arrayFind, stringEndsWith } from '../lib/compat.ts';
+import { DATA_DIR } from '../lib/constants.ts';
 import { ensureFixture, getFixturePath } from '../lib/download.ts';
 
 // Node.js Windows x64 7z archive - uses LZMA2:26 LZMA:20 BCJ2 codecs
@@ -170,3 +172,85 @@ describe('BCJ2 archives (large varints)', () => {
     });
   });
 });
+
+// bcj2.7z: code.bin from generateCode() packed by 7-Zip with -mf=BCJ2 (main stream LZMA2, call and jump streams LZMA)
+function generateCode(): Buffer {
+  const size = 200000;
+  const code = allocBuffer(size);
+  let seed = 1;
+  const random = (n: number): number => {
+    seed = (seed * 69069 + 1) % 0x80000000;
+    return seed % n;
+  };
+
+  // Calls, jumps and conditional jumps to 64 page-aligned targets between 3-byte filler instructions
+  let pos = 0;
+  while (pos + 6 <= size) {
+    const kind = random(4);
+    const target = random(64) * 4096;
+    if (kind === 0 || kind === 1) {
+      code[pos] = kind === 0 ? 0xe8 : 0xe9;
+      code.writeInt32LE(target - (pos + 5), pos + 1);
+      pos += 5;
+    } else if (kind === 2) {
+      code[pos] = 0x0f;
+      code[pos + 1] = 0x80 | random(16);
+      code.writeInt32LE(target - (pos + 6), pos + 2);
+      pos += 6;
+    } else {
+      code[pos] = 0x48;
+      code[pos + 1] = 0x89;
+      code[pos + 2] = 0xe5;
+      pos += 3;
+    }
+  }
+  return code;
+}
+
+describe('BCJ2 streaming', () => {
+  function openCode(callback: (err: Error | null, parser?: SevenZipParser, folderIndex?: number) => void): void {
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'bcj2.7z'))));
+    parser.parse((err) => {
+      if (err) return callback(err);
+      const entry = arrayFind(parser.getEntries(), (e) => e.type === 'file');
+      assert.ok(entry, 'Should have file entry');
+      callback(null, parser, entry._folderIndex);
+    });
+  }
+
+  it('should stream a BCJ2 folder from its four packed streams', (done) => {
+    openCode((err, parser, folderIndex) => {
+      if (err) return done(err);
+      assert.strictEqual(parser.canStreamFolder(folderIndex), true, 'BCJ2 should be streamable');
+
+      const chunks: Buffer[] = [];
+      const folderStream = parser.streamFolder(folderIndex);
+      folderStream.output.on('data', (chunk: Buffer) => chunks.push(chunk));
+      folderStream.output.on('error', done);
+      folderStream.output.on('end', () => {
+        assert.ok(chunks.length > 1, 'Output should arrive in several chunks');
+        assert.ok(Buffer.concat(chunks).equals(generateCode()), 'Decoded code should match');
+        done();
+      });
+    });
+  });
+
+  it('should decode while the output is read slowly', (done) => {
+    openCode((err, parser, folderIndex) => {
+      if (err) return done(err);
+
+      const chunks: Buffer[] = [];
+      const folderStream = parser.streamFolder(folderIndex);
+      folderStream.output.on('data', (chunk: Buffer) => {
+        chunks.push(chunk);
+        folderStream.pause();
+        setTimeout(folderStream.resume, 5);
+      });
+      folderStream.output.on('error', done);
+      folderStream.output.on('end', () => {
+        assert.ok(Buffer.concat(chunks).equals(generateCode()), 'Decoded code should match');
+        done();
+      });
+    });
+  });
+});
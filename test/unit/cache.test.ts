@@ -0,0 +1,102 @@
+// Decompressed folder cache tests
+// solid-blocks.7z holds data/file1.txt ... data/file4.txt (960 bytes each) in two LZMA2 solid folders of two files
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import { BufferSource, type CacheStats, type SevenZipEntry, SevenZipParser, type SevenZipParserOptions } from '../../src/sevenz/index.ts';
+import { DATA_DIR } from '../lib/constants.ts';
+
+// Read entries one after another in the given order, then report the cache stats
+// Entries in opened are read first with openEntryStream (random access)
+function readInOrder(options: SevenZipParserOptions, paths: string[], callback: (err: Error | null, stats?: CacheStats) => void, opened: string[] = []): void {
+  const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'solid-blocks.7z'))), options);
+  parser.parse((err) => {
+    if (err) return callback(err);
+    const reads = opened.concat(paths);
+    const next = (index: number): void => {
+      if (index >= reads.length) return callback(null, parser.getCacheStats());
+      const entry = parser.findEntry(reads[index]) as SevenZipEntry;
+      const stream = index < opened.length ? parser.openEntryStream(entry) : parser.getEntryStream(entry);
+      const chunks: Buffer[] = [];
+      stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+      stream.on('error', callback);
+      stream.on('end', () => {
+        assert.equal(Buffer.concat(chunks).toString().split('\n')[0], `file ${reads[index].slice(-5, -4)} line`);
+        next(index + 1);
+      });
+    };
+    next(0);
+  });
+}
+
+describe('folder cache', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  const order = ['data/file1.txt', 'data/file3.txt', 'data/file2.txt', 'data/file4.txt'];
+
+  it('should keep folders for their remaining entries without a limit', (done) => {
+    readInOrder({}, order, (err, stats) => {
+      if (err) return done(err);
+      assert.deepEqual(stats, { hits: 2, misses: 2, evictions: 0, bytes: 0, folders: 0, maxBytes: Infinity });
+      done();
+    });
+  });
+
+  it('should not count entries opened with openEntryStream as extracted', (done) => {
+    // file1 is opened on its own first; folder 0 is still cached for file2 afterwards
+    const check = (err: Error | null, stats?: CacheStats): void => {
+      if (err) return done(err);
+      assert.deepEqual(stats, { hits: 2, misses: 2, evictions: 0, bytes: 0, folders: 0, maxBytes: Infinity });
+      done();
+    };
+    readInOrder({}, order, check, ['data/file1.txt']);
+  });
+
+  it('should count one miss for reads sharing a pending decode', (done) => {
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'solid-blocks.7z'))));
+    parser.parse((err) => {
+      if (err) return done(err);
+      let pending = 2;
+      const paths = ['data/file1.txt', 'data/file2.txt'];
+      for (let i = 0; i < paths.length; i++) {
+        const stream = parser.getEntryStream(parser.findEntry(paths[i]) as SevenZipEntry);
+        stream.on('error', done);
+        stream.on('end', () => {
+          if (--pending > 0) return;
+          assert.deepEqual(parser.getCacheStats(), { hits: 0, misses: 1, evictions: 0, bytes: 0, folders: 0, maxBytes: Infinity });
+          done();
+        });
+        stream.resume();
+      }
+    });
+  });
+
+  it('should evict the least recently used folder past cacheMaxBytes', (done) => {
+    readInOrder({ cacheMaxBytes: 3000 }, order, (err, stats) => {
+      if (err) return done(err);
+      // folder 0 is evicted for folder 1 and decoded again for file2; folder 1 is still cached for file4
+      assert.deepEqual(stats, { hits: 1, misses: 3, evictions: 1, bytes: 0, folders: 0, maxBytes: 3000 });
+      done();
+    });
+  });
+
+  it('should not cache folders larger than cacheMaxBytes', (done) => {
+    readInOrder({ cacheMaxBytes: 1000 }, order.slice(0, 2), (err, stats) => {
+      if (err) return done(err);
+      assert.deepEqual(stats, { hits: 0, misses: 2, evictions: 0, bytes: 0, folders: 0, maxBytes: 1000 });
+      done();
+    });
+  });
+});
@@ -4,6 +4,7 @@ import fs from 'fs';
 import { safeRm } from 'fs-remove-compat';
 import mkdirp from 'mkdirp-classic';
 import path from 'path';
+import { BufferSource } from '../../src/sevenz/index.ts';
 import { DATA_DIR, TARGET } from '../lib/constants.ts';
 import validateFiles from '../lib/validateFiles.ts';
 
@@ -107,6 +108,82 @@ describe('callback', () => {
       });
     });
 
+    it('extract - buffer', (done) => {
+      const options = { now: new Date() };
+      const source = fs.readFileSync(path.join(DATA_DIR, 'copy.7z'));
+      extract(new SevenZipIterator(source), TARGET, options, (err) => {
+        if (err) {
+          done(err);
+          return;
+        }
+
+        validateFiles(options, (err) => {
+          if (err) {
+            done(err);
+            return;
+          }
+          done();
+        });
+      });
+    });
+
+    it('extract - Uint8Array', (done) => {
+      const options = { now: new Date() };
+      const source = new Uint8Array(fs.readFileSync(path.join(DATA_DIR, 'copy.7z')));
+      extract(new SevenZipIterator(source), TARGET, options, (err) => {
+        if (err) {
+          done(err);
+          return;
+        }
+
+        validateFiles(options, (err) => {
+          if (err) {
+            done(err);
+            return;
+          }
+          done();
+        });
+      });
+    });
+
+    it('extract - ArrayBuffer', (done) => {
+      const options = { now: new Date() };
+      const source = new Uint8Array(fs.readFileSync(path.join(DATA_DIR, 'copy.7z'))).buffer;
+      extract(new SevenZipIterator(source), TARGET, options, (err) => {
+        if (err) {
+          done(err);
+          return;
+        }
+
+        validateFiles(options, (err) => {
+          if (err) {
+            done(err);
+            return;
+          }
+          done();
+        });
+      });
+    });
+
+    it('extract - source option', (done) => {
+      const options = { now: new Date() };
+      const source = new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'copy.7z')));
+      extract(new SevenZipIterator(null, { source }), TARGET, options, (err) => {
+        if (err) {
+          done(err);
+          return;
+        }
+
+        validateFiles(options, (err) => {
+          if (err) {
+            done(err);
+            return;
+          }
+          done();
+        });
+      });
+    });
+
     it('extract - strip 1', (done) => {
       const options = { now: new Date(), strip: 1 };
       extract(new SevenZipIterator(path.join(DATA_DIR, 'copy.7z')), TARGET, options, (err) => {
@@ -0,0 +1,106 @@
+// Entry metadata tests
+// Expected values match `7z l -slt` for the same fixtures
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator, { type Entry, type FileEntry } from '../../src/index.ts';
+import { BufferSource, type SevenZipEntry, SevenZipParser } from '../../src/sevenz/index.ts';
+import { DATA_DIR } from '../lib/constants.ts';
+
+function collectFiles(name: string, callback: (err: Error | null, files?: FileEntry[]) => void): void {
+  const iterator = new SevenZipIterator(path.join(DATA_DIR, name), { password: 'test123' });
+  const files: FileEntry[] = [];
+  iterator.forEach(
+    (entry: Entry): void => {
+      if (entry.type === 'file') files.push(entry as FileEntry);
+    },
+    (err) => {
+      err ? callback(err) : callback(null, files);
+    }
+  );
+}
+
+describe('entry metadata', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  it('should share a solid block without a per-file packed size', (done) => {
+    collectFiles('lzma2.7z', (err, files) => {
+      if (err) return done(err);
+      assert.equal((files as FileEntry[]).length, 4);
+      for (const file of files as FileEntry[]) {
+        assert.equal(file.method, 'LZMA2:12');
+        assert.equal(file.encrypted, false);
+        assert.equal(file.solidBlockIndex, 0);
+        assert.equal(file.packedSize, undefined);
+        assert.equal(typeof file.crc, 'number');
+      }
+      done();
+    });
+  });
+
+  it('should show the coder chain and packed size of a non-solid folder', (done) => {
+    collectFiles('bcj.7z', (err, files) => {
+      if (err) return done(err);
+      const file = (files as FileEntry[])[0];
+      assert.equal(file.method, 'BCJ LZMA2:12');
+      assert.equal(file.solidBlockIndex, 0);
+      assert.equal(file.packedSize, 39);
+      assert.equal(file.crc, 0x868cd824);
+      done();
+    });
+  });
+
+  it('should flag encrypted entries', (done) => {
+    collectFiles('encrypted.7z', (err, files) => {
+      if (err) return done(err);
+      const file = (files as FileEntry[])[0];
+      assert.equal(file.method, 'LZMA2:12 7zAES:19');
+      assert.equal(file.encrypted, true);
+      done();
+    });
+  });
+
+  it('should format filter and PPMd properties', (done) => {
+    const methods: string[] = [];
+    const names = ['delta.7z', 'ppmd.7z'];
+    let index = 0;
+    function next(): void {
+      if (index >= names.length) {
+        assert.deepEqual(methods, ['Delta:1 LZMA2:12', 'PPMD:o6:mem23']);
+        return done();
+      }
+      const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, names[index++]))));
+      parser.parse((err) => {
+        if (err) return done(err);
+        const entry = parser.getEntries().filter((e: SevenZipEntry) => e.type === 'file')[0];
+        methods.push(entry.method as string);
+        next();
+      });
+    }
+    next();
+  });
+
+  it('should expose the stored CRC', (done) => {
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))));
+    parser.parse((err) => {
+      if (err) return done(err);
+      const entries = parser.getEntries();
+      for (let i = 0; i < entries.length; i++) {
+        assert.equal(entries[i].crc, entries[i]._hasStream ? entries[i]._crc : undefined);
+      }
+      done();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// SevenZipIterator.extract tests
+
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import type { ExtractAllOptions, ExtractSummary } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+import validateFiles from '../lib/validateFiles.ts';
+
+describe('extract', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should extract everything and summarize (callback)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'));
+    iterator.extract(TARGET, (err, summary) => {
+      if (err) return done(err);
+      assert.deepEqual(summary, { files: 4, directories: 4, links: 0, bytes: 92, skipped: 0, errors: [] });
+      validateFiles({}, done);
+    });
+  });
+
+  it('should create symlinks after their targets with concurrency (Promise)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'symlink.7z'));
+    const options: ExtractAllOptions = { concurrency: 4 };
+    (iterator.extract(TARGET, options) as Promise<ExtractSummary>)
+      .then((summary) => {
+        assert.equal(summary.files, 7);
+        assert.equal(summary.directories, 4);
+        assert.equal(summary.links, 5);
+        assert.equal(summary.errors.length, 0);
+        assert.equal(fs.readlinkSync(path.join(TARGET, 'data', 'symlink1')), 'fixture.js');
+        assert.equal(fs.readFileSync(path.join(TARGET, 'data', 'symlink1'), 'utf8'), fs.readFileSync(path.join(TARGET, 'data', 'fixture.js'), 'utf8'));
+        done();
+      })
+      .catch(done);
+  });
+
+  it('should count skipped entries and keep going past errors', (done) => {
+    fs.mkdirSync(path.join(TARGET, 'data'));
+    fs.writeFileSync(path.join(TARGET, 'data', 'fixture.js'), 'existing');
+
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'), { exclude: ['data/dir3', 'data/dir3/**'] });
+    iterator.extract(TARGET, (err, summary) => {
+      if (err) return done(err);
+      const result = summary as ExtractSummary;
+      // dir3 and its file are skipped; data/fixture.js already exists (no force)
+      assert.equal(result.skipped, 2);
+      assert.equal(result.files, 2);
+      assert.equal(result.errors.length, 1);
+      assert.equal(result.errors[0].path, path.join('data', 'fixture.js'));
+      assert.equal((result.errors[0].error as NodeJS.ErrnoException).code, 'EEXIST');
+      assert.equal(fs.readFileSync(path.join(TARGET, 'data', 'fixture.js'), 'utf8'), 'existing');
+      done();
+    });
+  });
+
+  it('should fail for parse errors', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'truncated-signature.7z'));
+    iterator.extract(TARGET, (err) => {
+      assert.ok(err, 'Should fail');
+      done();
+    });
+  });
+
+  it('should fail once iteration has started', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'));
+    iterator
+      .next()
+      .then(() => {
+        iterator.extract(TARGET, (err) => {
+          assert.ok(err, 'Should fail');
+          iterator.destroy();
+          done();
+        });
+      })
+      .catch(done);
+  });
+});
@@ -0,0 +1,128 @@
+// Include / exclude / filter option tests
+// lzma2.7z holds data/fixture.js, data/dir1/fixture.js, data/dir1/dir2/fixture.js and data/dir3/fixture.js
+
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator, { type Entry } from '../../src/index.ts';
+import type { SevenZipEntry } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+function listPaths(archivePath: string, options: ExtractOptions, callback: (err?: Error, paths?: string[]) => void): void {
+  const iterator = new SevenZipIterator(archivePath, options);
+  const paths: string[] = [];
+  iterator.forEach(
+    (entry: Entry): void => {
+      paths.push(entry.path.split(path.sep).join('/'));
+    },
+    (err) => {
+      err ? callback(err) : callback(undefined, paths.sort());
+    }
+  );
+}
+
+describe('include / exclude / filter', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should match basenames at any depth for patterns without a slash', (done) => {
+    listPaths(path.join(DATA_DIR, 'lzma2.7z'), { include: '*.js' }, (err, paths) => {
+      if (err) return done(err);
+      assert.deepEqual(paths, ['data/dir1/dir2/fixture.js', 'data/dir1/fixture.js', 'data/dir3/fixture.js', 'data/fixture.js']);
+      done();
+    });
+  });
+
+  it('should match full paths with ** and exclude', (done) => {
+    const options: ExtractOptions = { include: ['data/**/*.js'], exclude: 'data/dir1/**' };
+    listPaths(path.join(DATA_DIR, 'lzma2.7z'), options, (err, paths) => {
+      if (err) return done(err);
+      assert.deepEqual(paths, ['data/dir3/fixture.js', 'data/fixture.js']);
+      done();
+    });
+  });
+
+  it('should support ?, classes and alternatives', (done) => {
+    const options: ExtractOptions = { include: ['data/dir[!1]/*.{js,json}', 'dat?'] };
+    listPaths(path.join(DATA_DIR, 'lzma2.7z'), options, (err, paths) => {
+      if (err) return done(err);
+      assert.deepEqual(paths, ['data', 'data/dir3/fixture.js']);
+      done();
+    });
+  });
+
+  it('should apply the filter predicate to parser entries', (done) => {
+    const seen: string[] = [];
+    const options: ExtractOptions = {
+      exclude: 'data/dir3/**',
+      filter: (entry: SevenZipEntry) => {
+        seen.push(entry.path);
+        return entry.type === 'file';
+      },
+    };
+    listPaths(path.join(DATA_DIR, 'lzma2.7z'), options, (err, paths) => {
+      if (err) return done(err);
+      assert.deepEqual(paths, ['data/dir1/dir2/fixture.js', 'data/dir1/fixture.js', 'data/fixture.js']);
+      // Excluded entries never reach the predicate
+      assert.equal(seen.indexOf('data/dir3/fixture.js'), -1);
+      done();
+    });
+  });
+
+  it('should not decode folders holding only skipped entries', (done) => {
+    // Corrupt the first packed folder of copy.7z (one file per folder) and skip its file
+    const buffer = fs.readFileSync(path.join(DATA_DIR, 'copy.7z'));
+    buffer[32] ^= 0xff;
+    const archivePath = path.join(TARGET, 'corrupt.7z');
+    fs.writeFileSync(archivePath, buffer);
+
+    let skipped: string | null = null;
+    const options: ExtractOptions = {
+      filter: (entry: SevenZipEntry) => {
+        if (entry.type === 'file' && entry._folderIndex === 0) {
+          skipped = entry.path;
+          return false;
+        }
+        return true;
+      },
+    };
+    const iterator = new SevenZipIterator(archivePath, options);
+    const extracted: string[] = [];
+    iterator.forEach(
+      (entry, cb) => {
+        if (entry.type === 'file') extracted.push(entry.path);
+        entry.create(path.join(TARGET, 'out'), {}, cb);
+      },
+      { callbacks: true, concurrency: 1 },
+      (err) => {
+        if (err) return done(err);
+        assert.ok(skipped);
+        assert.equal(extracted.length, 3);
+        done();
+      }
+    );
+  });
+});
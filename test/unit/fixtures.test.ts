@@ -4,6 +4,7 @@ import fs from 'fs';
 import { safeRm } from 'fs-remove-compat';
 import mkdirp from 'mkdirp-classic';
 import path from 'path';
+import { BufferSource, SevenZipParser } from '../../src/sevenz/index.ts';
 import { arrayFind, stringEndsWith } from '../lib/compat.ts';
 import { DATA_DIR, TARGET } from '../lib/constants.ts';
 
@@ -285,6 +286,31 @@ describe('fixtures', () => {
         }
       );
     });
+
+    it('should stream an LZMA2 folder whose matches reach into earlier chunks', (done) => {
+      // lzma2-chunks.7z packs blocks.bin - one 4KB random block repeated 600 times (2457600 bytes),
+      // more than one 2MB LZMA2 chunk, so the second chunk copies from the first
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2-chunks.7z'), { maxFolderSize: 65536 });
+
+      iterator.forEach(
+        (entry, callback) => {
+          entry.create(TARGET, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          if (err) {
+            done(err);
+            return;
+          }
+
+          // CRC is verified during extraction
+          const content = fs.readFileSync(path.join(TARGET, 'blocks.bin'));
+          assert.equal(content.length, 2457600);
+          assert.ok(content.slice(0, 4096).equals(content.slice(content.length - 4096)));
+          done();
+        }
+      );
+    });
   });
 
   describe('lzma1.7z (Phase 4 - LZMA1 codec)', () => {
@@ -334,6 +360,52 @@ describe('fixtures', () => {
         }
       );
     });
+
+    it('should stream a non-solid LZMA1 folder larger than its dictionary', (done) => {
+      // lzma1-words.7z packs words.txt (371045 bytes) with a 64KB dictionary; a 64KB
+      // maxFolderSize proves the folder is streamed rather than decoded in memory
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma1-words.7z'), { maxFolderSize: 65536 });
+
+      iterator.forEach(
+        (entry, callback) => {
+          entry.create(TARGET, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          if (err) {
+            done(err);
+            return;
+          }
+
+          // CRC is verified during extraction
+          const content = fs.readFileSync(path.join(TARGET, 'words.txt'), 'utf8');
+          assert.equal(content.length, 371045);
+          assert.equal(content.split('\n').length, 6001);
+          done();
+        }
+      );
+    });
+
+    it('should fail with TRUNCATED_ARCHIVE when a streamed LZMA1 pack stream is cut off', (done) => {
+      // Serve only the first half of every pack stream
+      const source = new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma1-words.7z')));
+      const createReadStream = source.createReadStream.bind(source);
+      source.createReadStream = (offset: number, length: number) => createReadStream(offset, Math.floor(length / 2));
+
+      const parser = new SevenZipParser(source);
+      parser.parse((parseErr) => {
+        if (parseErr) return done(parseErr);
+        const entry = parser.findEntry('words.txt');
+        assert.ok(entry);
+        const stream = parser.getEntryStream(entry);
+        stream.on('data', () => {});
+        stream.on('error', (err: Error & { code?: string }) => {
+          assert.equal(err.code, 'TRUNCATED_ARCHIVE');
+          done();
+        });
+        stream.on('end', () => done(new Error('Should fail')));
+      });
+    });
   });
 
   describe('bcj.7z (Phase 4 - BCJ x86 filter)', () => {
@@ -456,6 +528,55 @@ describe('fixtures', () => {
     });
   });
 
+  describe('ppmd.7z (PPMd codec)', () => {
+    // words.txt is 371045 bytes of generated text; ppmd-restart.7z packs it with 1MB model memory
+    // so the decoder has to glue free blocks and restart the model several times
+    it('should extract PPMd compressed archive', (done) => {
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'ppmd.7z'));
+
+      iterator.forEach(
+        (entry, callback) => {
+          entry.create(TARGET, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          if (err) {
+            done(err);
+            return;
+          }
+
+          const content = fs.readFileSync(path.join(TARGET, 'short.txt'), 'utf8').trim();
+          assert.equal(content, 'Test file with PPMd compression', 'Should extract PPMd content');
+          assert.equal(fs.statSync(path.join(TARGET, 'words.txt')).size, 371045);
+          done();
+        }
+      );
+    });
+
+    it('should extract PPMd archive that exhausts model memory', (done) => {
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'ppmd-restart.7z'));
+
+      iterator.forEach(
+        (entry, callback) => {
+          entry.create(TARGET, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          if (err) {
+            done(err);
+            return;
+          }
+
+          // CRC is verified during extraction
+          const content = fs.readFileSync(path.join(TARGET, 'words.txt'), 'utf8');
+          assert.equal(content.length, 371045);
+          assert.equal(content.split('\n').length, 6001);
+          done();
+        }
+      );
+    });
+  });
+
   describe('longpath.7z (paths > 260 chars)', () => {
     // Windows MAX_PATH is 260 chars. This tests that long paths are handled correctly.
     it('should iterate archive with long paths (> 260 chars)', (done) => {
@@ -662,8 +783,9 @@ describe('fixtures', () => {
         },
         { callbacks: true },
         (err): void => {
-          // Should fail with wrong password - either error or corrupted data
+          // Should fail with wrong password - detected before extraction starts
           assert.ok(err, 'Should fail with wrong password');
+          assert.equal((err as Error & { code?: string }).code, 'WRONG_PASSWORD');
           done();
         }
       );
@@ -686,6 +808,105 @@ describe('fixtures', () => {
         }
       );
     });
+
+    it('should keep passwords separate for concurrent iterators', (done) => {
+      // Both iterators are created before either decrypts - a shared password would leak between them
+      const good = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), { password: 'test123' });
+      const bad = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), { password: 'wrong' });
+      const goodTarget = path.join(TARGET, 'good');
+      const badTarget = path.join(TARGET, 'bad');
+      let extractedPath = '';
+      let remaining = 2;
+      let goodErr: Error | undefined;
+      let badErr: Error | undefined;
+
+      const finish = (): void => {
+        if (--remaining > 0) return;
+        if (goodErr) return done(goodErr);
+        assert.ok(badErr, 'Wrong password should still fail');
+        const content = fs.readFileSync(path.join(goodTarget, extractedPath), 'utf8').trim();
+        assert.equal(content, 'secret content', 'Correct password should still decrypt');
+        done();
+      };
+
+      good.forEach(
+        (entry, callback) => {
+          if (entry.type === 'file') extractedPath = entry.path;
+          entry.create(goodTarget, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          goodErr = err;
+          finish();
+        }
+      );
+      bad.forEach(
+        (entry, callback) => {
+          entry.create(badTarget, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          badErr = err;
+          finish();
+        }
+      );
+    });
+  });
+
+  describe('encrypted-header.7z (AES-256 header encryption)', () => {
+    it('should list and extract with correct password', (done) => {
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted-header.7z'), { password: 'test123' });
+      const paths: string[] = [];
+
+      iterator.forEach(
+        (entry, callback) => {
+          paths.push(entry.path);
+          entry.create(TARGET, {}, callback);
+        },
+        { callbacks: true },
+        (err): void => {
+          if (err) {
+            done(err);
+            return;
+          }
+
+          assert.deepEqual(paths.sort(), ['dir', path.join('dir', 'nested.txt'), 'secret.txt']);
+          assert.equal(fs.readFileSync(path.join(TARGET, 'secret.txt'), 'utf8').trim(), 'secret content');
+          assert.equal(fs.readFileSync(path.join(TARGET, 'dir', 'nested.txt'), 'utf8').trim(), 'nested secret');
+          done();
+        }
+      );
+    });
+
+    it('should fail with WRONG_PASSWORD for a wrong password', (done) => {
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted-header.7z'), { password: 'wrong' });
+
+      iterator.forEach(
+        (_entry): void => {
+          assert.ok(false, 'Should not list entries with a wrong password');
+        },
+        (err): void => {
+          assert.ok(err, 'Should fail with wrong password');
+          assert.equal((err as Error & { code?: string }).code, 'WRONG_PASSWORD');
+          done();
+        }
+      );
+    });
+
+    it('should fail with ENCRYPTED_ARCHIVE without password', (done) => {
+      const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted-header.7z'));
+
+      iterator.forEach(
+        (_entry): void => {
+          assert.ok(false, 'Should not list entries without password');
+        },
+        (err): void => {
+          assert.ok(err, 'Should fail without password');
+          assert.equal((err as Error & { code?: string }).code, 'ENCRYPTED_ARCHIVE');
+          done();
+        }
+      );
+    });
   });
 
   describe('arm.7z (ARM BCJ filter)', () => {
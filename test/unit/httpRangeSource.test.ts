@@ -0,0 +1,210 @@
+// HttpRangeSource tests
+// A local http server stands in for the object store and records every Range it serves
+
+import assert from 'assert';
+import http from 'http';
+import { ErrorCode, type HttpRangeSource, type HttpRangeSourceOptions, openHttpRangeSource, SevenZipParser, SevenZipWriter } from '../../src/sevenz/index.ts';
+import randomBytes from '../lib/randomBytes.ts';
+import readStream from '../lib/readStream.ts';
+
+const FILE_SIZE = 100000;
+const OPTIONS: HttpRangeSourceOptions = { blockSize: 4096, readaheadBlocks: 1 };
+
+describe('HttpRangeSource', () => {
+  const files = [randomBytes(FILE_SIZE, 1), randomBytes(FILE_SIZE, 2), randomBytes(FILE_SIZE, 3)];
+  let archive: Buffer;
+  let server: http.Server;
+  let baseUrl: string;
+  let ranges: number[][] = [];
+  let rangeSupport = true;
+  // Requests left unanswered while set
+  let hold = false;
+  let held: http.ServerResponse[] = [];
+
+  function bytesServed(): number {
+    let total = 0;
+    for (let i = 0; i < ranges.length; i++) total += ranges[i][1] - ranges[i][0] + 1;
+    return total;
+  }
+
+  function withSource(fn: (source: HttpRangeSource, done: (err?: Error) => void) => void, callback: (err?: Error) => void): void {
+    openHttpRangeSource(`${baseUrl}/archive.7z`, OPTIONS, (err, source) => {
+      if (err) return callback(err);
+      fn(source as HttpRangeSource, (fnErr) => {
+        (source as HttpRangeSource).close();
+        callback(fnErr);
+      });
+    });
+  }
+
+  before((done) => {
+    const writer = new SevenZipWriter({ method: 'copy', solid: false });
+    for (let i = 0; i < files.length; i++) writer.add({ type: 'file', path: `file${i}.bin`, data: files[i] });
+    writer.toBuffer((err, buffer) => {
+      if (err) return done(err);
+      archive = buffer as Buffer;
+      server = http.createServer((req, res) => {
+        if (req.url !== '/archive.7z') {
+          res.statusCode = 404;
+          return res.end();
+        }
+        const match = /^bytes=(\d+)-(\d+)$/.exec(String(req.headers.range || ''));
+        if (!rangeSupport || !match) {
+          res.statusCode = 200;
+          return res.end(archive);
+        }
+        if (hold) {
+          held.push(res);
+          return;
+        }
+        const start = parseInt(match[1], 10);
+        const end = Math.min(parseInt(match[2], 10), archive.length - 1);
+        ranges.push([start, end]);
+        res.statusCode = 206;
+        res.setHeader('Content-Range', `bytes ${start}-${end}/${archive.length}`);
+        res.end(archive.slice(start, end + 1));
+      });
+      server.listen(0, '127.0.0.1', () => {
+        baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+        done();
+      });
+    });
+  });
+
+  after((done) => {
+    server.close(() => done());
+  });
+
+  beforeEach(() => {
+    ranges = [];
+    rangeSupport = true;
+    hold = false;
+  });
+
+  afterEach(() => {
+    for (let i = 0; i < held.length; i++) held[i].end();
+    held = [];
+  });
+
+  it('should read the archive size and start with one request', (done) => {
+    withSource((source, cb) => {
+      assert.equal(source.getSize(), archive.length);
+      assert.deepEqual(ranges, [[0, 8191]]);
+      source.readAsync(100, 5000, (err, data) => {
+        if (err) return cb(err);
+        assert.ok((data as Buffer).equals(archive.slice(100, 5100)));
+        assert.equal(ranges.length, 1);
+        cb();
+      });
+    }, done);
+  });
+
+  it('should fetch missing blocks once with readahead and serve repeats from the cache', (done) => {
+    withSource((source, cb) => {
+      const position = 50000;
+      let pending = 2;
+      const check = (err: Error | null, data?: unknown): void => {
+        if (err) return cb(err);
+        assert.ok((data as Buffer).equals(archive.slice(position, position + 100)));
+        if (--pending > 0) return;
+
+        // One request for both reads: the missing block plus one readahead block
+        assert.deepEqual(ranges.slice(1), [[49152, 57343]]);
+        source.readAsync(position + 4096, 100, (readErr, data2) => {
+          if (readErr) return cb(readErr);
+          assert.ok((data2 as Buffer).equals(archive.slice(position + 4096, position + 4196)));
+          assert.equal(ranges.length, 2);
+          cb();
+        });
+      };
+      source.readAsync(position, 100, check);
+      source.readAsync(position, 100, check);
+    }, done);
+  });
+
+  it('should parse the headers without downloading pack streams', (done) => {
+    withSource((source, cb) => {
+      const parser = new SevenZipParser(source);
+      parser.parse((err) => {
+        if (err) return cb(err);
+        assert.deepEqual(
+          parser
+            .getEntries()
+            .map((e) => e.path)
+            .sort(),
+          ['file0.bin', 'file1.bin', 'file2.bin']
+        );
+        assert.ok(bytesServed() < 20000, `served ${bytesServed()} bytes`);
+        cb();
+      });
+    }, done);
+  });
+
+  it('should download only the pack stream of the entry read', (done) => {
+    withSource((source, cb) => {
+      const parser = new SevenZipParser(source);
+      parser.parse((err) => {
+        if (err) return cb(err);
+        const afterParse = bytesServed();
+        const entry = parser.findEntry('file1.bin');
+        assert.ok(entry);
+        readStream(parser.getEntryStream(entry), (readErr, data) => {
+          if (readErr) return cb(readErr);
+          assert.ok((data as Buffer).equals(files[1]));
+          const served = bytesServed() - afterParse;
+          assert.ok(served >= FILE_SIZE && served < FILE_SIZE + 2 * 4096, `served ${served} bytes`);
+          cb();
+        });
+      });
+    }, done);
+  });
+
+  function closeDuringRead(closeAfter: number, done: (err?: Error) => void): void {
+    openHttpRangeSource(`${baseUrl}/archive.7z`, OPTIONS, (err, source) => {
+      if (err) return done(err);
+      const rangeSource = source as HttpRangeSource;
+      hold = true;
+
+      let pending = 2;
+      const check = (closeErr?: Error | null): void => {
+        assert.ok(closeErr, 'Should fail');
+        assert.equal((closeErr as Error & { code?: string }).code, ErrorCode.HTTP_ERROR);
+        if (--pending === 0) done();
+      };
+      rangeSource.readAsync(50000, 100, (readErr) => check(readErr));
+      const stream = rangeSource.createReadStream(200000, 1000);
+      stream.on('error', check);
+      stream.on('end', () => done(new Error('Should fail')));
+      stream.resume();
+
+      if (closeAfter < 0) rangeSource.close();
+      else setTimeout(() => rangeSource.close(), closeAfter);
+    });
+  }
+
+  it('should fail reads and streams waiting on requests when closed', (done) => {
+    closeDuringRead(50, done);
+  });
+
+  it('should fail reads and streams when closed before the requests connect', (done) => {
+    closeDuringRead(-1, done);
+  });
+
+  it('should fail with HTTP_ERROR when the server ignores Range', (done) => {
+    rangeSupport = false;
+    openHttpRangeSource(`${baseUrl}/archive.7z`, OPTIONS, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, ErrorCode.HTTP_ERROR);
+      done();
+    });
+  });
+
+  it('should fail with HTTP_ERROR for a missing archive', (done) => {
+    openHttpRangeSource(`${baseUrl}/missing.7z`, OPTIONS, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, ErrorCode.HTTP_ERROR);
+      assert.ok((err as Error).message.indexOf('404') >= 0, (err as Error).message);
+      done();
+    });
+  });
+});
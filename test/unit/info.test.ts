@@ -0,0 +1,142 @@
+// Archive info tests
+// Expected values match `7z l -slt` for the same fixtures
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { type ArchiveInfo, BufferSource, SevenZipParser, SevenZipWriter } from '../../src/sevenz/index.ts';
+import { DATA_DIR } from '../lib/constants.ts';
+
+function parserInfo(name: string, callback: (err: Error | null, info?: ArchiveInfo) => void): void {
+  const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, name))), { password: 'test123' });
+  parser.parse((err) => {
+    if (err) return callback(err);
+    callback(null, parser.getArchiveInfo());
+  });
+}
+
+describe('archive info', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  it('should describe a solid archive', (done) => {
+    parserInfo('lzma2.7z', (err, info) => {
+      if (err) return done(err);
+      const archive = info as ArchiveInfo;
+      assert.equal(archive.majorVersion, 0);
+      assert.equal(archive.solid, true);
+      assert.equal(archive.numFolders, 1);
+      assert.equal(archive.numFiles, 4);
+      assert.equal(archive.numDirectories, 4);
+      assert.equal(archive.unpackedSize, 92);
+      assert.equal(archive.physicalSize, 262);
+      assert.equal(archive.encrypted, false);
+      assert.equal(archive.folders[0].numFiles, 4);
+      assert.deepEqual(
+        archive.folders[0].coders.map((c) => c.name),
+        ['LZMA2']
+      );
+      done();
+    });
+  });
+
+  it('should list the coder chain of a filtered folder', (done) => {
+    parserInfo('bcj.7z', (err, info) => {
+      if (err) return done(err);
+      const archive = info as ArchiveInfo;
+      assert.equal(archive.solid, false);
+      assert.equal(archive.physicalSize, 161);
+      assert.deepEqual(
+        archive.folders[0].coders.map((c) => c.name),
+        ['LZMA2', 'BCJ (x86)']
+      );
+      assert.equal(archive.packedSize, archive.folders[0].packedSize);
+      done();
+    });
+  });
+
+  it('should count regular files only in numFiles', (done) => {
+    new SevenZipWriter({ method: 'copy' })
+      .add({ type: 'directory', path: 'data' })
+      .add({ type: 'file', path: 'data/file.txt', data: 'file' })
+      .add({ type: 'symlink', path: 'data/link', linkpath: 'file.txt' })
+      .toBuffer((err, buffer) => {
+        if (err) return done(err);
+        const parser = new SevenZipParser(new BufferSource(buffer as Buffer));
+        parser.parse((parseErr) => {
+          if (parseErr) return done(parseErr);
+          const archive = parser.getArchiveInfo();
+          assert.equal(archive.numFiles, 1);
+          assert.equal(archive.numDirectories, 1);
+          // The symlink target is still a stream of the folder
+          assert.equal(archive.folders[0].numFiles, 2);
+          done();
+        });
+      });
+  });
+
+  it('should report encrypted and compressed headers', (done) => {
+    parserInfo('encrypted-header.7z', (err, info) => {
+      if (err) return done(err);
+      const archive = info as ArchiveInfo;
+      assert.equal(archive.headerCompressed, true);
+      assert.equal(archive.headerEncrypted, true);
+      assert.equal(archive.encrypted, true);
+      assert.equal(archive.physicalSize, 278);
+      assert.ok(archive.folders[0].encrypted);
+      done();
+    });
+  });
+
+  it('should get info from SevenZipIterator (Promise)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'));
+    (iterator.info() as Promise<ArchiveInfo>)
+      .then((info) => {
+        // Info does not need the password - only metadata is read
+        assert.equal(info.headerEncrypted, false);
+        assert.equal(info.encrypted, true);
+        assert.equal(info.numFiles, 1);
+        iterator.destroy();
+        done();
+      })
+      .catch(done);
+  });
+
+  it('should get info from SevenZipIterator (callback) before and after iterating', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'));
+    iterator.info((err, info) => {
+      if (err) return done(err);
+      assert.equal((info as ArchiveInfo).numFiles, 4);
+      iterator.forEach(
+        (): void => {},
+        (forEachErr) => {
+          if (forEachErr) return done(forEachErr);
+          iterator.info((infoErr, again) => {
+            if (infoErr) return done(infoErr);
+            assert.deepEqual(again, info);
+            done();
+          });
+        }
+      );
+    });
+  });
+
+  it('should pass parse errors to info', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'truncated-signature.7z'));
+    iterator.info((err) => {
+      assert.ok(err, 'Should fail');
+      done();
+    });
+  });
+});
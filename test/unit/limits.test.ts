@@ -0,0 +1,98 @@
+// Resource limit tests
+// zeros.7z holds 1.2MB of zeros in one LZMA2 folder (368 bytes)
+
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { BufferSource, type CodedError, ErrorCode, SevenZipParser, type SevenZipParserOptions } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+function parseWith(name: string, options: SevenZipParserOptions, callback: (err: Error | null) => void): void {
+  const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, name))), options);
+  parser.parse(callback);
+}
+
+function extractWith(archivePath: string, options: ExtractOptions, callback: (err?: Error) => void): void {
+  const iterator = new SevenZipIterator(archivePath, options);
+  iterator.forEach(
+    (entry, cb) => {
+      entry.create(TARGET, {}, cb);
+    },
+    { callbacks: true, concurrency: 1 },
+    callback
+  );
+}
+
+function assertLimitExceeded(err: Error | null | undefined): void {
+  assert.ok(err, 'Should fail');
+  assert.equal((err as CodedError).code, ErrorCode.LIMIT_EXCEEDED);
+}
+
+describe('limits', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should limit the header size', (done) => {
+    parseWith('lzma2.7z', { maxHeaderSize: 16 }, (err) => {
+      assertLimitExceeded(err);
+      done();
+    });
+  });
+
+  it('should limit the number of entries', (done) => {
+    parseWith('lzma2.7z', { maxEntries: 7 }, (err) => {
+      assertLimitExceeded(err);
+      parseWith('lzma2.7z', { maxEntries: 8 }, done);
+    });
+  });
+
+  it('should limit the total unpacked size', (done) => {
+    extractWith(path.join(DATA_DIR, 'lzma2.7z'), { maxTotalUnpackedSize: 91 }, (err) => {
+      assertLimitExceeded(err);
+      done();
+    });
+  });
+
+  it('should limit folders decoded in memory but not streamed ones', (done) => {
+    // lzma1.7z is one solid folder of two files (decoded in memory); copy.7z streams one file per folder
+    extractWith(path.join(DATA_DIR, 'lzma1.7z'), { maxFolderSize: 47 }, (err) => {
+      assertLimitExceeded(err);
+      extractWith(path.join(DATA_DIR, 'copy.7z'), { maxFolderSize: 1 }, done);
+    });
+  });
+
+  it('should limit the compression ratio by default', (done) => {
+    extractWith(path.join(DATA_DIR, 'zeros.7z'), {}, (err) => {
+      assertLimitExceeded(err);
+      extractWith(path.join(DATA_DIR, 'zeros.7z'), { maxCompressionRatio: Infinity }, (extractErr) => {
+        if (extractErr) return done(extractErr);
+        assert.equal(fs.statSync(path.join(TARGET, 'zeros.bin')).size, 1200000);
+        done();
+      });
+    });
+  });
+});
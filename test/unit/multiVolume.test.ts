@@ -0,0 +1,168 @@
+// Multi-volume (split) archive tests
+// split.7z.001-004: random.bin (3000 random bytes) and readme.txt, split into 1KB volumes
+
+import SevenZipIterator from '7z-iterator';
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import { MultiVolumeSource, openVolumes, SevenZipParser, type Volume } from '../../src/sevenz/index.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+const FIRST_VOLUME = path.join(DATA_DIR, 'split.7z.001');
+
+function concatVolumes(): Buffer {
+  const buffers: Buffer[] = [];
+  for (let i = 1; i <= 4; i++) buffers.push(fs.readFileSync(path.join(DATA_DIR, `split.7z.00${i}`)));
+  return Buffer.concat(buffers);
+}
+
+function withSource(firstVolume: string, fn: (source: MultiVolumeSource, done: (err?: Error) => void) => void, callback: (err?: Error) => void): void {
+  openVolumes(firstVolume, (err, volumes) => {
+    if (err) return callback(err);
+    const source = new MultiVolumeSource(volumes as Volume[]);
+    fn(source, (fnErr) => {
+      source.close();
+      callback(fnErr);
+    });
+  });
+}
+
+describe('multi-volume archives', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should discover every volume from the .001 name', (done) => {
+    withSource(
+      FIRST_VOLUME,
+      (source, cb) => {
+        assert.equal(source.getSize(), concatVolumes().length);
+        cb();
+      },
+      done
+    );
+  });
+
+  it('should read across volume boundaries', (done) => {
+    const expected = concatVolumes();
+    withSource(
+      FIRST_VOLUME,
+      (source, cb) => {
+        const buf = source.read(1000, 1100) as Buffer;
+        assert.ok(buf.equals(expected.slice(1000, 2100)));
+        assert.ok((source.read(0, expected.length) as Buffer).equals(expected));
+        cb();
+      },
+      done
+    );
+  });
+
+  it('should stream across volume boundaries', (done) => {
+    const expected = concatVolumes();
+    withSource(
+      FIRST_VOLUME,
+      (source, cb) => {
+        const chunks: Buffer[] = [];
+        const stream = source.createReadStream(500, 2700);
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('error', cb);
+        stream.on('end', () => {
+          assert.ok(Buffer.concat(chunks).equals(expected.slice(500, 3200)));
+          cb();
+        });
+      },
+      done
+    );
+  });
+
+  it('should parse with SevenZipParser', (done) => {
+    withSource(
+      FIRST_VOLUME,
+      (source, cb) => {
+        const parser = new SevenZipParser(source);
+        (parser.parse() as Promise<void>)
+          .then(() => {
+            const paths = parser.getEntries().map((e) => e.path);
+            assert.deepEqual(paths.sort(), ['random.bin', 'readme.txt']);
+            cb();
+          })
+          .catch(cb);
+      },
+      done
+    );
+  });
+
+  it('should extract a split archive from its first volume', (done) => {
+    const iterator = new SevenZipIterator(FIRST_VOLUME);
+    iterator.forEach(
+      (entry, cb) => {
+        entry.create(TARGET, {}, cb);
+      },
+      { callbacks: true, concurrency: 1 },
+      (err) => {
+        if (err) return done(err);
+        assert.equal(fs.readFileSync(path.join(TARGET, 'readme.txt'), 'utf8'), 'split archive content\n');
+        assert.equal(fs.statSync(path.join(TARGET, 'random.bin')).size, 3000);
+        done();
+      }
+    );
+  });
+
+  it('should fail with TRUNCATED_ARCHIVE naming the missing volume', (done) => {
+    const dir = path.join(TARGET, 'partial');
+    mkdirp(dir, (mkErr) => {
+      if (mkErr) return done(mkErr);
+      fs.writeFileSync(path.join(dir, 'split.7z.001'), fs.readFileSync(path.join(DATA_DIR, 'split.7z.001')));
+      fs.writeFileSync(path.join(dir, 'split.7z.002'), fs.readFileSync(path.join(DATA_DIR, 'split.7z.002')));
+
+      withSource(
+        path.join(dir, 'split.7z.001'),
+        (source, cb) => {
+          try {
+            source.read(2100, 100);
+          } catch (err) {
+            assert.equal((err as Error & { code?: string }).code, 'TRUNCATED_ARCHIVE');
+            assert.ok((err as Error).message.indexOf('split.7z.003') >= 0, (err as Error).message);
+            return cb();
+          }
+          cb(new Error('Should fail'));
+        },
+        (err) => {
+          if (err) return done(err);
+
+          // The header lives in the last volume, so iteration fails up front
+          const iterator = new SevenZipIterator(path.join(dir, 'split.7z.001'));
+          iterator.forEach(
+            (_entry): void => {},
+            (iterErr) => {
+              assert.ok(iterErr, 'Should fail');
+              assert.equal((iterErr as Error & { code?: string }).code, 'TRUNCATED_ARCHIVE');
+              done();
+            }
+          );
+        }
+      );
+    });
+  });
+});
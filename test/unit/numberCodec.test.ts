@@ -1,6 +1,6 @@
 import assert from 'assert';
 import { bufferFrom } from 'extract-base-iterator';
-import { encodedSize, readDefinedVector, readNumber, readNumberArray } from '../../src/sevenz/NumberCodec.ts';
+import { encodedSize, readDefinedVector, readNumber, readNumberArray, writeNumber } from '../../src/sevenz/NumberCodec.ts';
 
 describe('NumberCodec', () => {
   describe('readNumber', () => {
@@ -142,4 +142,23 @@ describe('NumberCodec', () => {
       assert.equal(result.bytesRead, 3);
     });
   });
+
+  describe('writeNumber', () => {
+    it('should round trip through readNumber', () => {
+      const values = [0, 1, 127, 128, 16383, 16384, 0x1fffff, 0x200000, 0xffffffff, 0x100000000, Number.MAX_SAFE_INTEGER];
+      for (let i = 0; i < values.length; i++) {
+        const buf = writeNumber(values[i]);
+        assert.equal(buf.length, encodedSize(values[i]));
+        const result = readNumber(buf, 0);
+        assert.equal(result.value, values[i]);
+        assert.equal(result.bytesRead, buf.length);
+      }
+    });
+
+    it('should write the shortest encoding', () => {
+      assert.deepEqual(Array.prototype.slice.call(writeNumber(127)), [0x7f]);
+      assert.deepEqual(Array.prototype.slice.call(writeNumber(128)), [0x80, 0x80]);
+      assert.deepEqual(Array.prototype.slice.call(writeNumber(16383)), [0xbf, 0xff]);
+    });
+  });
 });
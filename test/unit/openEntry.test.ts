@@ -0,0 +1,118 @@
+// Random-access entry lookup tests
+// The early-stop archive is written with SevenZipWriter: a small file ahead of 300KB of random data in one solid folder
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import type Stream from 'stream';
+import SevenZipIterator from '../../src/index.ts';
+import { BufferSource, SevenZipParser, SevenZipWriter } from '../../src/sevenz/index.ts';
+import { DATA_DIR, FIXTURE_CONTENT } from '../lib/constants.ts';
+import randomBytes from '../lib/randomBytes.ts';
+import readStream from '../lib/readStream.ts';
+
+// BufferSource that counts the packed bytes handed to decoders
+class CountingSource extends BufferSource {
+  bytesStreamed = 0;
+
+  createReadStream(offset: number, length: number): Stream.Readable {
+    const stream = super.createReadStream(offset, length);
+    stream.on('data', (chunk: Buffer) => {
+      this.bytesStreamed += chunk.length;
+    });
+    return stream;
+  }
+}
+
+describe('openEntry', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  it('should find entries with either separator', (done) => {
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))));
+    parser.parse((err) => {
+      if (err) return done(err);
+      const entry = parser.findEntry('data/dir1/fixture.js');
+      assert.ok(entry);
+      assert.equal(parser.findEntry('data\\dir1\\fixture.js'), entry);
+      assert.equal(parser.findEntry('/data//dir1/fixture.js'), entry);
+      assert.equal(parser.findEntry('data/missing.js'), null);
+      assert.equal(parser.findEntry('constructor'), null);
+      done();
+    });
+  });
+
+  it('should stop decoding a solid folder after the entry', (done) => {
+    const random = randomBytes(300000);
+    new SevenZipWriter({ method: 'lzma2', solid: true })
+      .add({ type: 'file', path: 'manifest.json', data: '{"name":"manifest"}' })
+      .add({ type: 'file', path: 'payload.bin', data: random })
+      .toBuffer((err, buffer) => {
+        if (err) return done(err);
+        const source = new CountingSource(buffer as Buffer);
+        const parser = new SevenZipParser(source);
+        parser.parse((parseErr) => {
+          if (parseErr) return done(parseErr);
+          readStream(parser.openEntryStream(parser.findEntry('manifest.json')), (readErr, data) => {
+            if (readErr) return done(readErr);
+            assert.equal((data as Buffer).toString(), '{"name":"manifest"}');
+            assert.ok(source.bytesStreamed < random.length / 2, `streamed ${source.bytesStreamed} bytes`);
+
+            // The entry after it still decodes (skipping the earlier bytes)
+            readStream(parser.openEntryStream(parser.findEntry('payload.bin')), (payloadErr, payload) => {
+              if (payloadErr) return done(payloadErr);
+              assert.ok((payload as Buffer).equals(random));
+              done();
+            });
+          });
+        });
+      });
+  });
+
+  it('should open an entry with SevenZipIterator (callback)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'));
+    iterator.openEntry('data/dir3/fixture.js', (err, stream) => {
+      if (err) return done(err);
+      readStream(stream as NodeJS.ReadableStream, (readErr, data) => {
+        if (readErr) return done(readErr);
+        assert.equal((data as Buffer).toString().indexOf(FIXTURE_CONTENT), 0);
+        iterator.destroy();
+        done();
+      });
+    });
+  });
+
+  it('should open a later entry of a solid LZMA folder (Promise)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma1.7z'));
+    (iterator.openEntry('file2.js') as Promise<NodeJS.ReadableStream>)
+      .then((stream) => {
+        readStream(stream, (err, data) => {
+          if (err) return done(err);
+          assert.equal((data as Buffer).length, 24);
+          iterator.destroy();
+          done();
+        });
+      })
+      .catch(done);
+  });
+
+  it('should fail with ENTRY_NOT_FOUND', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'lzma2.7z'));
+    iterator.openEntry('data/dir1', (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'ENTRY_NOT_FOUND');
+      iterator.destroy();
+      done();
+    });
+  });
+});
@@ -0,0 +1,186 @@
+// Password provider tests
+// multi-password.7z: alpha.txt (folder 0, password 'first') and beta.txt (folder 1, password 'second')
+
+import SevenZipIterator from '7z-iterator';
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import type { PasswordContext } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+function extractAll(iterator: SevenZipIterator, callback: (err?: Error) => void): void {
+  iterator.forEach(
+    (entry, cb) => {
+      entry.create(TARGET, {}, cb);
+    },
+    { callbacks: true, concurrency: 1 },
+    callback
+  );
+}
+
+describe('passwordProvider', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should ask lazily with archive path and folder index (Promise)', (done) => {
+    const archivePath = path.join(DATA_DIR, 'encrypted.7z');
+    const contexts: PasswordContext[] = [];
+    const options: ExtractOptions = {
+      passwordProvider: (context) => {
+        contexts.push(context);
+        return Promise.resolve('test123');
+      },
+    };
+    const iterator = new SevenZipIterator(archivePath, options);
+
+    extractAll(iterator, (err) => {
+      if (err) return done(err);
+      assert.equal(contexts.length, 1);
+      assert.equal(contexts[0].archivePath, archivePath);
+      assert.equal(contexts[0].folderIndex, 0);
+      assert.equal(contexts[0].attempt, 1);
+      assert.equal(fs.readFileSync(path.join(TARGET, 'secret.txt'), 'utf8').trim(), 'secret content');
+      done();
+    });
+  });
+
+  it('should retry on wrong password (callback)', (done) => {
+    const answers = ['nope', 'still wrong', 'test123'];
+    const attempts: number[] = [];
+    const options: ExtractOptions = {
+      passwordProvider: (context, callback) => {
+        attempts.push(context.attempt);
+        callback(null, answers[context.attempt - 1]);
+      },
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), options);
+
+    extractAll(iterator, (err) => {
+      if (err) return done(err);
+      assert.deepEqual(attempts, [1, 2, 3]);
+      assert.equal(fs.readFileSync(path.join(TARGET, 'secret.txt'), 'utf8').trim(), 'secret content');
+      done();
+    });
+  });
+
+  it('should fail with WRONG_PASSWORD after passwordRetries attempts', (done) => {
+    let calls = 0;
+    const options: ExtractOptions = {
+      passwordRetries: 2,
+      passwordProvider: () => {
+        calls++;
+        return Promise.resolve('wrong');
+      },
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), options);
+
+    extractAll(iterator, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'WRONG_PASSWORD');
+      assert.equal(calls, 2);
+      done();
+    });
+  });
+
+  it('should fail with ENCRYPTED_ARCHIVE when the provider gives no password', (done) => {
+    const options: ExtractOptions = {
+      passwordProvider: () => Promise.resolve(undefined),
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), options);
+
+    extractAll(iterator, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'ENCRYPTED_ARCHIVE');
+      done();
+    });
+  });
+
+  it('should fail with ENCRYPTED_ARCHIVE when the provider returns null synchronously', (done) => {
+    const options: ExtractOptions = {
+      passwordProvider: () => null,
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), options);
+
+    extractAll(iterator, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'ENCRYPTED_ARCHIVE');
+      done();
+    });
+  });
+
+  it('should fail with ENCRYPTED_ARCHIVE when the provider returns undefined synchronously', (done) => {
+    const options: ExtractOptions = {
+      passwordProvider: () => undefined,
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted.7z'), options);
+
+    extractAll(iterator, (err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'ENCRYPTED_ARCHIVE');
+      done();
+    });
+  });
+
+  it('should ask per folder for archives with different passwords', (done) => {
+    const asked: number[] = [];
+    const options: ExtractOptions = {
+      password: 'first',
+      passwordProvider: (context) => {
+        asked.push(context.folderIndex);
+        return Promise.resolve('second');
+      },
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'multi-password.7z'), options);
+
+    extractAll(iterator, (err) => {
+      if (err) return done(err);
+      // folder 0 opens with the static password, folder 1 needs the provider
+      assert.deepEqual(asked, [1]);
+      assert.equal(fs.readFileSync(path.join(TARGET, 'alpha.txt'), 'utf8').trim(), 'alpha content');
+      assert.equal(fs.readFileSync(path.join(TARGET, 'beta.txt'), 'utf8').trim(), 'beta content');
+      done();
+    });
+  });
+
+  it('should ask for an encrypted header with folder index -1', (done) => {
+    const asked: number[] = [];
+    const options: ExtractOptions = {
+      passwordProvider: (context) => {
+        asked.push(context.folderIndex);
+        return Promise.resolve('test123');
+      },
+    };
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'encrypted-header.7z'), options);
+
+    extractAll(iterator, (err) => {
+      if (err) return done(err);
+      // The header password is remembered and reused for the data folder
+      assert.deepEqual(asked, [-1]);
+      assert.equal(fs.readFileSync(path.join(TARGET, 'secret.txt'), 'utf8').trim(), 'secret content');
+      done();
+    });
+  });
+});
@@ -0,0 +1,204 @@
+// Entry path and symlink target sanitization tests
+// Archives are crafted with SevenZipWriter; names it would normalize or reject (backslashes, absolute paths, '..') are patched into the header afterwards
+
+import assert from 'assert';
+import { bufferFrom, crc32 } from 'extract-base-iterator';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { type CodedError, ErrorCode, SevenZipWriter, type WriterEntry } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { TARGET } from '../lib/constants.ts';
+
+const OUT = path.join(TARGET, 'out');
+
+// Replace a name in the (plain) header with one of the same length and fix the header CRCs
+function patchName(buffer: Buffer, from: string, to: string): void {
+  const headerStart = 32 + buffer.readUInt32LE(12);
+  const headerSize = buffer.readUInt32LE(20);
+  const index = buffer.indexOf(bufferFrom(from, 'utf16le'), headerStart);
+  assert.ok(index > 0, `name not found: ${from}`);
+  bufferFrom(to, 'utf16le').copy(buffer, index);
+  buffer.writeUInt32LE(crc32(buffer.slice(headerStart, headerStart + headerSize)), 28);
+  buffer.writeUInt32LE(crc32(buffer.slice(12, 32)), 8);
+}
+
+function writeArchive(entries: WriterEntry[], patches: string[][], callback: (err: Error | null, archivePath?: string) => void): void {
+  const writer = new SevenZipWriter({ method: 'copy' });
+  for (let i = 0; i < entries.length; i++) writer.add(entries[i]);
+  writer.toBuffer((err, buffer) => {
+    if (err) return callback(err);
+    for (let i = 0; i < patches.length; i++) patchName(buffer as Buffer, patches[i][0], patches[i][1]);
+    const archivePath = path.join(TARGET, 'crafted.7z');
+    fs.writeFileSync(archivePath, buffer as Buffer);
+    callback(null, archivePath);
+  });
+}
+
+function extract(archivePath: string, options: ExtractOptions, callback: (err?: Error, paths?: string[]) => void): void {
+  const iterator = new SevenZipIterator(archivePath, options);
+  const paths: string[] = [];
+  iterator.forEach(
+    (entry, cb) => {
+      paths.push(entry.path);
+      entry.create(OUT, {}, cb);
+    },
+    { callbacks: true, concurrency: 1 },
+    (err) => {
+      err ? callback(err) : callback(undefined, paths);
+    }
+  );
+}
+
+function assertUnsafe(err: Error | undefined): void {
+  assert.ok(err, 'Should fail');
+  assert.equal((err as CodedError).code, ErrorCode.UNSAFE_PATH);
+}
+
+describe('pathPolicy', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should reject traversal by default and strip it on request', (done) => {
+    writeArchive([{ type: 'file', path: 'up/evil.txt', data: 'evil' }], [['up/', '../']], (err, archivePath) => {
+      if (err) return done(err);
+      extract(archivePath as string, {}, (rejectErr) => {
+        assertUnsafe(rejectErr);
+        assert.ok(!fs.existsSync(path.join(TARGET, 'evil.txt')));
+
+        extract(archivePath as string, { pathPolicy: 'strip' }, (stripErr, paths) => {
+          if (stripErr) return done(stripErr);
+          assert.deepEqual(paths, ['evil.txt']);
+          assert.equal(fs.readFileSync(path.join(OUT, 'evil.txt'), 'utf8'), 'evil');
+          assert.ok(!fs.existsSync(path.join(TARGET, 'evil.txt')));
+          done();
+        });
+      });
+    });
+  });
+
+  it('should pass paths through with allow', (done) => {
+    writeArchive([{ type: 'file', path: 'up/evil.txt', data: 'evil' }], [['up/', '../']], (err, archivePath) => {
+      if (err) return done(err);
+      const iterator = new SevenZipIterator(archivePath as string, { pathPolicy: 'allow' });
+      const paths: string[] = [];
+      iterator.forEach(
+        (entry): void => {
+          paths.push(entry.path);
+        },
+        (iterateErr) => {
+          if (iterateErr) return done(iterateErr);
+          assert.deepEqual(paths, [path.join('..', 'evil.txt')]);
+          done();
+        }
+      );
+    });
+  });
+
+  it('should treat backslashes as separators', (done) => {
+    writeArchive([{ type: 'file', path: 'dir_sub_file.txt', data: 'windows' }], [['dir_sub_file.txt', 'dir\\sub\\file.txt']], (err, archivePath) => {
+      if (err) return done(err);
+      extract(archivePath as string, {}, (extractErr, paths) => {
+        if (extractErr) return done(extractErr);
+        assert.deepEqual(paths, [path.join('dir', 'sub', 'file.txt')]);
+        assert.equal(fs.readFileSync(path.join(OUT, 'dir', 'sub', 'file.txt'), 'utf8'), 'windows');
+        done();
+      });
+    });
+  });
+
+  it('should reject or strip absolute paths and drive letters', (done) => {
+    const entries: WriterEntry[] = [
+      { type: 'file', path: 'Xetc/passwd', data: 'root' },
+      { type: 'file', path: 'Cx/boot.ini', data: 'boot' },
+    ];
+    const patches = [
+      ['Xetc', '/etc'],
+      ['Cx/', 'C:/'],
+    ];
+    writeArchive(entries, patches, (err, archivePath) => {
+      if (err) return done(err);
+      extract(archivePath as string, {}, (rejectErr) => {
+        assertUnsafe(rejectErr);
+
+        extract(archivePath as string, { pathPolicy: 'strip' }, (stripErr, paths) => {
+          if (stripErr) return done(stripErr);
+          assert.deepEqual(paths, [path.join('etc', 'passwd'), 'boot.ini']);
+          assert.equal(fs.readFileSync(path.join(OUT, 'etc', 'passwd'), 'utf8'), 'root');
+          done();
+        });
+      });
+    });
+  });
+
+  it('should skip entries that strip reduces to nothing', (done) => {
+    const entries: WriterEntry[] = [
+      { type: 'file', path: 'XY', data: 'up' },
+      { type: 'file', path: 'ZZZ', data: 'root' },
+      { type: 'file', path: 'ok.txt', data: 'ok' },
+    ];
+    const patches = [
+      ['XY', '..'],
+      ['ZZZ', 'C:\\'],
+    ];
+    writeArchive(entries, patches, (err, archivePath) => {
+      if (err) return done(err);
+      extract(archivePath as string, {}, (rejectErr) => {
+        assertUnsafe(rejectErr);
+
+        extract(archivePath as string, { pathPolicy: 'strip' }, (stripErr, paths) => {
+          if (stripErr) return done(stripErr);
+          assert.deepEqual(paths, ['ok.txt']);
+          assert.equal(fs.readFileSync(path.join(OUT, 'ok.txt'), 'utf8'), 'ok');
+          done();
+        });
+      });
+    });
+  });
+
+  it('should guard symlink targets that escape the destination', (done) => {
+    const entries: WriterEntry[] = [
+      { type: 'file', path: 'data/fixture.js', data: 'fixture' },
+      { type: 'symlink', path: 'data/inside', linkpath: '../data/./fixture.js' },
+      { type: 'symlink', path: 'data/outside', linkpath: '../../outside.txt' },
+    ];
+    writeArchive(entries, [], (err, archivePath) => {
+      if (err) return done(err);
+      extract(archivePath as string, {}, (rejectErr) => {
+        assertUnsafe(rejectErr);
+        // Entries before the unsafe link are extracted; safe targets are normalized
+        assert.equal(fs.readlinkSync(path.join(OUT, 'data', 'inside')), 'fixture.js');
+
+        safeRm(OUT, () => {
+          extract(archivePath as string, { pathPolicy: 'strip' }, (stripErr) => {
+            if (stripErr) return done(stripErr);
+            assert.equal(fs.readlinkSync(path.join(OUT, 'data', 'outside')), path.join('..', 'outside.txt'));
+            done();
+          });
+        });
+      });
+    });
+  });
+});
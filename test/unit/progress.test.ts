@@ -0,0 +1,99 @@
+// Progress reporting tests
+
+import assert from 'assert';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { BufferSource, type Progress, SevenZipParser } from '../../src/sevenz/index.ts';
+import type { ExtractOptions } from '../../src/types.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+
+function extractWithProgress(name: string, callback: (err?: Error, updates?: Progress[]) => void): void {
+  const updates: Progress[] = [];
+  const options: ExtractOptions = { onProgress: (progress) => updates.push(progress) };
+  const iterator = new SevenZipIterator(path.join(DATA_DIR, name), options);
+  iterator.forEach(
+    (entry, cb) => {
+      entry.create(TARGET, {}, cb);
+    },
+    { callbacks: true, concurrency: 1 },
+    (err) => {
+      err ? callback(err) : callback(undefined, updates);
+    }
+  );
+}
+
+describe('progress', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should report reads while parsing', (done) => {
+    const buffer = fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'));
+    const updates: Progress[] = [];
+    const parser = new SevenZipParser(new BufferSource(buffer), { onProgress: (progress) => updates.push(progress) });
+    parser.parse((err) => {
+      if (err) return done(err);
+      assert.ok(updates.length > 0);
+      const last = updates[updates.length - 1];
+      assert.equal(last.archiveSize, buffer.length);
+      assert.ok(last.bytesRead > 0);
+      assert.equal(last.bytesDecompressed, 0);
+      done();
+    });
+  });
+
+  it('should reach the totals for a buffered solid folder', (done) => {
+    extractWithProgress('lzma1.7z', (err, updates) => {
+      if (err) return done(err);
+      const last = (updates as Progress[])[(updates as Progress[]).length - 1];
+      assert.equal(last.totalBytes, 48);
+      assert.equal(last.bytesDecompressed, 48);
+      assert.equal(last.folderTotalBytes, 48);
+      assert.equal(last.bytesWritten, 48);
+      assert.equal(last.totalEntries, 2);
+      assert.equal(last.entriesCompleted, 2);
+      done();
+    });
+  });
+
+  it('should count streamed folders and increase monotonically', (done) => {
+    extractWithProgress('copy.7z', (err, updates) => {
+      if (err) return done(err);
+      const list = updates as Progress[];
+      for (let i = 1; i < list.length; i++) {
+        assert.ok(list[i].bytesRead >= list[i - 1].bytesRead);
+        assert.ok(list[i].bytesDecompressed >= list[i - 1].bytesDecompressed);
+        assert.ok(list[i].entriesCompleted >= list[i - 1].entriesCompleted);
+      }
+      const last = list[list.length - 1];
+      assert.equal(last.bytesDecompressed, last.totalBytes);
+      assert.equal(last.bytesWritten, 92);
+      assert.equal(last.entriesCompleted, 4);
+      assert.equal(last.folderIndex, 3);
+      assert.equal(last.path, path.join('data', 'fixture.js'));
+      done();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+// Self-extracting (SFX) archive tests
+// SFX files are built by prepending a fake executable stub to lzma2.7z
+
+import SevenZipIterator from '7z-iterator';
+import assert from 'assert';
+import { allocBuffer } from 'extract-base-iterator';
+import fs from 'fs';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import { BufferSource, SevenZipParser } from '../../src/sevenz/index.ts';
+import { DATA_DIR, TARGET } from '../lib/constants.ts';
+import validateFiles from '../lib/validateFiles.ts';
+
+// "MZ" stub with decoy 7z magic bytes that fail the start header CRC check
+function stub(size: number): Buffer {
+  const buf = allocBuffer(size);
+  let seed = 42;
+  for (let i = 0; i < size; i++) {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    buf[i] = seed >>> 16;
+  }
+  buf[0] = 0x4d;
+  buf[1] = 0x5a;
+  const magic = [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c, 0x00, 0x04];
+  for (let i = 0; i < magic.length; i++) buf[100 + i] = magic[i];
+  return buf;
+}
+
+function sfxArchive(stubSize: number): Buffer {
+  return Buffer.concat([stub(stubSize), fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))]);
+}
+
+describe('self-extracting archives', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  it('should report sfxOffset after the stub', (done) => {
+    // Larger than one scan chunk so the signature is found in a later chunk
+    const parser = new SevenZipParser(new BufferSource(sfxArchive(70000)));
+    parser.parse((err) => {
+      if (err) return done(err);
+      assert.equal(parser.sfxOffset, 70000);
+      assert.equal(parser.getEntries().length, 8);
+      done();
+    });
+  });
+
+  it('should report sfxOffset 0 for plain archives', (done) => {
+    const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma2.7z'))));
+    parser.parse((err) => {
+      if (err) return done(err);
+      assert.equal(parser.sfxOffset, 0);
+      done();
+    });
+  });
+
+  it('should extract an SFX file with SevenZipIterator', (done) => {
+    const sfxPath = path.join(TARGET, 'installer.exe');
+    fs.writeFileSync(sfxPath, sfxArchive(4096));
+
+    const iterator = new SevenZipIterator(sfxPath);
+    iterator.forEach(
+      (entry, cb) => {
+        entry.create(TARGET, {}, cb);
+      },
+      { callbacks: true, concurrency: 1 },
+      (err) => {
+        if (err) return done(err);
+        validateFiles({}, done);
+      }
+    );
+  });
+
+  it('should reject files without an embedded archive', (done) => {
+    const parser = new SevenZipParser(new BufferSource(stub(4096)));
+    parser.parse((err) => {
+      assert.ok(err, 'Should fail');
+      assert.equal((err as Error & { code?: string }).code, 'INVALID_SIGNATURE');
+      done();
+    });
+  });
+});
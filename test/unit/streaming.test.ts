@@ -3,11 +3,14 @@
 
 import SevenZipIterator, { type FileEntry } from '7z-iterator';
 import assert from 'assert';
+import { allocBuffer } from 'extract-base-iterator';
 import fs from 'fs';
 import { safeRm } from 'fs-remove-compat';
 import mkdirp from 'mkdirp-classic';
 import path from 'path';
 import Pinkie from 'pinkie-promise';
+import { getCodec } from '../../src/sevenz/codecs/index.ts';
+import { CodecId } from '../../src/sevenz/constants.ts';
 import { BufferSource, FileSource, SevenZipParser } from '../../src/sevenz/index.ts';
 import { arrayFind } from '../lib/compat.ts';
 import { DATA_DIR, TARGET } from '../lib/constants.ts';
@@ -379,6 +382,38 @@ describe('streaming', () => {
         done();
       });
     });
+
+    it('should return true for LZMA folder', (done) => {
+      const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, 'lzma1.7z'))));
+      parser.parse((parseErr) => {
+        if (parseErr) {
+          done(parseErr);
+          return;
+        }
+
+        const entries = parser.getEntries();
+        const fileEntry = arrayFind(entries, (e) => e.type === 'file');
+        assert.ok(fileEntry, 'Should have file entry');
+        assert.strictEqual(parser.canStreamFolder(fileEntry._folderIndex), true, 'LZMA should be streamable');
+        done();
+      });
+    });
+
+    it('should return true for every branch filter folder', (done) => {
+      // arm64.7z holds an ARMT filter
+      const names = ['bcj.7z', 'arm.7z', 'arm64.7z', 'ppc.7z', 'ia64.7z', 'sparc.7z'];
+      let pending = names.length;
+      for (let i = 0; i < names.length; i++) {
+        const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, names[i]))));
+        parser.parse((parseErr) => {
+          if (parseErr) return done(parseErr);
+          const fileEntry = arrayFind(parser.getEntries(), (e) => e.type === 'file');
+          assert.ok(fileEntry, 'Should have file entry');
+          assert.strictEqual(parser.canStreamFolder(fileEntry._folderIndex), true, `${names[i]} should be streamable`);
+          if (--pending === 0) done();
+        });
+      }
+    });
   });
 
   describe('FolderStreamSplitter (multi-file solid)', () => {
@@ -678,4 +713,89 @@ describe('streaming', () => {
       );
     });
   });
+
+  describe('branch converters', () => {
+    // branch-<arch>.7z: code.bin is 32771 bytes of generated call instructions ending in 'end',
+    // packed by 7-Zip with the matching filter so every call's target was rewritten to absolute
+    const FILTERS: { name: string; id: number[] }[] = [
+      { name: 'branch-armt.7z', id: CodecId.BCJ_ARMT },
+      { name: 'branch-ppc.7z', id: CodecId.BCJ_PPC },
+      { name: 'branch-ia64.7z', id: CodecId.BCJ_IA64 },
+      { name: 'branch-sparc.7z', id: CodecId.BCJ_SPARC },
+    ];
+
+    function readCode(name: string, callback: (err: Error | null, data?: Buffer) => void): void {
+      const parser = new SevenZipParser(new BufferSource(fs.readFileSync(path.join(DATA_DIR, name))));
+      parser.parse((parseErr) => {
+        if (parseErr) return callback(parseErr);
+        const fileEntry = arrayFind(parser.getEntries(), (e) => e.type === 'file');
+        assert.ok(fileEntry && fileEntry._canStream, `${name} should stream`);
+        const chunks: Buffer[] = [];
+        const stream = parser.getEntryStream(fileEntry);
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('error', callback);
+        stream.on('end', () => callback(null, Buffer.concat(chunks)));
+      });
+    }
+
+    // Feed a decoder in small uneven chunks so instructions straddle chunk boundaries
+    function convertInChunks(id: number[], input: Buffer, callback: (err: Error | null, data?: Buffer) => void): void {
+      const decoder = getCodec(id).createDecoder();
+      const chunks: Buffer[] = [];
+      decoder.on('data', (chunk: Buffer) => chunks.push(chunk));
+      decoder.on('error', callback);
+      decoder.on('end', () => callback(null, Buffer.concat(chunks)));
+      let offset = 0;
+      for (let size = 1; offset < input.length; size = (size % 7) + 1) {
+        decoder.write(input.slice(offset, offset + size));
+        offset += size;
+      }
+      decoder.end();
+    }
+
+    it('should restore call instructions from 7-Zip filtered archives', (done) => {
+      let pending = FILTERS.length;
+      for (let i = 0; i < FILTERS.length; i++) {
+        readCode(FILTERS[i].name, (err, data) => {
+          if (err) return done(err);
+          // CRC is verified by the entry stream
+          assert.equal((data as Buffer).length, 32771);
+          assert.equal((data as Buffer).slice(-3).toString(), 'end');
+          if (--pending === 0) done();
+        });
+      }
+    });
+
+    it('should convert the same across chunk boundaries', (done) => {
+      let pending = FILTERS.length;
+      for (let i = 0; i < FILTERS.length; i++) {
+        const filter = FILTERS[i];
+        readCode(filter.name, (err, data) => {
+          if (err) return done(err);
+          getCodec(filter.id).decode(data as Buffer, undefined, undefined, (decodeErr, expected) => {
+            if (decodeErr) return done(decodeErr);
+            convertInChunks(filter.id, data as Buffer, (convertErr, actual) => {
+              if (convertErr) return done(convertErr);
+              assert.ok((actual as Buffer).equals(expected as Buffer), `${filter.name} chunked output should match`);
+              if (--pending === 0) done();
+            });
+          });
+        });
+      }
+    });
+
+    it('should convert ARM64 BL and ADRP instructions', (done) => {
+      const input = allocBuffer(0x2006);
+      input.fill(0);
+      input.writeUInt32LE(0x94000012, 8); // BL, absolute +0x12 words
+      input.writeUInt32LE(0xb0000021, 0x2000); // ADRP x1, absolute page 5
+      convertInChunks(CodecId.BCJ_ARM64, input, (err, output) => {
+        if (err) return done(err);
+        assert.equal((output as Buffer).length, input.length);
+        assert.equal((output as Buffer).readUInt32LE(8), 0x94000010);
+        assert.equal((output as Buffer).readUInt32LE(0x2000), 0xf0000001);
+        done();
+      });
+    });
+  });
 });
@@ -0,0 +1,124 @@
+// Integrity test (verify) tests
+// Corrupt archives are built in memory by flipping bytes in copy.7z (one 23 byte file per folder)
+
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import SevenZipIterator from '../../src/index.ts';
+import { BufferSource, SevenZipParser, type VerifyReport } from '../../src/sevenz/index.ts';
+import { DATA_DIR } from '../lib/constants.ts';
+
+function verifyBuffer(buffer: Buffer, callback: (err: Error | null, report?: VerifyReport) => void, password?: string): void {
+  const parser = new SevenZipParser(new BufferSource(buffer), { password: password });
+  parser.parse((err) => {
+    if (err) return callback(err);
+    parser.verify(callback);
+  });
+}
+
+function verifyFile(name: string, callback: (err: Error | null, report?: VerifyReport) => void, password?: string): void {
+  verifyBuffer(fs.readFileSync(path.join(DATA_DIR, name)), callback, password);
+}
+
+describe('verify', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  it('should pass a solid archive', (done) => {
+    verifyFile('lzma2.7z', (err, report) => {
+      if (err) return done(err);
+      const result = report as VerifyReport;
+      assert.equal(result.ok, true);
+      assert.equal(result.passed, 4);
+      assert.equal(result.failed, 0);
+      assert.equal(result.entries.length, 4);
+      done();
+    });
+  });
+
+  it('should pass every non-solid folder', (done) => {
+    verifyFile('copy.7z', (err, report) => {
+      if (err) return done(err);
+      const result = report as VerifyReport;
+      assert.equal(result.ok, true);
+      assert.deepEqual(
+        result.entries.map((e) => e.folderIndex),
+        [0, 1, 2, 3]
+      );
+      done();
+    });
+  });
+
+  it('should report only the corrupted entry', (done) => {
+    const buffer = fs.readFileSync(path.join(DATA_DIR, 'copy.7z'));
+    // First byte of the second folder's packed stream
+    buffer[32 + 23] ^= 0xff;
+    verifyBuffer(buffer, (err, report) => {
+      if (err) return done(err);
+      const result = report as VerifyReport;
+      assert.equal(result.ok, false);
+      assert.equal(result.passed, 3);
+      assert.equal(result.failed, 1);
+      const failed = result.entries.filter((e) => e.status === 'failed')[0];
+      assert.equal(failed.folderIndex, 1);
+      assert.equal((failed.error as Error & { code?: string }).code, 'CRC_MISMATCH');
+      done();
+    });
+  });
+
+  it('should report corrupted-crc.7z', (done) => {
+    verifyFile('corrupted-crc.7z', (err, report) => {
+      if (err) return done(err);
+      assert.equal((report as VerifyReport).ok, false);
+      assert.ok((report as VerifyReport).failed > 0);
+      done();
+    });
+  });
+
+  it('should report a wrong password per entry', (done) => {
+    verifyFile(
+      'multi-password.7z',
+      (err, report) => {
+        if (err) return done(err);
+        const result = report as VerifyReport;
+        assert.deepEqual(
+          result.entries.map((e) => e.status),
+          ['passed', 'failed']
+        );
+        assert.equal((result.entries[1].error as Error & { code?: string }).code, 'WRONG_PASSWORD');
+        done();
+      },
+      'first'
+    );
+  });
+
+  it('should test with SevenZipIterator (Promise)', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'bcj.7z'));
+    (iterator.test() as Promise<VerifyReport>)
+      .then((report) => {
+        assert.equal(report.ok, true);
+        assert.equal(report.passed, 1);
+        iterator.destroy();
+        done();
+      })
+      .catch(done);
+  });
+
+  it('should pass parse errors to test', (done) => {
+    const iterator = new SevenZipIterator(path.join(DATA_DIR, 'truncated-signature.7z'));
+    iterator.test((err) => {
+      assert.ok(err, 'Should fail');
+      done();
+    });
+  });
+});
@@ -0,0 +1,177 @@
+// SevenZipWriter tests
+// Archives are written in memory and read back through SevenZipParser / SevenZipIterator
+
+import SevenZipIterator from '7z-iterator';
+import assert from 'assert';
+import { safeRm } from 'fs-remove-compat';
+import mkdirp from 'mkdirp-classic';
+import path from 'path';
+import Pinkie from 'pinkie-promise';
+import { BufferSource, ErrorCode, type SevenZipEntry, SevenZipParser, SevenZipWriter, type SevenZipWriterOptions } from '../../src/sevenz/index.ts';
+import { arrayFind } from '../lib/compat.ts';
+import { TARGET } from '../lib/constants.ts';
+import randomBytes from '../lib/randomBytes.ts';
+import readStream from '../lib/readStream.ts';
+
+// Repetitive text larger than one LZMA2 chunk (64KB)
+function largeText(): Buffer {
+  const parts: string[] = [];
+  for (let i = 0; i < 5000; i++) parts.push(`line ${i % 97}: the quick brown fox jumps over the lazy dog\n`);
+  return Buffer.from(parts.join(''), 'utf8');
+}
+
+function sampleWriter(options: SevenZipWriterOptions): SevenZipWriter {
+  return new SevenZipWriter(options)
+    .add({ type: 'directory', path: 'data', mtime: new Date(1700000000000) })
+    .add({ type: 'file', path: 'data/hello.txt', data: 'Hello, 7z!' })
+    .add({ type: 'file', path: 'data/empty.txt', data: '' })
+    .add({ type: 'file', path: 'data/large.txt', data: largeText() })
+    .add({ type: 'file', path: 'data/random.bin', data: randomBytes(100000) })
+    .add({ type: 'symlink', path: 'data/link', linkpath: 'hello.txt' });
+}
+
+function readAll(parser: SevenZipParser, callback: (err: Error | null, contents?: { [path: string]: Buffer }) => void): void {
+  const entries = parser.getEntries();
+  const contents: { [path: string]: Buffer } = {};
+  let index = 0;
+
+  function next(): void {
+    if (index >= entries.length) return callback(null, contents);
+    const entry = entries[index++];
+    if (entry.type === 'directory') return next();
+    readStream(parser.getEntryStream(entry), (err, data) => {
+      if (err) return callback(err);
+      contents[entry.path] = data as Buffer;
+      next();
+    });
+  }
+  next();
+}
+
+function findEntry(parser: SevenZipParser, entryPath: string): SevenZipEntry {
+  return arrayFind(parser.getEntries(), (e) => e.path === entryPath);
+}
+
+describe('SevenZipWriter', () => {
+  (() => {
+    // patch and restore promise for Node 0.8
+    if (typeof global === 'undefined') return;
+    const globalPromise = global.Promise;
+    before(() => {
+      global.Promise = Pinkie;
+    });
+    after(() => {
+      global.Promise = globalPromise;
+    });
+  })();
+
+  beforeEach((callback) => {
+    safeRm(TARGET, () => {
+      mkdirp(TARGET, callback);
+    });
+  });
+
+  afterEach((callback) => {
+    safeRm(TARGET, callback);
+  });
+
+  const combinations: SevenZipWriterOptions[] = [
+    { method: 'copy', solid: true },
+    { method: 'copy', solid: false },
+    { method: 'lzma2', solid: true },
+    { method: 'lzma2', solid: false },
+  ];
+
+  combinations.forEach((options) => {
+    it(`should round trip ${options.method} (${options.solid ? 'solid' : 'non-solid'})`, (done) => {
+      sampleWriter(options).toBuffer((err, archive) => {
+        if (err) return done(err);
+        const parser = new SevenZipParser(new BufferSource(archive));
+        parser.parse((parseErr) => {
+          if (parseErr) return done(parseErr);
+
+          const dir = findEntry(parser, 'data');
+          assert.equal(dir.type, 'directory');
+          assert.equal(dir.mtime.getTime(), 1700000000000);
+          assert.equal(findEntry(parser, 'data/link').type, 'link');
+
+          readAll(parser, (readErr, contents) => {
+            if (readErr) return done(readErr);
+            assert.equal(contents['data/hello.txt'].toString('utf8'), 'Hello, 7z!');
+            assert.equal(contents['data/empty.txt'].length, 0);
+            assert.ok(contents['data/large.txt'].equals(largeText()));
+            assert.ok(contents['data/random.bin'].equals(randomBytes(100000)));
+            assert.equal(contents['data/link'].toString('utf8'), 'hello.txt');
+            done();
+          });
+        });
+      });
+    });
+  });
+
+  it('should compress repetitive data with lzma2', (done) => {
+    const writer = new SevenZipWriter({ method: 'lzma2' }).add({ type: 'file', path: 'large.txt', data: largeText() });
+    (writer.toBuffer() as Promise<Buffer>)
+      .then((archive) => {
+        assert.ok(archive.length < largeText().length / 4, 'Archive should be much smaller than the input');
+        done();
+      })
+      .catch(done);
+  });
+
+  it('should write an archive readable by SevenZipIterator', (done) => {
+    const archivePath = path.join(TARGET, 'written.7z');
+    (sampleWriter({ method: 'lzma2' }).writeFile(archivePath) as Promise<void>)
+      .then(() => {
+        const iterator = new SevenZipIterator(archivePath);
+        const entries: { path: string; type: string; linkpath?: string }[] = [];
+        iterator.forEach(
+          (entry): void => {
+            entries.push({ path: entry.path, type: entry.type, linkpath: (entry as { linkpath?: string }).linkpath });
+          },
+          (err) => {
+            if (err) return done(err);
+            assert.equal(entries.length, 6);
+            assert.equal(arrayFind(entries, (e) => e.path === path.join('data', 'hello.txt')).type, 'file');
+            assert.equal(arrayFind(entries, (e) => e.path === path.join('data', 'link')).linkpath, 'hello.txt');
+            done();
+          }
+        );
+      })
+      .catch(done);
+  });
+
+  it('should normalize entry paths', (done) => {
+    new SevenZipWriter({ method: 'copy' }).add({ type: 'file', path: 'a\\b/./c.txt', data: 'x' }).toBuffer((err, archive) => {
+      if (err) return done(err);
+      const parser = new SevenZipParser(new BufferSource(archive));
+      parser.parse((parseErr) => {
+        if (parseErr) return done(parseErr);
+        assert.equal(parser.getEntries()[0].path, 'a/b/c.txt');
+        done();
+      });
+    });
+  });
+
+  it('should reject unsupported methods and empty paths', () => {
+    assert.throws(
+      () => new SevenZipWriter({ method: 'bzip2' as 'copy' }),
+      (err: Error & { code?: string }) => err.code === ErrorCode.UNSUPPORTED_CODEC
+    );
+    assert.throws(
+      () => new SevenZipWriter().add({ type: 'file', path: './', data: 'x' }),
+      (err: Error & { code?: string }) => err.code === ErrorCode.UNSUPPORTED_FEATURE
+    );
+  });
+
+  it('should reject absolute paths, drive letters and parent segments', () => {
+    const paths = ['/etc/passwd', '\\server\\share.txt', 'C:\\temp\\a.txt', 'c:a.txt', '../a.txt', 'a/../../b.txt', 'a\\..\\b.txt'];
+    for (let i = 0; i < paths.length; i++) {
+      assert.throws(
+        () => new SevenZipWriter().add({ type: 'file', path: paths[i], data: 'x' }),
+        (err: Error & { code?: string }) => err.code === ErrorCode.UNSAFE_PATH,
+        paths[i]
+      );
+    }
+  });
+});